@@ -0,0 +1,92 @@
+/**
+ * Credential resolution for providers with several configured accounts
+ * (experimental.quotaToast.accounts).
+ *
+ * Provider modules turn the resolved credential into their own auth shape.
+ */
+
+import { readFile } from "fs/promises";
+
+import { readAuthFile } from "./opencode-auth.js";
+import { expandHome } from "./path-pick.js";
+import type { ProviderAccountConfig } from "./types.js";
+
+/** A bare token (file/env), or an auth.json-style entry (JSON file or authKey). */
+export type AccountCredential =
+  { kind: "token"; token: string } | { kind: "auth"; entry: Record<string, unknown> };
+
+export type AccountCredentialResult =
+  { ok: true; credential: AccountCredential } | { ok: false; error: string };
+
+/** Per-account query result, labeled like Antigravity entries carry accountEmail. */
+export interface AccountQueryResult<R> {
+  account: string;
+  result: R;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+/** Where an account's token comes from, e.g. "env:GITHUB_WORK_TOKEN" (never the token). */
+export function describeAccountSource(account: ProviderAccountConfig): string {
+  if (account.file) return `file:${account.file}`;
+  if (account.env) return `env:${account.env}`;
+  return `auth:${account.authKey ?? ""}`;
+}
+
+export async function resolveAccountCredential(
+  account: ProviderAccountConfig,
+): Promise<AccountCredentialResult> {
+  if (account.file) {
+    let content: string;
+    try {
+      content = (await readFile(expandHome(account.file), "utf-8")).trim();
+    } catch {
+      return { ok: false, error: `Cannot read ${account.file}` };
+    }
+    if (!content) return { ok: false, error: `${account.file} is empty` };
+
+    if (content.startsWith("{")) {
+      try {
+        const parsed = JSON.parse(content) as unknown;
+        if (isRecord(parsed)) return { ok: true, credential: { kind: "auth", entry: parsed } };
+      } catch {
+        return { ok: false, error: `${account.file} is not valid JSON` };
+      }
+    }
+    return { ok: true, credential: { kind: "token", token: content } };
+  }
+
+  if (account.env) {
+    const token = process.env[account.env]?.trim();
+    if (!token) return { ok: false, error: `${account.env} is not set` };
+    return { ok: true, credential: { kind: "token", token } };
+  }
+
+  if (account.authKey) {
+    const auth = (await readAuthFile()) as Record<string, unknown> | null;
+    const entry = auth?.[account.authKey];
+    if (!isRecord(entry)) return { ok: false, error: `No "${account.authKey}" entry in auth.json` };
+    return { ok: true, credential: { kind: "auth", entry } };
+  }
+
+  return { ok: false, error: "No token source configured" };
+}
+
+/** Query every account in parallel; one slow or failing account never hides the others. */
+export async function queryAccounts<R>(
+  accounts: ProviderAccountConfig[],
+  query: (credential: AccountCredential, account: ProviderAccountConfig) => Promise<R>,
+  onError: (error: string) => R,
+): Promise<AccountQueryResult<R>[]> {
+  return await Promise.all(
+    accounts.map(async (account) => {
+      const resolved = await resolveAccountCredential(account);
+      return {
+        account: account.label,
+        result: resolved.ok ? await query(resolved.credential, account) : onError(resolved.error),
+      };
+    }),
+  );
+}
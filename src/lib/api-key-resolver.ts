@@ -9,6 +9,12 @@ import { existsSync } from "fs";
 import { readFile } from "fs/promises";
 import { join } from "path";
 
+import {
+  describeSecretTemplate,
+  isLocalSecretTemplate,
+  recordSkippedSecretTemplate,
+  resolveSecretTemplate,
+} from "./env-template.js";
 import { getOpencodeRuntimeDirCandidates } from "./opencode-runtime-paths.js";
 import { parseJsonOrJsonc } from "./jsonc.js";
 
@@ -16,6 +22,8 @@ import { parseJsonOrJsonc } from "./jsonc.js";
 export interface ConfigCandidate {
   path: string;
   isJsonc: boolean;
+  /** Project-local (cwd) config, which may come from an untrusted checkout */
+  workspace: boolean;
 }
 
 /**
@@ -30,13 +38,13 @@ export function getOpencodeConfigCandidatePaths(): ConfigCandidate[] {
 
   const global: ConfigCandidate[] = [];
   for (const dir of configDirs) {
-    global.push({ path: join(dir, "opencode.jsonc"), isJsonc: true });
-    global.push({ path: join(dir, "opencode.json"), isJsonc: false });
+    global.push({ path: join(dir, "opencode.jsonc"), isJsonc: true, workspace: false });
+    global.push({ path: join(dir, "opencode.json"), isJsonc: false, workspace: false });
   }
 
   return [
-    { path: join(cwd, "opencode.jsonc"), isJsonc: true },
-    { path: join(cwd, "opencode.json"), isJsonc: false },
+    { path: join(cwd, "opencode.jsonc"), isJsonc: true, workspace: true },
+    { path: join(cwd, "opencode.json"), isJsonc: false, workspace: true },
     ...global,
   ];
 }
@@ -64,6 +72,8 @@ export async function readOpencodeConfig(
 export interface ApiKeyResult<Source extends string> {
   key: string;
   source: Source;
+  /** Secret reference the config value pointed at, e.g. "cmd:pass" (never the key) */
+  via?: string;
 }
 
 /** Environment variable definition for key resolution */
@@ -77,7 +87,10 @@ export interface ResolveApiKeyConfig<Source extends string> {
   /** Environment variables to check (in order) */
   envVars: EnvVarDef<Source>[];
 
-  /** Extract API key from parsed config object. Returns null if not found. */
+  /**
+   * Extract the configured API key value from a parsed config object. Returns null if not found.
+   * `{env:}`, `{file:}` and `{cmd:}` references are resolved by resolveApiKey.
+   */
   extractFromConfig: (config: unknown) => string | null;
 
   /** Source label for opencode.json */
@@ -101,6 +114,10 @@ export interface ResolveApiKeyConfig<Source extends string> {
  * 2. opencode.json/opencode.jsonc (local first, then global)
  * 3. auth.json
  *
+ * Config values may be secret references (see resolveSecretTemplate); a reference
+ * that cannot be resolved is skipped like an unset env var. {file:} and {cmd:}
+ * references are only honored from the global config, never from the project's.
+ *
  * @returns API key and source, or null if not found
  */
 export async function resolveApiKey<Source extends string>(
@@ -121,11 +138,20 @@ export async function resolveApiKey<Source extends string>(
     const result = await readOpencodeConfig(candidate.path, candidate.isJsonc);
     if (!result) continue;
 
-    const key = config.extractFromConfig(result.config);
+    const raw = config.extractFromConfig(result.config);
+    if (!raw) continue;
+    if (candidate.workspace && isLocalSecretTemplate(raw)) {
+      recordSkippedSecretTemplate(raw, candidate.path);
+      continue;
+    }
+
+    const key = await resolveSecretTemplate(raw);
     if (key) {
+      const via = describeSecretTemplate(raw);
       return {
         key,
         source: result.isJsonc ? config.configJsoncSource : config.configJsonSource,
+        ...(via ? { via } : {}),
       };
     }
   }
@@ -160,6 +186,7 @@ export async function getApiKeyDiagnostics<Source extends string>(
 ): Promise<{
   configured: boolean;
   source: Source | null;
+  via: string | null;
   checkedPaths: string[];
 }> {
   const checkedPaths: string[] = [];
@@ -184,6 +211,7 @@ export async function getApiKeyDiagnostics<Source extends string>(
   return {
     configured: result !== null,
     source: result?.source ?? null,
+    via: result?.via ?? null,
     checkedPaths,
   };
 }
@@ -0,0 +1,44 @@
+/**
+ * Atomic file writes for plugin-owned state files.
+ *
+ * Writes go to a temp file in the same directory and are renamed into place so
+ * readers never observe a partially written file.
+ */
+
+import { mkdir, rename, rm, writeFile } from "fs/promises";
+import { dirname } from "path";
+
+async function safeRm(target: string): Promise<void> {
+  try {
+    await rm(target, { force: true });
+  } catch {
+    // best effort cleanup
+  }
+}
+
+export async function writeFileAtomic(path: string, content: string): Promise<void> {
+  const dir = dirname(path);
+  const tmp = `${path}.tmp-${process.pid}-${Date.now()}-${Math.random().toString(16).slice(2)}`;
+  await mkdir(dir, { recursive: true });
+  await writeFile(tmp, content, "utf-8");
+
+  try {
+    await rename(tmp, path);
+  } catch (err) {
+    const code =
+      err && typeof err === "object" && "code" in err
+        ? String((err as { code?: unknown }).code)
+        : "";
+    const shouldRetryAsReplace =
+      code === "EPERM" || code === "EEXIST" || code === "EACCES" || code === "ENOTEMPTY";
+
+    if (!shouldRetryAsReplace) {
+      await safeRm(tmp);
+      throw err;
+    }
+
+    // Windows cannot rename over an existing file; remove the target and retry.
+    await safeRm(path);
+    await rename(tmp, path);
+  }
+}
@@ -0,0 +1,64 @@
+/**
+ * API base URLs for providers, with overrides from experimental.quotaToast.baseUrls.
+ *
+ * Each base is the part before the provider's fixed endpoint path, e.g. Z.ai's
+ * quota lives at `${base}/api/monitor/usage/quota/limit`.
+ */
+
+import type { BaseUrlProviderId, BaseUrlsConfig } from "./types.js";
+
+export const DEFAULT_BASE_URLS: Record<BaseUrlProviderId, string> = {
+  copilot: "https://api.github.com",
+  openai: "https://chatgpt.com/backend-api",
+  zai: "https://api.z.ai",
+  chutes: "https://api.chutes.ai",
+  firmware: "https://app.firmware.ai",
+  openrouter: "https://openrouter.ai/api/v1",
+};
+
+let overrides: BaseUrlsConfig = {};
+
+/** Apply experimental.quotaToast.baseUrls to every later provider request. */
+export function setBaseUrlOverrides(config: BaseUrlsConfig): void {
+  overrides = { ...config };
+}
+
+function trimTrailingSlash(url: string): string {
+  return url.replace(/\/+$/, "");
+}
+
+/** Configured override, else the public default (no trailing slash). */
+export function getBaseUrl(id: BaseUrlProviderId): string {
+  return trimTrailingSlash(overrides[id] ?? DEFAULT_BASE_URLS[id]);
+}
+
+/** True when the provider talks to a non-default host (shown in /quota_status). */
+export function hasBaseUrlOverride(id: BaseUrlProviderId): boolean {
+  return !!overrides[id];
+}
+
+/**
+ * Map a GitHub host or URL to its REST API base.
+ *
+ * - github.com -> https://api.github.com
+ * - GHE.com tenants (octo.ghe.com) -> https://api.octo.ghe.com
+ * - GitHub Enterprise Server (github.corp.example) -> https://github.corp.example/api/v3
+ *
+ * URLs that already include a path (or an api. host) are kept as given.
+ */
+export function toGitHubApiBaseUrl(hostOrUrl: string): string {
+  const raw = hostOrUrl.trim();
+  let url: URL;
+  try {
+    url = new URL(/^[a-z]+:\/\//i.test(raw) ? raw : `https://${raw}`);
+  } catch {
+    return trimTrailingSlash(raw);
+  }
+
+  const host = url.host.toLowerCase();
+  if (url.pathname !== "/" && url.pathname !== "") return trimTrailingSlash(url.toString());
+  if (host === "github.com" || host === "www.github.com") return "https://api.github.com";
+  if (host.startsWith("api.")) return `${url.protocol}//${host}`;
+  if (host.endsWith(".ghe.com")) return `${url.protocol}//api.${host}`;
+  return `${url.protocol}//${host}/api/v3`;
+}
@@ -0,0 +1,107 @@
+/**
+ * Monthly spend budgets.
+ *
+ * Compares month-to-date API-equivalent cost (from aggregateUsage) with the
+ * caps in config.budgets. Months are calendar months in the local timezone.
+ */
+
+import type { BudgetsConfig } from "./types.js";
+import type { AggregateResult } from "./quota-stats.js";
+import { aggregateUsage } from "./quota-stats.js";
+import { fmtUsdAmount } from "./format-utils.js";
+
+export interface BudgetStatus {
+  scope: "total" | "provider" | "model";
+  /** Config key ("total" for the global cap) */
+  key: string;
+  spentUsd: number;
+  limitUsd: number;
+  /** Spent as a percentage of the cap (may exceed 100) */
+  percentUsed: number;
+}
+
+export function hasBudgets(budgets: BudgetsConfig): boolean {
+  return (
+    typeof budgets.monthlyUsd === "number" ||
+    Object.keys(budgets.providers).length > 0 ||
+    Object.keys(budgets.models).length > 0
+  );
+}
+
+export function startOfLocalMonthMs(nowMs: number): number {
+  const d = new Date(nowMs);
+  return new Date(d.getFullYear(), d.getMonth(), 1).getTime();
+}
+
+export function startOfNextLocalMonthMs(nowMs: number): number {
+  const d = new Date(nowMs);
+  return new Date(d.getFullYear(), d.getMonth() + 1, 1).getTime();
+}
+
+function makeStatus(
+  scope: BudgetStatus["scope"],
+  key: string,
+  spentUsd: number,
+  limitUsd: number,
+): BudgetStatus {
+  return { scope, key, spentUsd, limitUsd, percentUsed: (spentUsd / limitUsd) * 100 };
+}
+
+/**
+ * Compute budget statuses from an aggregate covering the budget window.
+ *
+ * Model keys match either the bare source model id or "provider/model".
+ */
+export function computeBudgetStatuses(
+  budgets: BudgetsConfig,
+  result: AggregateResult,
+): BudgetStatus[] {
+  const out: BudgetStatus[] = [];
+
+  if (typeof budgets.monthlyUsd === "number") {
+    out.push(makeStatus("total", "total", result.totals.costUsd, budgets.monthlyUsd));
+  }
+
+  for (const [provider, limit] of Object.entries(budgets.providers)) {
+    const spent = result.bySourceProvider
+      .filter((row) => row.providerID.toLowerCase() === provider)
+      .reduce((sum, row) => sum + row.costUsd, 0);
+    out.push(makeStatus("provider", provider, spent, limit));
+  }
+
+  for (const [model, limit] of Object.entries(budgets.models)) {
+    const spent = result.bySourceModel
+      .filter(
+        (row) =>
+          row.sourceModelID === model || `${row.sourceProviderID}/${row.sourceModelID}` === model,
+      )
+      .reduce((sum, row) => sum + row.costUsd, 0);
+    out.push(makeStatus("model", model, spent, limit));
+  }
+
+  return out;
+}
+
+/** "spent $12.40 of $50.00 (25%)" */
+export function formatBudgetValue(status: BudgetStatus): string {
+  return `spent ${fmtUsdAmount(status.spentUsd)} of ${fmtUsdAmount(status.limitUsd)} (${Math.round(status.percentUsed)}%)`;
+}
+
+/** Short row label: "Total", "anthropic", "model gpt-5" */
+export function formatBudgetLabel(status: BudgetStatus): string {
+  if (status.scope === "total") return "Total";
+  if (status.scope === "model") return `model ${status.key}`;
+  return status.key;
+}
+
+/**
+ * Month-to-date budget statuses. Returns an empty list when no budgets are configured.
+ */
+export async function queryBudgetStatuses(
+  budgets: BudgetsConfig,
+  nowMs: number = Date.now(),
+): Promise<BudgetStatus[]> {
+  if (!hasBudgets(budgets)) return [];
+  const result = await aggregateUsage({ sinceMs: startOfLocalMonthMs(nowMs), untilMs: nowMs });
+  return computeBudgetStatuses(budgets, result);
+}
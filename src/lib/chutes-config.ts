@@ -4,11 +4,10 @@
  * Resolution priority (first wins):
  * 1. Environment variable: CHUTES_API_KEY
  * 2. opencode.json/opencode.jsonc: provider.chutes.options.apiKey
- *    - Supports {env:VAR_NAME} syntax for environment variable references
+ *    - Supports {env:VAR_NAME}, {file:/path} and {cmd:command} references
  * 3. auth.json: chutes.key (legacy/fallback)
  */
 
-import { resolveEnvTemplate } from "./env-template.js";
 import { readAuthFile } from "./opencode-auth.js";
 import {
   resolveApiKey,
@@ -21,6 +20,8 @@ import {
 export interface ChutesApiKeyResult {
   key: string;
   source: ChutesKeySource;
+  /** Secret reference the config value pointed at, e.g. "cmd:pass" */
+  via?: string;
 }
 
 /** Source of the resolved API key */
@@ -51,7 +52,8 @@ function extractChutesKeyFromConfig(config: unknown): string | null {
   const apiKey = (options as Record<string, unknown>).apiKey;
   if (typeof apiKey !== "string" || apiKey.trim().length === 0) return null;
 
-  return resolveEnvTemplate(apiKey.trim());
+  // {env:}/{file:}/{cmd:} references are resolved by resolveApiKey
+  return apiKey.trim();
 }
 
 /**
@@ -109,6 +111,7 @@ export async function hasChutesApiKey(): Promise<boolean> {
 export async function getChutesKeyDiagnostics(): Promise<{
   configured: boolean;
   source: ChutesKeySource | null;
+  via: string | null;
   checkedPaths: string[];
 }> {
   return getApiKeyDiagnostics<ChutesKeySource>({
@@ -6,7 +6,8 @@
  */
 
 import type { ChutesResult } from "./types.js";
-import { fetchWithTimeout } from "./http.js";
+import { getBaseUrl } from "./base-urls.js";
+import { fetchWithRetry } from "./http.js";
 import { clampPercent } from "./format-utils.js";
 import {
   resolveChutesApiKey,
@@ -40,7 +41,7 @@ async function readChutesAuth(): Promise<ChutesApiAuth | null> {
   return { type: "api", key: result.key, source: result.source };
 }
 
-const CHUTES_QUOTA_URL = "https://api.chutes.ai/users/me/quota_usage/me";
+const CHUTES_QUOTA_PATH = "/users/me/quota_usage/me";
 
 export async function hasChutesApiKeyConfigured(): Promise<boolean> {
   return await hasChutesApiKey();
@@ -53,7 +54,7 @@ export async function queryChutesQuota(): Promise<ChutesResult> {
   if (!auth) return null;
 
   try {
-    const resp = await fetchWithTimeout(CHUTES_QUOTA_URL, {
+    const resp = await fetchWithRetry(`${getBaseUrl("chutes")}${CHUTES_QUOTA_PATH}`, {
       method: "GET",
       headers: {
         Authorization: `Bearer ${auth.key}`,
@@ -0,0 +1,68 @@
+/**
+ * Per-provider circuit breaker.
+ *
+ * After `threshold` consecutive failed fetches a provider is paused for
+ * `cooldownMs`; callers show its last good entries meanwhile (see last-good-entries.ts).
+ * The first fetch after a pause is a trial: success closes the breaker, failure
+ * pauses the provider again for twice as long (up to MAX_COOLDOWN_MS).
+ */
+
+import type { QuotaProviderResult } from "./entries.js";
+
+/** Upper bound for the doubling cooldown. */
+export const MAX_COOLDOWN_MS = 30 * 60_000;
+
+export interface CircuitBreaker {
+  /** Milliseconds until the provider may be called again (0 = call it now). */
+  pausedForMs(id: string, nowMs?: number): number;
+  recordSuccess(id: string): void;
+  recordFailure(id: string, nowMs?: number): void;
+  /** Consecutive failures so far (0 after a success). */
+  failureCount(id: string): number;
+}
+
+interface BreakerState {
+  failures: number;
+  /** Pauses since the last success; each doubles the cooldown */
+  trips: number;
+  openUntilMs: number;
+}
+
+export function createCircuitBreaker(params: {
+  /** 0 disables pausing (failures are still counted) */
+  threshold: number;
+  cooldownMs: number;
+}): CircuitBreaker {
+  const states = new Map<string, BreakerState>();
+
+  return {
+    pausedForMs(id, nowMs = Date.now()) {
+      const state = states.get(id);
+      return state ? Math.max(0, state.openUntilMs - nowMs) : 0;
+    },
+
+    recordSuccess(id) {
+      states.delete(id);
+    },
+
+    recordFailure(id, nowMs = Date.now()) {
+      const state = states.get(id) ?? { failures: 0, trips: 0, openUntilMs: 0 };
+      state.failures++;
+      if (params.threshold > 0 && params.cooldownMs > 0 && state.failures >= params.threshold) {
+        const cooldownMs = Math.min(MAX_COOLDOWN_MS, params.cooldownMs * 2 ** state.trips);
+        state.trips++;
+        state.openUntilMs = nowMs + cooldownMs;
+      }
+      states.set(id, state);
+    },
+
+    failureCount(id) {
+      return states.get(id)?.failures ?? 0;
+    },
+  };
+}
+
+/** A fetch that produced errors and nothing to show counts against the breaker. */
+export function isFailedProviderResult(result: QuotaProviderResult): boolean {
+  return result.attempted && result.entries.length === 0 && result.errors.length > 0;
+}
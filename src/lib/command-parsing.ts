@@ -5,6 +5,9 @@
  * `/quota_status`, and other slash commands.
  */
 
+import type { TokenReportExportRequest } from "./quota-stats-export.js";
+import { isTimeBucketUnit, type TimeBucketUnit } from "./time-buckets.js";
+
 /** Parsed YYYY-MM-DD date components. */
 export type Ymd = { y: number; m: number; d: number };
 
@@ -137,3 +140,103 @@ export function formatYmd(ymd: Ymd): string {
   const d = String(ymd.d).padStart(2, "0");
   return `${y}-${m}-${d}`;
 }
+
+/**
+ * Parse export options from /tokens_* JSON arguments, e.g.
+ * {"format":"csv","out":"~/usage.csv"}. Returns `value: null` when no export
+ * was requested (including positional /tokens_between arguments).
+ * When only `out` is given, the format is inferred from its extension.
+ */
+export function parseTokenExportArgs(
+  input: string | undefined,
+): { ok: true; value: TokenReportExportRequest | null } | { ok: false; error: string } {
+  const raw = input?.trim() || "";
+  if (!raw.startsWith("{")) return { ok: true, value: null };
+
+  const parsed = parseOptionalJsonArgs(raw);
+  if (!parsed.ok) return parsed;
+
+  const format = parsed.value["format"];
+  const out = parsed.value["out"];
+  if (format === undefined && out === undefined) return { ok: true, value: null };
+
+  if (out !== undefined && (typeof out !== "string" || out.trim().length === 0)) {
+    return { ok: false, error: '"out" must be a non-empty file path.' };
+  }
+  if (format !== undefined && format !== "csv" && format !== "json") {
+    return {
+      ok: false,
+      error: `Unsupported format: ${JSON.stringify(format)}. Use "csv" or "json".`,
+    };
+  }
+
+  const resolvedFormat =
+    format ??
+    (typeof out === "string" && out.trim().toLowerCase().endsWith(".json") ? "json" : "csv");
+  return {
+    ok: true,
+    value: { format: resolvedFormat, out: typeof out === "string" ? out.trim() : undefined },
+  };
+}
+
+/**
+ * Parse timeline options from /tokens_* JSON arguments, e.g. {"groupBy":"day"}.
+ * `days` (positive number) overrides the /tokens_timeline window.
+ */
+export function parseTokenTimelineArgs(
+  input: string | undefined,
+): { ok: true; groupBy?: TimeBucketUnit; days?: number } | { ok: false; error: string } {
+  const raw = input?.trim() || "";
+  if (!raw.startsWith("{")) return { ok: true };
+
+  const parsed = parseOptionalJsonArgs(raw);
+  if (!parsed.ok) return parsed;
+
+  const groupBy = parsed.value["groupBy"];
+  if (groupBy !== undefined && !isTimeBucketUnit(groupBy)) {
+    return {
+      ok: false,
+      error: `Unsupported groupBy: ${JSON.stringify(groupBy)}. Use "hour", "day" or "week".`,
+    };
+  }
+  const days = parsed.value["days"];
+  if (days !== undefined && (typeof days !== "number" || !Number.isFinite(days) || days <= 0)) {
+    return { ok: false, error: '"days" must be a positive number.' };
+  }
+
+  return { ok: true, groupBy, days };
+}
+
+/**
+ * Parse /quota_pricing_refresh arguments. Supports:
+ * - Positional: a file path or http(s) URL (empty = default models.dev URL)
+ * - JSON: {"source":"~/prices.json","providers":["anthropic","openai"]}
+ */
+export function parsePricingRefreshArgs(
+  input: string | undefined,
+): { ok: true; source?: string; providers?: string[] } | { ok: false; error: string } {
+  const raw = input?.trim() || "";
+  if (!raw) return { ok: true };
+  if (!raw.startsWith("{")) return { ok: true, source: raw };
+
+  const parsed = parseOptionalJsonArgs(raw);
+  if (!parsed.ok) return parsed;
+
+  const source = parsed.value["source"];
+  if (source !== undefined && typeof source !== "string") {
+    return { ok: false, error: '"source" must be a file path or URL.' };
+  }
+  const providers = parsed.value["providers"];
+  if (
+    providers !== undefined &&
+    (!Array.isArray(providers) || providers.some((p) => typeof p !== "string" || !p.trim()))
+  ) {
+    return { ok: false, error: '"providers" must be an array of provider ids.' };
+  }
+
+  return {
+    ok: true,
+    source: source?.trim() || undefined,
+    providers: (providers as string[] | undefined)?.map((p) => p.trim()),
+  };
+}
@@ -5,7 +5,22 @@
  * Fallback: reads local config files directly.
  */
 
-import type { QuotaToastConfig, GoogleModelId } from "./types.js";
+import type {
+  QuotaToastConfig,
+  GoogleModelId,
+  CustomProviderConfig,
+  CustomProviderEntryRule,
+  BudgetsConfig,
+  LedgerConfig,
+  LedgerPeriod,
+  AccountsConfig,
+  MultiAccountProviderId,
+  ProviderAccountConfig,
+  HttpConfig,
+  NetworkConfig,
+  BaseUrlProviderId,
+  BaseUrlsConfig,
+} from "./types.js";
 import { DEFAULT_CONFIG } from "./types.js";
 import { parseJsonOrJsonc } from "./jsonc.js";
 
@@ -14,6 +29,7 @@ import { readFile } from "fs/promises";
 import { join } from "path";
 
 import { getOpencodeRuntimeDirCandidates } from "./opencode-runtime-paths.js";
+import { DEFAULT_BASE_URLS, toGitHubApiBaseUrl } from "./base-urls.js";
 
 export interface LoadConfigMeta {
   source: "sdk" | "files" | "defaults";
@@ -42,6 +58,7 @@ function normalizeProviderId(id: string): string {
     case "github-copilot":
     case "copilot-chat":
     case "github-copilot-chat":
+    case "github-copilot-enterprise":
       return "copilot";
     case "qwen":
       return "qwen-code";
@@ -57,6 +74,263 @@ function dedupe<T>(list: T[]): T[] {
   return [...new Set(list)];
 }
 
+/**
+ * Normalize alert thresholds: provider ids are canonicalized, thresholds must be
+ * in (0, 100] and are sorted descending. Providers without valid thresholds are dropped.
+ */
+function normalizeAlerts(raw: unknown): Record<string, number[]> {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) return DEFAULT_CONFIG.alerts;
+
+  const out: Record<string, number[]> = {};
+  for (const [key, value] of Object.entries(raw as Record<string, unknown>)) {
+    if (!Array.isArray(value)) continue;
+    const id = key.trim() === "*" ? "*" : normalizeProviderId(key);
+    if (!id) continue;
+    const thresholds = dedupe(
+      value.filter(
+        (t): t is number => typeof t === "number" && Number.isFinite(t) && t > 0 && t <= 100,
+      ),
+    ).sort((a, b) => b - a);
+    if (thresholds.length > 0) out[id] = thresholds;
+  }
+  return out;
+}
+
+function optionalString(value: unknown): string | undefined {
+  return typeof value === "string" && value.trim().length > 0 ? value.trim() : undefined;
+}
+
+function normalizeCustomProviderRule(raw: unknown): CustomProviderEntryRule | null {
+  if (!raw || typeof raw !== "object") return null;
+  const obj = raw as Record<string, unknown>;
+  const name = optionalString(obj.name);
+  if (!name) return null;
+
+  const rule: CustomProviderEntryRule = {
+    name,
+    percentRemaining: optionalString(obj.percentRemaining),
+    used: optionalString(obj.used),
+    remaining: optionalString(obj.remaining),
+    limit: optionalString(obj.limit),
+    value: optionalString(obj.value),
+    format: obj.format === "usd" || obj.format === "number" ? obj.format : "raw",
+    resetAt: optionalString(obj.resetAt),
+  };
+
+  const isPercent = !!rule.percentRemaining || (!!rule.limit && (!!rule.used || !!rule.remaining));
+  return isPercent || rule.value ? rule : null;
+}
+
+/**
+ * Normalize customProviders: entries without an id, URL or any usable rule are dropped.
+ */
+function normalizeCustomProviders(raw: unknown): CustomProviderConfig[] {
+  if (!Array.isArray(raw)) return DEFAULT_CONFIG.customProviders;
+
+  const out: CustomProviderConfig[] = [];
+  const seen = new Set<string>();
+  for (const item of raw) {
+    if (!item || typeof item !== "object") continue;
+    const obj = item as Record<string, unknown>;
+
+    const id = optionalString(obj.id)?.toLowerCase();
+    const url = optionalString(obj.url);
+    if (!id || !url || seen.has(id)) continue;
+
+    const headers: Record<string, string> = {};
+    if (obj.headers && typeof obj.headers === "object" && !Array.isArray(obj.headers)) {
+      for (const [k, v] of Object.entries(obj.headers as Record<string, unknown>)) {
+        if (typeof v === "string") headers[k] = v;
+      }
+    }
+
+    const entries = Array.isArray(obj.entries)
+      ? obj.entries
+          .map(normalizeCustomProviderRule)
+          .filter((r): r is CustomProviderEntryRule => r !== null)
+      : [];
+    if (entries.length === 0) continue;
+
+    const method =
+      typeof obj.method === "string" && obj.method.toUpperCase() === "POST" ? "POST" : "GET";
+    const body =
+      typeof obj.body === "string"
+        ? obj.body
+        : obj.body && typeof obj.body === "object"
+          ? JSON.stringify(obj.body)
+          : undefined;
+
+    seen.add(id);
+    out.push({ id, name: optionalString(obj.name) ?? id, url, method, headers, body, entries });
+  }
+  return out;
+}
+
+function isPositiveNumber(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value) && value > 0;
+}
+
+function normalizeBudgetMap(raw: unknown, lowercase: boolean): Record<string, number> {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) return {};
+  const out: Record<string, number> = {};
+  for (const [key, value] of Object.entries(raw as Record<string, unknown>)) {
+    const id = lowercase ? key.trim().toLowerCase() : key.trim();
+    if (id && isPositiveNumber(value)) out[id] = value;
+  }
+  return out;
+}
+
+/**
+ * Normalize budgets: caps must be positive USD amounts. Provider keys are OpenCode
+ * provider ids (lowercased, not mapped to quota provider ids).
+ */
+function normalizeBudgets(raw: unknown): BudgetsConfig {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) return DEFAULT_CONFIG.budgets;
+  const obj = raw as Record<string, unknown>;
+  return {
+    monthlyUsd: isPositiveNumber(obj.monthlyUsd) ? obj.monthlyUsd : undefined,
+    providers: normalizeBudgetMap(obj.providers, true),
+    models: normalizeBudgetMap(obj.models, false),
+  };
+}
+
+function isLedgerPeriod(value: unknown): value is LedgerPeriod {
+  return value === "day" || value === "week" || value === "month";
+}
+
+/**
+ * Normalize ledgers: each needs an id, a period and a positive token or USD cap.
+ * `resetAnchor` accepts an ISO date/time (local time when no offset is given).
+ */
+function normalizeLedgers(raw: unknown): LedgerConfig[] {
+  if (!Array.isArray(raw)) return DEFAULT_CONFIG.ledgers;
+
+  const out: LedgerConfig[] = [];
+  const seen = new Set<string>();
+  for (const item of raw) {
+    if (!item || typeof item !== "object") continue;
+    const obj = item as Record<string, unknown>;
+
+    const id = optionalString(obj.id)?.toLowerCase();
+    if (!id || seen.has(id) || !isLedgerPeriod(obj.period)) continue;
+
+    const tokens = isPositiveNumber(obj.tokens) ? obj.tokens : undefined;
+    const usd = isPositiveNumber(obj.usd) ? obj.usd : undefined;
+    if (tokens === undefined && usd === undefined) continue;
+
+    const providerIDs = Array.isArray(obj.providerIDs)
+      ? obj.providerIDs
+          .map((p) => optionalString(p)?.toLowerCase())
+          .filter((p): p is string => !!p)
+      : [];
+
+    const anchor = optionalString(obj.resetAnchor);
+    const anchorMs = anchor ? Date.parse(anchor) : NaN;
+
+    seen.add(id);
+    out.push({
+      id,
+      name: optionalString(obj.name) ?? id,
+      providerIDs: providerIDs.length > 0 ? providerIDs : [id],
+      tokens,
+      usd,
+      period: obj.period,
+      resetAnchorMs: Number.isFinite(anchorMs) ? anchorMs : undefined,
+    });
+  }
+  return out;
+}
+
+const MULTI_ACCOUNT_PROVIDERS: MultiAccountProviderId[] = ["copilot", "openai", "zai"];
+
+/**
+ * Normalize accounts: provider ids are canonicalized, accounts need a label and at
+ * least one token source, and duplicate labels within a provider are dropped.
+ */
+function normalizeAccounts(raw: unknown): AccountsConfig {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) return DEFAULT_CONFIG.accounts;
+
+  const out: AccountsConfig = {};
+  for (const [key, value] of Object.entries(raw as Record<string, unknown>)) {
+    const id = normalizeProviderId(key) as MultiAccountProviderId;
+    if (!MULTI_ACCOUNT_PROVIDERS.includes(id) || !Array.isArray(value)) continue;
+
+    const accounts: ProviderAccountConfig[] = out[id] ?? [];
+    for (const item of value) {
+      if (!item || typeof item !== "object") continue;
+      const obj = item as Record<string, unknown>;
+      const label = optionalString(obj.label);
+      if (!label || accounts.some((a) => a.label === label)) continue;
+      const baseUrl = id === "copilot" ? optionalString(obj.baseUrl) : undefined;
+      const account: ProviderAccountConfig = {
+        label,
+        file: optionalString(obj.file),
+        env: optionalString(obj.env),
+        authKey: optionalString(obj.authKey),
+        baseUrl: baseUrl ? toGitHubApiBaseUrl(baseUrl) : undefined,
+      };
+      if (account.file || account.env || account.authKey) accounts.push(account);
+    }
+    if (accounts.length > 0) out[id] = accounts;
+  }
+  return out;
+}
+
+function nonNegativeInt(value: unknown, fallback: number): number {
+  return typeof value === "number" && Number.isFinite(value) && value >= 0
+    ? Math.floor(value)
+    : fallback;
+}
+
+/** Normalize http: counts and delays must be non-negative; the timeout must be positive. */
+function normalizeHttp(raw: unknown): HttpConfig {
+  const defaults = DEFAULT_CONFIG.http;
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) return defaults;
+  const obj = raw as Record<string, unknown>;
+  return {
+    timeoutMs: isPositiveNumber(obj.timeoutMs) ? obj.timeoutMs : defaults.timeoutMs,
+    retries: nonNegativeInt(obj.retries, defaults.retries),
+    retryBaseDelayMs: nonNegativeInt(obj.retryBaseDelayMs, defaults.retryBaseDelayMs),
+    retryMaxDelayMs: nonNegativeInt(obj.retryMaxDelayMs, defaults.retryMaxDelayMs),
+    breakerThreshold: nonNegativeInt(obj.breakerThreshold, defaults.breakerThreshold),
+    breakerCooldownMs: nonNegativeInt(obj.breakerCooldownMs, defaults.breakerCooldownMs),
+    fetchBudgetMs: nonNegativeInt(obj.fetchBudgetMs, defaults.fetchBudgetMs),
+  };
+}
+
+function normalizeNetwork(raw: unknown): NetworkConfig {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) return DEFAULT_CONFIG.network;
+  const obj = raw as Record<string, unknown>;
+  return { proxy: optionalString(obj.proxy), caFile: optionalString(obj.caFile) };
+}
+
+function isHttpUrl(value: string): boolean {
+  try {
+    const url = new URL(value);
+    return url.protocol === "https:" || url.protocol === "http:";
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Normalize baseUrls: provider ids are canonicalized and values must be http(s) URLs.
+ * Copilot also accepts a bare GitHub Enterprise host.
+ */
+function normalizeBaseUrls(raw: unknown): BaseUrlsConfig {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) return DEFAULT_CONFIG.baseUrls;
+
+  const out: BaseUrlsConfig = {};
+  for (const [key, value] of Object.entries(raw as Record<string, unknown>)) {
+    const id = normalizeProviderId(key) as BaseUrlProviderId;
+    const url = optionalString(value);
+    if (!url || !(id in DEFAULT_BASE_URLS)) continue;
+    const base = id === "copilot" ? toGitHubApiBaseUrl(url) : url;
+    if (isHttpUrl(base)) out[id] = base;
+  }
+  return out;
+}
+
 /**
  * Load plugin configuration from OpenCode config
  *
@@ -95,6 +369,10 @@ export async function loadConfig(
         typeof quotaToastConfig.minIntervalMs === "number" && quotaToastConfig.minIntervalMs > 0
           ? quotaToastConfig.minIntervalMs
           : DEFAULT_CONFIG.minIntervalMs,
+      pollIntervalMs:
+        typeof quotaToastConfig.pollIntervalMs === "number" && quotaToastConfig.pollIntervalMs > 0
+          ? quotaToastConfig.pollIntervalMs
+          : DEFAULT_CONFIG.pollIntervalMs,
 
       debug:
         typeof quotaToastConfig.debug === "boolean" ? quotaToastConfig.debug : DEFAULT_CONFIG.debug,
@@ -141,6 +419,26 @@ export async function loadConfig(
         typeof quotaToastConfig.showSessionTokens === "boolean"
           ? quotaToastConfig.showSessionTokens
           : DEFAULT_CONFIG.showSessionTokens,
+      showBestAccount:
+        typeof quotaToastConfig.showBestAccount === "boolean"
+          ? quotaToastConfig.showBestAccount
+          : DEFAULT_CONFIG.showBestAccount,
+      showCopilotOrg:
+        typeof quotaToastConfig.showCopilotOrg === "boolean"
+          ? quotaToastConfig.showCopilotOrg
+          : DEFAULT_CONFIG.showCopilotOrg,
+      rollupSubagents:
+        typeof quotaToastConfig.rollupSubagents === "boolean"
+          ? quotaToastConfig.rollupSubagents
+          : DEFAULT_CONFIG.rollupSubagents,
+      alerts: normalizeAlerts(quotaToastConfig.alerts),
+      customProviders: normalizeCustomProviders(quotaToastConfig.customProviders),
+      budgets: normalizeBudgets(quotaToastConfig.budgets),
+      ledgers: normalizeLedgers(quotaToastConfig.ledgers),
+      accounts: normalizeAccounts(quotaToastConfig.accounts),
+      http: normalizeHttp(quotaToastConfig.http),
+      network: normalizeNetwork(quotaToastConfig.network),
+      baseUrls: normalizeBaseUrls(quotaToastConfig.baseUrls),
       layout: {
         maxWidth:
           typeof quotaToastConfig.layout?.maxWidth === "number" &&
@@ -0,0 +1,289 @@
+/**
+ * Copilot organization/enterprise premium request usage (/quota_copilot_org and
+ * the optional "Copilot Org" toast entry).
+ *
+ * Configured by the `org` section of copilot-quota-token.json. The shared pool is
+ * seats x the per-seat monthly allowance; usage comes from the org (or enterprise)
+ * premium request billing report, and per-member usage from the same report
+ * filtered by `user`.
+ */
+
+import { getBaseUrl } from "./base-urls.js";
+import {
+  COPILOT_PLAN_LIMITS,
+  fetchGitHubRestJson,
+  formatPremiumRequests,
+  getApproxNextResetIso,
+  premiumRequestItems,
+  readCopilotOrgConfig,
+  sumPremiumRequests,
+  type BillingUsageResponse,
+} from "./copilot.js";
+import { formatResetCountdown } from "./format-utils.js";
+import { renderMarkdownTable } from "./markdown-table.js";
+import type { CopilotOrgConfig, QuotaError } from "./types.js";
+
+/** Members queried one by one for the top-consumer table (one request each). */
+const DEFAULT_MAX_MEMBERS = 100;
+const MEMBER_QUERY_CONCURRENCY = 5;
+const SEATS_PAGE_SIZE = 100;
+
+export interface CopilotOrgUsage {
+  slug: string;
+  scope: CopilotOrgConfig["scope"];
+  tier: CopilotOrgConfig["tier"];
+  /** Premium requests used this month across the org */
+  used: number;
+  /** Assigned Copilot seats, or null when the seat list could not be read */
+  seats: number | null;
+  /** seats x per-seat allowance, or null without a seat count */
+  included: number | null;
+  percentRemaining: number | null;
+  resetTimeIso: string;
+  /** Why `seats` is null */
+  seatsError?: string;
+}
+
+export type CopilotOrgUsageResult = ({ success: true } & CopilotOrgUsage) | QuotaError | null;
+
+export interface CopilotOrgConsumer {
+  login: string;
+  used: number;
+  error?: string;
+}
+
+export interface CopilotOrgReport {
+  usage: CopilotOrgUsage;
+  /** Members with usage (or a failed lookup), most requests first */
+  consumers: CopilotOrgConsumer[];
+  /** Members whose usage was queried */
+  queried: number;
+}
+
+export type CopilotOrgReportResult = ({ success: true } & CopilotOrgReport) | QuotaError | null;
+
+interface SeatsResponse {
+  total_seats?: number;
+  seats?: Array<{ assignee?: { login?: string } | null }>;
+}
+
+function usageUrl(config: CopilotOrgConfig, user?: string): string {
+  const base = getBaseUrl("copilot");
+  const owner = config.scope === "enterprise" ? "enterprises" : "organizations";
+  const url = `${base}/${owner}/${encodeURIComponent(config.slug)}/settings/billing/premium_request/usage`;
+  return user ? `${url}?user=${encodeURIComponent(user)}` : url;
+}
+
+function seatsUrl(config: CopilotOrgConfig, page: number, perPage: number): string {
+  const base = getBaseUrl("copilot");
+  const owner = config.scope === "enterprise" ? "enterprises" : "orgs";
+  return `${base}/${owner}/${encodeURIComponent(config.slug)}/copilot/billing/seats?per_page=${perPage}&page=${page}`;
+}
+
+async function fetchOrgPremiumUsed(config: CopilotOrgConfig, user?: string): Promise<number> {
+  const data = await fetchGitHubRestJson<BillingUsageResponse>(
+    usageUrl(config, user),
+    config.token,
+  );
+  return sumPremiumRequests(premiumRequestItems(data));
+}
+
+/** Seat count plus up to `maxLogins` assignee logins. */
+async function fetchSeats(
+  config: CopilotOrgConfig,
+  maxLogins: number,
+): Promise<{ total: number; logins: string[] }> {
+  const perPage = maxLogins > 0 ? Math.min(SEATS_PAGE_SIZE, maxLogins) : 1;
+  const logins: string[] = [];
+  let total = 0;
+
+  for (let page = 1; ; page++) {
+    const data = await fetchGitHubRestJson<SeatsResponse>(
+      seatsUrl(config, page, perPage),
+      config.token,
+    );
+    const seats = Array.isArray(data.seats) ? data.seats : [];
+    total = typeof data.total_seats === "number" ? data.total_seats : logins.length + seats.length;
+
+    for (const seat of seats) {
+      const login = seat?.assignee?.login;
+      if (typeof login === "string" && login && logins.length < maxLogins) logins.push(login);
+    }
+
+    if (logins.length >= maxLogins || seats.length < perPage || page * perPage >= total) break;
+  }
+
+  return { total, logins };
+}
+
+function toOrgUsage(
+  config: CopilotOrgConfig,
+  used: number,
+  seats: { total: number } | { error: string },
+): CopilotOrgUsage {
+  const base = {
+    slug: config.slug,
+    scope: config.scope,
+    tier: config.tier,
+    used,
+    resetTimeIso: getApproxNextResetIso(),
+  };
+  if ("error" in seats) {
+    return {
+      ...base,
+      seats: null,
+      included: null,
+      percentRemaining: null,
+      seatsError: seats.error,
+    };
+  }
+
+  const included = seats.total * COPILOT_PLAN_LIMITS[config.tier];
+  const percentRemaining =
+    included > 0 ? Math.max(0, Math.min(100, Math.round(((included - used) / included) * 100))) : 0;
+  return { ...base, seats: seats.total, included, percentRemaining };
+}
+
+function errorMessage(err: unknown): string {
+  return err instanceof Error ? err.message : String(err);
+}
+
+/**
+ * Org-wide premium request totals (two requests: usage report and seat count).
+ * Returns null when no `org` section is configured.
+ */
+export async function queryCopilotOrgUsage(
+  config: CopilotOrgConfig | null = readCopilotOrgConfig(),
+): Promise<CopilotOrgUsageResult> {
+  if (!config) return null;
+
+  try {
+    const [used, seats] = await Promise.all([
+      fetchOrgPremiumUsed(config),
+      fetchSeats(config, 0).catch((err) => ({ error: errorMessage(err) })),
+    ]);
+    return { success: true, ...toOrgUsage(config, used, seats) };
+  } catch (err) {
+    return { success: false, error: errorMessage(err) } as QuotaError;
+  }
+}
+
+/**
+ * Org totals plus per-member usage for the top-consumer table.
+ * Only the first `maxMembers` seats are queried, one request each.
+ */
+export async function queryCopilotOrgReport(params?: {
+  config?: CopilotOrgConfig | null;
+  maxMembers?: number;
+}): Promise<CopilotOrgReportResult> {
+  const config = params?.config === undefined ? readCopilotOrgConfig() : params.config;
+  if (!config) return null;
+  const maxMembers = params?.maxMembers ?? DEFAULT_MAX_MEMBERS;
+
+  let used: number;
+  try {
+    used = await fetchOrgPremiumUsed(config);
+  } catch (err) {
+    return { success: false, error: errorMessage(err) } as QuotaError;
+  }
+
+  let seats: { total: number; logins: string[] } | { error: string };
+  try {
+    seats = await fetchSeats(config, maxMembers);
+  } catch (err) {
+    seats = { error: errorMessage(err) };
+  }
+
+  const consumers: CopilotOrgConsumer[] = [];
+  const logins = "logins" in seats ? seats.logins : [];
+  for (let i = 0; i < logins.length; i += MEMBER_QUERY_CONCURRENCY) {
+    const batch = logins.slice(i, i + MEMBER_QUERY_CONCURRENCY);
+    const results = await Promise.all(
+      batch.map(async (login): Promise<CopilotOrgConsumer> => {
+        try {
+          return { login, used: await fetchOrgPremiumUsed(config, login) };
+        } catch (err) {
+          return { login, used: 0, error: errorMessage(err) };
+        }
+      }),
+    );
+    consumers.push(...results.filter((c) => c.used > 0 || c.error));
+  }
+  consumers.sort((a, b) => b.used - a.used || a.login.localeCompare(b.login));
+
+  return {
+    success: true,
+    usage: toOrgUsage(config, used, seats),
+    consumers,
+    queried: logins.length,
+  };
+}
+
+/** Toast/entry label, e.g. "Copilot Org (acme)". */
+export function copilotOrgEntryName(usage: Pick<CopilotOrgUsage, "slug">): string {
+  return `Copilot Org (${usage.slug})`;
+}
+
+export function formatCopilotOrgReport(result: CopilotOrgReportResult, topN = 10): string {
+  const lines: string[] = ["Copilot organization usage (/quota_copilot_org)", ""];
+
+  if (!result) {
+    lines.push(
+      'No organization configured. Add an "org" section to copilot-quota-token.json, e.g. {"org": {"slug": "acme", "token": "github_pat_..."}}.',
+    );
+    return lines.join("\n");
+  }
+  if (!result.success) {
+    lines.push(`Error: ${result.error}`);
+    return lines.join("\n");
+  }
+
+  const { usage, consumers } = result;
+  const kind = usage.scope === "enterprise" ? "Enterprise" : "Organization";
+  const seats = usage.seats === null ? "seats unknown" : `${usage.seats} seats`;
+  lines.push(`${kind}: ${usage.slug} (${usage.tier}, ${seats})`);
+
+  const reset = formatResetCountdown(usage.resetTimeIso);
+  if (usage.included !== null && usage.percentRemaining !== null) {
+    lines.push(
+      `Premium requests: ${formatPremiumRequests(usage.used)} / ${formatPremiumRequests(usage.included)} included (${usage.percentRemaining}% left, resets in ${reset})`,
+    );
+  } else {
+    lines.push(`Premium requests: ${formatPremiumRequests(usage.used)} (resets in ${reset})`);
+  }
+  if (usage.seatsError) lines.push(`Seats unavailable: ${usage.seatsError}`);
+
+  lines.push("");
+  lines.push("## Top consumers");
+  lines.push("");
+
+  const top = consumers.slice(0, topN);
+  if (top.length === 0) {
+    lines.push(
+      result.queried > 0 ? "No premium requests this month." : "No seat assignments to query.",
+    );
+  } else {
+    lines.push(
+      renderMarkdownTable({
+        headers: ["User", "Requests", "Share"],
+        aligns: ["left", "right", "right"],
+        rows: top.map((c) => [
+          c.login,
+          c.error ? "-" : formatPremiumRequests(c.used),
+          c.error
+            ? `error: ${c.error}`
+            : usage.used > 0
+              ? `${Math.round((c.used / usage.used) * 100)}%`
+              : "-",
+        ]),
+      }),
+    );
+  }
+
+  if (usage.seats !== null && result.queried < usage.seats) {
+    lines.push("");
+    lines.push(`Queried the first ${result.queried} of ${usage.seats} seats.`);
+  }
+
+  return lines.join("\n").trimEnd();
+}
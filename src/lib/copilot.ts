@@ -11,14 +11,21 @@
 
 import type {
   CopilotAuthData,
+  CopilotModelUsage,
+  CopilotOrgConfig,
   CopilotQuotaConfig,
+  CopilotResetResolution,
+  CopilotResetSource,
   CopilotTier,
   CopilotUsageResponse,
   CopilotQuotaResult,
   QuotaError,
   CopilotResult,
+  ProviderAccountConfig,
 } from "./types.js";
-import { fetchWithTimeout } from "./http.js";
+import { queryAccounts, type AccountQueryResult } from "./accounts.js";
+import { getBaseUrl, hasBaseUrlOverride, toGitHubApiBaseUrl } from "./base-urls.js";
+import { fetchWithRetry } from "./http.js";
 import { readAuthFile } from "./opencode-auth.js";
 
 import { existsSync, readFileSync } from "fs";
@@ -29,9 +36,8 @@ import { join } from "path";
 // Constants
 // =============================================================================
 
-const GITHUB_API_BASE_URL = "https://api.github.com";
-const COPILOT_INTERNAL_USER_URL = `${GITHUB_API_BASE_URL}/copilot_internal/user`;
-const COPILOT_TOKEN_EXCHANGE_URL = `${GITHUB_API_BASE_URL}/copilot_internal/v2/token`;
+const COPILOT_INTERNAL_USER_PATH = "/copilot_internal/user";
+const COPILOT_TOKEN_EXCHANGE_PATH = "/copilot_internal/v2/token";
 
 // Keep these aligned with current Copilot/VSC versions to avoid API heuristics.
 const COPILOT_VERSION = "0.35.0";
@@ -132,7 +138,7 @@ async function fetchGitHubRestJsonOnce<T>(
   | { ok: true; status: number; data: T }
   | { ok: false; status: number; message: string }
 > {
-  const response = await fetchWithTimeout(url, {
+  const response = await fetchWithRetry(url, {
     headers: buildGitHubRestHeaders(token, scheme),
   });
 
@@ -147,6 +153,29 @@ async function fetchGitHubRestJsonOnce<T>(
   };
 }
 
+/**
+ * GET a GitHub REST endpoint, trying the token's preferred auth scheme first.
+ * Throws "GitHub API error <status>: <message>" on failure.
+ */
+export async function fetchGitHubRestJson<T>(url: string, token: string): Promise<T> {
+  let lastUnauthorized: { status: number; message: string } | null = null;
+
+  for (const scheme of preferredSchemesForToken(token)) {
+    const res = await fetchGitHubRestJsonOnce<T>(url, token, scheme);
+    if (res.ok) return res.data;
+
+    if (res.status === 401) {
+      lastUnauthorized = { status: res.status, message: res.message };
+      continue; // retry with alternate scheme
+    }
+    throw new Error(`GitHub API error ${res.status}: ${res.message}`);
+  }
+
+  throw new Error(
+    `GitHub API error ${lastUnauthorized?.status ?? 401}: ${lastUnauthorized?.message ?? "Unauthorized"} (token rejected; verify PAT and permissions)`,
+  );
+}
+
 /**
  * Read Copilot auth data from auth.json
  *
@@ -160,7 +189,8 @@ async function readCopilotAuth(): Promise<CopilotAuthData | null> {
   const copilotAuth =
     authData["github-copilot"] ??
     (authData as Record<string, CopilotAuthData | undefined>)["copilot"] ??
-    (authData as Record<string, CopilotAuthData | undefined>)["copilot-chat"];
+    (authData as Record<string, CopilotAuthData | undefined>)["copilot-chat"] ??
+    (authData as Record<string, CopilotAuthData | undefined>)["github-copilot-enterprise"];
 
   if (!copilotAuth || copilotAuth.type !== "oauth" || !copilotAuth.refresh) {
     return null;
@@ -174,35 +204,82 @@ async function readCopilotAuth(): Promise<CopilotAuthData | null> {
  * Returns null if file doesn't exist or is invalid.
  */
 function readQuotaConfig(): CopilotQuotaConfig | null {
+  return parseQuotaConfig(readQuotaConfigFile());
+}
+
+function readQuotaConfigFile(): unknown {
   try {
     if (!existsSync(COPILOT_QUOTA_CONFIG_PATH)) {
       return null;
     }
 
-    const content = readFileSync(COPILOT_QUOTA_CONFIG_PATH, "utf-8");
-    const parsed = JSON.parse(content) as CopilotQuotaConfig;
+    return JSON.parse(readFileSync(COPILOT_QUOTA_CONFIG_PATH, "utf-8"));
+  } catch {
+    return null;
+  }
+}
 
-    if (!parsed || typeof parsed !== "object") return null;
+/**
+ * Read the optional `org` section of copilot-quota-token.json.
+ * Returns null when it is missing or invalid.
+ */
+export function readCopilotOrgConfig(): CopilotOrgConfig | null {
+  return parseOrgConfig(readQuotaConfigFile());
+}
 
-    if (typeof parsed.token !== "string" || parsed.token.trim() === "") return null;
-    if (typeof parsed.tier !== "string" || parsed.tier.trim() === "") return null;
+/**
+ * Validate the `org` section; its token defaults to the top-level token and its
+ * tier to the scope's seat type (business for orgs, enterprise for enterprises).
+ */
+export function parseOrgConfig(raw: unknown): CopilotOrgConfig | null {
+  if (!raw || typeof raw !== "object") return null;
+  const file = raw as { token?: unknown; org?: unknown };
+  const org = file.org as Partial<CopilotOrgConfig> | undefined;
+  if (!org || typeof org !== "object") return null;
+
+  const slug = typeof org.slug === "string" ? org.slug.trim() : "";
+  if (!slug || !/^[A-Za-z0-9_.-]+$/.test(slug)) return null;
+
+  const scope = org.scope ?? "organization";
+  if (scope !== "organization" && scope !== "enterprise") return null;
+
+  const token =
+    typeof org.token === "string" && org.token.trim()
+      ? org.token.trim()
+      : typeof file.token === "string" && file.token.trim()
+        ? file.token.trim()
+        : null;
+  if (!token) return null;
+
+  const tier = org.tier ?? (scope === "enterprise" ? "enterprise" : "business");
+  if (tier !== "business" && tier !== "enterprise") return null;
+
+  return { slug, scope, token, tier };
+}
 
-    // Username is optional now that we prefer the /user/... billing endpoint.
-    if (parsed.username != null) {
-      if (typeof parsed.username !== "string" || parsed.username.trim() === "") return null;
-    }
+/**
+ * Validate a copilot-quota-token.json shaped object.
+ */
+function parseQuotaConfig(raw: unknown): CopilotQuotaConfig | null {
+  const parsed = raw as CopilotQuotaConfig;
+  if (!parsed || typeof parsed !== "object") return null;
 
-    const validTiers: CopilotTier[] = ["free", "pro", "pro+", "business", "enterprise"];
-    if (!validTiers.includes(parsed.tier as CopilotTier)) return null;
+  if (typeof parsed.token !== "string" || parsed.token.trim() === "") return null;
+  if (typeof parsed.tier !== "string" || parsed.tier.trim() === "") return null;
 
-    return parsed;
-  } catch {
-    return null;
+  // Username is optional now that we prefer the /user/... billing endpoint.
+  if (parsed.username != null) {
+    if (typeof parsed.username !== "string" || parsed.username.trim() === "") return null;
   }
+
+  const validTiers: CopilotTier[] = ["free", "pro", "pro+", "business", "enterprise"];
+  if (!validTiers.includes(parsed.tier as CopilotTier)) return null;
+
+  return parsed;
 }
 
-// Public billing API response types (keep local; only used here)
-interface BillingUsageItem {
+// Public billing API response types (shared with copilot-org.ts)
+export interface BillingUsageItem {
   product: string;
   sku: string;
   model?: string;
@@ -212,13 +289,16 @@ interface BillingUsageItem {
   limit?: number;
 }
 
-interface BillingUsageResponse {
+export interface BillingUsageResponse {
   timePeriod: { year: number; month?: number };
-  user: string;
+  /** Set by the user endpoints */
+  user?: string;
+  /** Set by the organization endpoint */
+  organization?: string;
   usageItems: BillingUsageItem[];
 }
 
-const COPILOT_PLAN_LIMITS: Record<CopilotTier, number> = {
+export const COPILOT_PLAN_LIMITS: Record<CopilotTier, number> = {
   free: 50,
   pro: 300,
   "pro+": 1500,
@@ -226,23 +306,155 @@ const COPILOT_PLAN_LIMITS: Record<CopilotTier, number> = {
   enterprise: 1000,
 };
 
-function getApproxNextResetIso(nowMs: number = Date.now()): string {
+/**
+ * Premium request multipliers for paid plans, keyed by normalized model name
+ * (see normalizeModelKey). 0 means the model is included without premium requests.
+ * Models missing here are shown without a multiplier.
+ *
+ * The billing report only has grossQuantity (multiplier already applied) and a flat
+ * per-request price, so the multiplier cannot be derived from it. These are GitHub's
+ * published rates, may lag behind changes, and are shown as estimates.
+ */
+export const COPILOT_MODEL_MULTIPLIERS: Record<string, number> = {
+  "gpt-4.1": 0,
+  "gpt-4o": 0,
+  "gpt-5-mini": 0,
+  "gpt-5": 1,
+  "gpt-5-codex": 1,
+  "gpt-4.5": 50,
+  o1: 10,
+  o3: 1,
+  "o3-mini": 0.33,
+  "o4-mini": 0.33,
+  "claude-sonnet-3.5": 1,
+  "claude-sonnet-3.7": 1,
+  "claude-sonnet-3.7-thinking": 1.25,
+  "claude-sonnet-4": 1,
+  "claude-sonnet-4.5": 1,
+  "claude-haiku-4.5": 0.33,
+  "claude-opus-4": 10,
+  "claude-opus-4.1": 10,
+  "gemini-2.0-flash": 0.25,
+  "gemini-2.5-pro": 1,
+  "grok-code-fast-1": 0.25,
+};
+
+/** "Claude Sonnet 3.7 Thinking" -> "claude-sonnet-3.7-thinking". */
+function normalizeModelKey(model: string): string {
+  return model
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9.]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .replace(/^claude-(\d+(?:\.\d+)?)-(sonnet|opus|haiku)/, "claude-$2-$1");
+}
+
+export function copilotModelMultiplier(model: string): number | undefined {
+  return COPILOT_MODEL_MULTIPLIERS[normalizeModelKey(model)];
+}
+
+/** Premium request counts can be fractional (model multipliers below 1x). */
+export function formatPremiumRequests(n: number): string {
+  return (Math.round(n * 10) / 10).toLocaleString("en-US");
+}
+
+/** Sum premium items per model, most used first (items without a model are skipped). */
+export function toModelBreakdown(items: BillingUsageItem[]): CopilotModelUsage[] {
+  const byModel = new Map<string, number>();
+  for (const item of items) {
+    const model = typeof item.model === "string" ? item.model.trim() : "";
+    if (!model) continue;
+    byModel.set(model, (byModel.get(model) ?? 0) + (item.grossQuantity || 0));
+  }
+
+  return [...byModel]
+    .filter(([, used]) => used > 0)
+    .map(([model, used]) => {
+      const multiplier = copilotModelMultiplier(model);
+      return multiplier === undefined ? { model, used } : { model, used, multiplier };
+    })
+    .sort((a, b) => b.used - a.used || a.model.localeCompare(b.model));
+}
+
+export function getApproxNextResetIso(nowMs: number = Date.now()): string {
   const now = new Date(nowMs);
   const year = now.getUTCFullYear();
   const month = now.getUTCMonth();
   return new Date(Date.UTC(year, month + 1, 1, 0, 0, 0, 0)).toISOString();
 }
 
-async function fetchPublicBillingUsage(config: CopilotQuotaConfig): Promise<BillingUsageResponse> {
+/** Next monthly anniversary (00:00 UTC) of an assignment date; short months clamp the day. */
+export function getNextAnniversaryResetIso(
+  assignedDate: string,
+  nowMs: number = Date.now(),
+): string | null {
+  const assignedMs = Date.parse(assignedDate);
+  if (!Number.isFinite(assignedMs)) return null;
+  const day = new Date(assignedMs).getUTCDate();
+  const now = new Date(nowMs);
+
+  const onDay = (monthOffset: number): number => {
+    const year = now.getUTCFullYear();
+    const month = now.getUTCMonth() + monthOffset;
+    const lastDay = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+    return Date.UTC(year, month, Math.min(day, lastDay));
+  };
+
+  const thisMonth = onDay(0);
+  return new Date(thisMonth > nowMs ? thisMonth : onDay(1)).toISOString();
+}
+
+/** Sources more than this far apart are reported as a conflict. */
+const RESET_CONFLICT_TOLERANCE_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Pick the reset date: quota_reset_date, else the assigned_date anniversary, else the
+ * first of next month. A quota_reset_date in the past is stale and skipped.
+ */
+export function resolveCopilotResetDate(params: {
+  quotaResetDate?: string;
+  assignedDate?: string;
+  nowMs?: number;
+}): CopilotResetResolution {
+  const nowMs = params.nowMs ?? Date.now();
+  const candidates: Array<{ source: CopilotResetSource; resetTimeIso: string }> = [];
+
+  const quotaResetMs = params.quotaResetDate ? Date.parse(params.quotaResetDate) : NaN;
+  if (Number.isFinite(quotaResetMs) && quotaResetMs > nowMs) {
+    candidates.push({
+      source: "quota_reset_date",
+      resetTimeIso: new Date(quotaResetMs).toISOString(),
+    });
+  }
+
+  const anniversary = params.assignedDate
+    ? getNextAnniversaryResetIso(params.assignedDate, nowMs)
+    : null;
+  if (anniversary) candidates.push({ source: "assigned_date", resetTimeIso: anniversary });
+
+  const winner = candidates[0] ?? {
+    source: "calendar_month" as const,
+    resetTimeIso: getApproxNextResetIso(nowMs),
+  };
+  const winnerMs = Date.parse(winner.resetTimeIso);
+  const conflicts = candidates
+    .slice(1)
+    .filter((c) => Math.abs(Date.parse(c.resetTimeIso) - winnerMs) > RESET_CONFLICT_TOLERANCE_MS);
+
+  return { ...winner, conflicts };
+}
+
+async function fetchPublicBillingUsage(
+  config: CopilotQuotaConfig,
+  apiBaseUrl: string,
+): Promise<BillingUsageResponse> {
   const token = config.token;
   const schemes = preferredSchemesForToken(token);
 
   // Prefer authenticated-user endpoint; fall back to /users/{username} for older behavior.
-  const urls: string[] = [`${GITHUB_API_BASE_URL}/user/settings/billing/premium_request/usage`];
+  const urls: string[] = [`${apiBaseUrl}/user/settings/billing/premium_request/usage`];
   if (config.username) {
-    urls.push(
-      `${GITHUB_API_BASE_URL}/users/${config.username}/settings/billing/premium_request/usage`,
-    );
+    urls.push(`${apiBaseUrl}/users/${config.username}/settings/billing/premium_request/usage`);
   }
 
   for (const url of urls) {
@@ -278,21 +490,29 @@ async function fetchPublicBillingUsage(config: CopilotQuotaConfig): Promise<Bill
   throw new Error("GitHub API error 404: Not Found");
 }
 
-function toQuotaResultFromBilling(
-  data: BillingUsageResponse,
-  tier: CopilotTier,
-): CopilotQuotaResult {
-  const items = Array.isArray(data.usageItems) ? data.usageItems : [];
-
-  const premiumItems = items.filter(
+/** Premium request line items of a billing usage report. */
+export function premiumRequestItems(data: BillingUsageResponse): BillingUsageItem[] {
+  const items = Array.isArray(data?.usageItems) ? data.usageItems : [];
+  return items.filter(
     (item) =>
       item &&
       typeof item === "object" &&
       typeof item.sku === "string" &&
       (item.sku === "Copilot Premium Request" || item.sku.includes("Premium")),
   );
+}
+
+export function sumPremiumRequests(items: BillingUsageItem[]): number {
+  return items.reduce((sum, item) => sum + (item.grossQuantity || 0), 0);
+}
 
-  const used = premiumItems.reduce((sum, item) => sum + (item.grossQuantity || 0), 0);
+function toQuotaResultFromBilling(
+  data: BillingUsageResponse,
+  tier: CopilotTier,
+  reset: CopilotResetResolution,
+): CopilotQuotaResult {
+  const premiumItems = premiumRequestItems(data);
+  const used = sumPremiumRequests(premiumItems);
 
   const limits = premiumItems
     .map((item) => item.limit)
@@ -308,12 +528,16 @@ function toQuotaResultFromBilling(
   const remaining = Math.max(0, total - used);
   const percentRemaining = Math.max(0, Math.min(100, Math.round((remaining / total) * 100)));
 
+  const models = toModelBreakdown(premiumItems);
+
   return {
     success: true,
     used,
     total,
     percentRemaining,
-    resetTimeIso: getApproxNextResetIso(),
+    resetTimeIso: reset.resetTimeIso,
+    ...(models.length > 0 ? { models } : {}),
+    reset,
   };
 }
 
@@ -324,9 +548,12 @@ interface CopilotTokenResponse {
   endpoints: { api: string };
 }
 
-async function exchangeForCopilotToken(oauthToken: string): Promise<string | null> {
+async function exchangeForCopilotToken(
+  oauthToken: string,
+  apiBaseUrl: string,
+): Promise<string | null> {
   try {
-    const response = await fetchWithTimeout(COPILOT_TOKEN_EXCHANGE_URL, {
+    const response = await fetchWithRetry(`${apiBaseUrl}${COPILOT_TOKEN_EXCHANGE_PATH}`, {
       headers: {
         Accept: "application/json",
         Authorization: `Bearer ${oauthToken}`,
@@ -350,18 +577,22 @@ async function exchangeForCopilotToken(oauthToken: string): Promise<string | nul
  * Fetch Copilot usage from GitHub internal API.
  * Tries multiple authentication methods to handle old/new token formats.
  */
-async function fetchCopilotUsage(authData: CopilotAuthData): Promise<CopilotUsageResponse> {
+async function fetchCopilotUsage(
+  authData: CopilotAuthData,
+  apiBaseUrl: string,
+): Promise<CopilotUsageResponse> {
   const oauthToken = authData.refresh || authData.access;
   if (!oauthToken) {
     throw new Error("No OAuth token found in auth data");
   }
+  const userUrl = `${apiBaseUrl}${COPILOT_INTERNAL_USER_PATH}`;
 
   const cachedAccessToken = authData.access;
   const tokenExpiry = authData.expires || 0;
 
   // Strategy 1: If we have a valid cached access token (from previous exchange), use it.
   if (cachedAccessToken && cachedAccessToken !== oauthToken && tokenExpiry > Date.now()) {
-    const response = await fetchWithTimeout(COPILOT_INTERNAL_USER_URL, {
+    const response = await fetchWithRetry(userUrl, {
       headers: buildBearerHeaders(cachedAccessToken),
     });
 
@@ -371,7 +602,7 @@ async function fetchCopilotUsage(authData: CopilotAuthData): Promise<CopilotUsag
   }
 
   // Strategy 2: Try direct call with OAuth token (newer tokens generally expect Bearer).
-  const directBearerResponse = await fetchWithTimeout(COPILOT_INTERNAL_USER_URL, {
+  const directBearerResponse = await fetchWithRetry(userUrl, {
     headers: buildBearerHeaders(oauthToken),
   });
 
@@ -380,7 +611,7 @@ async function fetchCopilotUsage(authData: CopilotAuthData): Promise<CopilotUsag
   }
 
   // Strategy 2b: Legacy auth format.
-  const directLegacyResponse = await fetchWithTimeout(COPILOT_INTERNAL_USER_URL, {
+  const directLegacyResponse = await fetchWithRetry(userUrl, {
     headers: buildLegacyTokenHeaders(oauthToken),
   });
 
@@ -389,13 +620,13 @@ async function fetchCopilotUsage(authData: CopilotAuthData): Promise<CopilotUsag
   }
 
   // Strategy 3: Exchange OAuth token for Copilot session token (new auth flow).
-  const copilotToken = await exchangeForCopilotToken(oauthToken);
+  const copilotToken = await exchangeForCopilotToken(oauthToken, apiBaseUrl);
   if (!copilotToken) {
     const errorText = await directLegacyResponse.text();
     throw new Error(`GitHub Copilot quota unavailable: ${errorText.slice(0, 160)}`);
   }
 
-  const exchangedResponse = await fetchWithTimeout(COPILOT_INTERNAL_USER_URL, {
+  const exchangedResponse = await fetchWithRetry(userUrl, {
     headers: buildBearerHeaders(copilotToken),
   });
 
@@ -420,15 +651,13 @@ export async function queryCopilotQuota(): Promise<CopilotResult> {
   // Strategy 1: Try public billing API with user's fine-grained PAT.
   const quotaConfig = readQuotaConfig();
   if (quotaConfig) {
-    try {
-      const billing = await fetchPublicBillingUsage(quotaConfig);
-      return toQuotaResultFromBilling(billing, quotaConfig.tier);
-    } catch (err) {
-      return {
-        success: false,
-        error: err instanceof Error ? err.message : String(err),
-      } as QuotaError;
-    }
+    const result = await queryCopilotBillingQuota(
+      quotaConfig,
+      undefined,
+      await lookupInternalResetDates(),
+    );
+    recordResetResolution("default", result);
+    return result;
   }
 
   // Strategy 2: Best-effort internal API using OpenCode auth.
@@ -437,9 +666,146 @@ export async function queryCopilotQuota(): Promise<CopilotResult> {
     return null; // Not configured
   }
 
+  const result = await queryCopilotInternalQuota(auth);
+  recordResetResolution("default", result);
+  return result;
+}
+
+/** The billing API has no reset date; the internal API's dates are reused for this long. */
+const RESET_LOOKUP_TTL_MS = 6 * 60 * 60 * 1000;
+/** A missing login or failed lookup is retried after this instead of the full TTL. */
+const RESET_LOOKUP_FAILURE_TTL_MS = 60 * 1000;
+
+type ResetDates = { quotaResetDate?: string; assignedDate?: string };
+
+let resetLookupCache: { expiresAt: number; promise: Promise<ResetDates> } | null = null;
+
+/**
+ * quota_reset_date / assigned_date from the internal API via OpenCode's Copilot login,
+ * for the billing-API path. Empty when there is no login or the call fails.
+ */
+function lookupInternalResetDates(nowMs: number = Date.now()): Promise<ResetDates> {
+  if (!resetLookupCache || nowMs >= resetLookupCache.expiresAt) {
+    const entry = {
+      expiresAt: nowMs + RESET_LOOKUP_TTL_MS,
+      promise: fetchInternalResetDates().then((dates) => {
+        if (!dates) entry.expiresAt = nowMs + RESET_LOOKUP_FAILURE_TTL_MS;
+        return dates ?? {};
+      }),
+    };
+    resetLookupCache = entry;
+  }
+  return resetLookupCache.promise;
+}
+
+async function fetchInternalResetDates(): Promise<ResetDates | null> {
+  const auth = await readCopilotAuth();
+  if (!auth) return null;
   try {
-    const data = await fetchCopilotUsage(auth);
+    const data = await fetchCopilotUsage(
+      auth,
+      resolveGitHubApiBaseUrl(undefined, auth.enterpriseUrl),
+    );
+    return { quotaResetDate: data.quota_reset_date, assignedDate: data.assigned_date };
+  } catch {
+    return null;
+  }
+}
+
+// Last reset resolution per account ("default" without accounts), for /quota_status.
+const resetResolutions = new Map<string, CopilotResetResolution>();
+
+function recordResetResolution(key: string, result: CopilotResult): void {
+  if (result?.success && result.reset) resetResolutions.set(key, result.reset);
+}
+
+/** Lines for /quota_status: the reset date each account used, its source and any conflict. */
+export function getCopilotResetDiagnostics(): string[] {
+  return [...resetResolutions].map(([key, r]) => {
+    const conflicts = r.conflicts.map((c) => `; ${c.source} says ${c.resetTimeIso}`).join("");
+    return `- ${key}: ${r.resetTimeIso} (source=${r.source}${conflicts})`;
+  });
+}
+
+/**
+ * Query each configured account.
+ *
+ * JSON files shaped like copilot-quota-token.json use the public billing API;
+ * bare tokens and oauth entries use the internal endpoint. Billing-API accounts
+ * reset on the calendar month: OpenCode's single Copilot login may belong to a
+ * different user, so its reset dates are not borrowed for them.
+ */
+export async function queryCopilotAccountsQuota(
+  accounts: ProviderAccountConfig[],
+): Promise<AccountQueryResult<CopilotResult>[]> {
+  const results = await queryAccounts<CopilotResult>(
+    accounts,
+    async (credential, account) => {
+      if (credential.kind === "token") {
+        return await queryCopilotInternalQuota(
+          { type: "oauth", refresh: credential.token },
+          account.baseUrl,
+        );
+      }
+
+      const quotaConfig = parseQuotaConfig(credential.entry);
+      if (quotaConfig) return await queryCopilotBillingQuota(quotaConfig, account.baseUrl);
+
+      const auth = credential.entry as unknown as CopilotAuthData;
+      if (auth.type !== "oauth" || (!auth.refresh && !auth.access)) {
+        return { success: false, error: "Not a Copilot oauth or PAT credential" } as QuotaError;
+      }
+      return await queryCopilotInternalQuota(auth, account.baseUrl);
+    },
+    (error) => ({ success: false, error }) as QuotaError,
+  );
+  for (const { account, result } of results) recordResetResolution(account, result);
+  return results;
+}
+
+/**
+ * GitHub API base for a request: the account's baseUrl, else baseUrls.copilot, else
+ * the enterprise host OpenCode stored with the login, else api.github.com.
+ */
+function resolveGitHubApiBaseUrl(accountBaseUrl?: string, enterpriseUrl?: string): string {
+  if (accountBaseUrl) return accountBaseUrl;
+  if (!hasBaseUrlOverride("copilot") && enterpriseUrl) return toGitHubApiBaseUrl(enterpriseUrl);
+  return getBaseUrl("copilot");
+}
+
+async function queryCopilotBillingQuota(
+  quotaConfig: CopilotQuotaConfig,
+  accountBaseUrl?: string,
+  resetDates: ResetDates = {},
+): Promise<CopilotResult> {
+  try {
+    const billing = await fetchPublicBillingUsage(
+      quotaConfig,
+      resolveGitHubApiBaseUrl(accountBaseUrl),
+    );
+    return toQuotaResultFromBilling(billing, quotaConfig.tier, resolveCopilotResetDate(resetDates));
+  } catch (err) {
+    return {
+      success: false,
+      error: err instanceof Error ? err.message : String(err),
+    } as QuotaError;
+  }
+}
+
+async function queryCopilotInternalQuota(
+  auth: CopilotAuthData,
+  accountBaseUrl?: string,
+): Promise<CopilotResult> {
+  try {
+    const data = await fetchCopilotUsage(
+      auth,
+      resolveGitHubApiBaseUrl(accountBaseUrl, auth.enterpriseUrl),
+    );
     const premium = data.quota_snapshots.premium_interactions;
+    const reset = resolveCopilotResetDate({
+      quotaResetDate: data.quota_reset_date,
+      assignedDate: data.assigned_date,
+    });
 
     if (!premium) {
       return {
@@ -454,7 +820,8 @@ export async function queryCopilotQuota(): Promise<CopilotResult> {
         used: 0,
         total: -1, // Indicate unlimited
         percentRemaining: 100,
-        resetTimeIso: data.quota_reset_date,
+        resetTimeIso: reset.resetTimeIso,
+        reset,
       } as CopilotQuotaResult;
     }
 
@@ -467,7 +834,8 @@ export async function queryCopilotQuota(): Promise<CopilotResult> {
       used,
       total,
       percentRemaining,
-      resetTimeIso: data.quota_reset_date,
+      resetTimeIso: reset.resetTimeIso,
+      reset,
     } as CopilotQuotaResult;
   } catch (err) {
     return {
@@ -0,0 +1,177 @@
+/**
+ * Config-declared quota endpoints.
+ *
+ * Fetches `customProviders[].url` and maps the JSON response to entries using
+ * the provider's extraction rules. URL and header values may reference
+ * environment variables with {env:VAR}.
+ */
+
+import type {
+  CustomProviderConfig,
+  CustomProviderEntry,
+  CustomProviderEntryRule,
+  CustomProviderResult,
+} from "./types.js";
+import { fetchWithRetry } from "./http.js";
+import { clampPercent, fmtUsdAmount } from "./format-utils.js";
+import { interpolateEnvTemplates } from "./env-template.js";
+import { evaluateJsonPath } from "./json-path.js";
+
+interface ResolvedRequest {
+  url: string;
+  init: RequestInit;
+}
+
+/**
+ * Resolve env templates in URL and headers.
+ * Returns null when a referenced env var is missing (provider is not configured).
+ */
+export function resolveCustomProviderRequest(def: CustomProviderConfig): ResolvedRequest | null {
+  const url = interpolateEnvTemplates(def.url);
+  if (!url) return null;
+
+  const headers: Record<string, string> = { "User-Agent": "OpenCode-Quota-Toast/1.0" };
+  for (const [key, raw] of Object.entries(def.headers)) {
+    const value = interpolateEnvTemplates(raw);
+    if (value === null) return null;
+    headers[key] = value;
+  }
+
+  const init: RequestInit = { method: def.method, headers };
+  if (def.body !== undefined && def.method !== "GET") {
+    const body = interpolateEnvTemplates(def.body);
+    if (body === null) return null;
+    init.body = body;
+    if (!Object.keys(headers).some((k) => k.toLowerCase() === "content-type")) {
+      headers["Content-Type"] = "application/json";
+    }
+  }
+
+  return { url, init };
+}
+
+function toNumber(value: unknown): number | undefined {
+  if (typeof value === "number" && Number.isFinite(value)) return value;
+  if (typeof value === "string" && value.trim().length > 0) {
+    const n = Number(value);
+    if (Number.isFinite(n)) return n;
+  }
+  return undefined;
+}
+
+function toResetIso(value: unknown): string | undefined {
+  if (typeof value === "string" && value.trim().length > 0 && !/^\d+$/.test(value.trim())) {
+    const t = Date.parse(value);
+    return Number.isFinite(t) ? new Date(t).toISOString() : undefined;
+  }
+  const n = toNumber(value);
+  if (n === undefined || n <= 0) return undefined;
+  // Heuristic: values below 1e12 are epoch seconds.
+  return new Date(n < 1e12 ? n * 1000 : n).toISOString();
+}
+
+function formatValue(value: unknown, format: CustomProviderEntryRule["format"]): string | null {
+  if (value === undefined || value === null) return null;
+  if (format === "usd") {
+    const n = toNumber(value);
+    return n === undefined ? null : fmtUsdAmount(n);
+  }
+  if (format === "number") {
+    const n = toNumber(value);
+    return n === undefined ? null : n.toLocaleString("en-US");
+  }
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+}
+
+function computePercentRemaining(data: unknown, rule: CustomProviderEntryRule): number | null {
+  if (rule.percentRemaining) {
+    const pct = toNumber(evaluateJsonPath(data, rule.percentRemaining));
+    return pct === undefined ? null : clampPercent(pct);
+  }
+
+  const limit = rule.limit ? toNumber(evaluateJsonPath(data, rule.limit)) : undefined;
+  if (limit === undefined) return null;
+  if (limit <= 0) return 0;
+
+  if (rule.remaining) {
+    const remaining = toNumber(evaluateJsonPath(data, rule.remaining));
+    return remaining === undefined ? null : clampPercent((remaining / limit) * 100);
+  }
+  if (rule.used) {
+    const used = toNumber(evaluateJsonPath(data, rule.used));
+    return used === undefined ? null : clampPercent(((limit - used) / limit) * 100);
+  }
+  return null;
+}
+
+/**
+ * Apply extraction rules to a parsed response.
+ */
+export function extractCustomProviderEntries(
+  data: unknown,
+  rules: CustomProviderEntryRule[],
+): { entries: CustomProviderEntry[]; missing: string[] } {
+  const entries: CustomProviderEntry[] = [];
+  const missing: string[] = [];
+
+  for (const rule of rules) {
+    const resetTimeIso = rule.resetAt
+      ? toResetIso(evaluateJsonPath(data, rule.resetAt))
+      : undefined;
+
+    if (rule.value) {
+      const value = formatValue(evaluateJsonPath(data, rule.value), rule.format);
+      if (value === null) missing.push(rule.name);
+      else entries.push({ kind: "value", name: rule.name, value, resetTimeIso });
+      continue;
+    }
+
+    const percentRemaining = computePercentRemaining(data, rule);
+    if (percentRemaining === null) missing.push(rule.name);
+    else entries.push({ kind: "percent", name: rule.name, percentRemaining, resetTimeIso });
+  }
+
+  return { entries, missing };
+}
+
+export async function queryCustomProviderQuota(
+  def: CustomProviderConfig,
+): Promise<CustomProviderResult> {
+  const request = resolveCustomProviderRequest(def);
+  if (!request) return null;
+
+  try {
+    // Only GET is retried: a POST body may not be safe to send twice.
+    const resp = await fetchWithRetry(
+      request.url,
+      request.init,
+      def.method === "GET" ? undefined : { retries: 0 },
+    );
+
+    if (!resp.ok) {
+      const text = await resp.text();
+      return {
+        success: false,
+        error: `API error ${resp.status}: ${text.slice(0, 120)}`,
+      };
+    }
+
+    const data = (await resp.json()) as unknown;
+    const { entries, missing } = extractCustomProviderEntries(data, def.entries);
+
+    if (entries.length === 0) {
+      return {
+        success: false,
+        error: `No rules matched response (${missing.join(", ") || "no rules"})`,
+      };
+    }
+
+    return { success: true, entries, missing };
+  } catch (err) {
+    return {
+      success: false,
+      error: err instanceof Error ? err.message : String(err),
+    };
+  }
+}
@@ -5,6 +5,9 @@
  * formatting and toast display stays universal across providers.
  */
 
+import type { GoogleQuotaByAccount } from "./google.js";
+import type { AccountsConfig } from "./types.js";
+
 export type QuotaToastEntry =
   | {
       /**
@@ -21,6 +24,15 @@ export type QuotaToastEntry =
 
       /** Optional ISO reset timestamp (shown when percentRemaining is < 100). */
       resetTimeIso?: string;
+
+      /** Set on last-known entries shown after a failed fetch, e.g. "5m ago". */
+      staleAge?: string;
+
+      /** Configured account the entry belongs to (last-known values are kept per account). */
+      account?: string;
+
+      /** Provider that produced the entry; history and forecasts key on it with the name. */
+      providerId?: string;
     }
   | {
       /** Value-based entry (no percent bar). */
@@ -34,6 +46,15 @@ export type QuotaToastEntry =
 
       /** Optional ISO reset timestamp (shown when available). */
       resetTimeIso?: string;
+
+      /** Set on last-known entries shown after a failed fetch, e.g. "5m ago". */
+      staleAge?: string;
+
+      /** Configured account the entry belongs to (last-known values are kept per account). */
+      account?: string;
+
+      /** Provider that produced the entry; history and forecasts key on it with the name. */
+      providerId?: string;
     };
 
 export function isValueEntry(
@@ -48,10 +69,17 @@ export function isPercentEntry(
   return !isValueEntry(e);
 }
 
+/** Append the stale marker when set, e.g. "Copilot" -> "Copilot (5m ago)". */
+export function withStaleMarker(text: string, staleAge?: string): string {
+  return staleAge ? `${text} (${staleAge})` : text;
+}
+
 export interface QuotaToastError {
   /** Short label that will be rendered as "label: message". */
   label: string;
   message: string;
+  /** Configured account that failed; its last-known entries replace the error. */
+  account?: string;
 }
 
 /** Per-model token summary for current session (toast display). */
@@ -73,6 +101,8 @@ export interface QuotaProviderResult {
   attempted: boolean;
   entries: QuotaToastEntry[];
   errors: QuotaToastError[];
+  /** Antigravity only: the per-account quota behind `entries` (ranks the best-account line). */
+  antigravityAccounts?: GoogleQuotaByAccount;
 }
 
 export interface QuotaProviderContext {
@@ -87,9 +117,22 @@ export interface QuotaProviderContext {
     toastStyle?: "classic" | "grouped";
     onlyCurrentModel?: boolean;
     currentModel?: string;
+    /** Configured accounts for multi-account providers (see AccountsConfig). */
+    accounts?: AccountsConfig;
+    /** Add the Copilot organization/enterprise entry (see copilot-org.ts). */
+    showCopilotOrg?: boolean;
   };
 }
 
+/** Provider results are cached per provider and the context settings that change them. */
+export function makeProviderFetchCacheKey(providerId: string, ctx: QuotaProviderContext): string {
+  const style = ctx.config.toastStyle ?? "classic";
+  const googleModels = ctx.config.googleModels.join(",");
+  const onlyCurrentModel = ctx.config.onlyCurrentModel ? "yes" : "no";
+  const currentModel = ctx.config.currentModel ?? "";
+  return `${providerId}|style=${style}|googleModels=${googleModels}|onlyCurrentModel=${onlyCurrentModel}|currentModel=${currentModel}`;
+}
+
 export interface QuotaProvider {
   /** Stable id used by config.enabledProviders */
   id: string;
@@ -1,9 +1,15 @@
 /**
- * Environment variable template resolution.
+ * Environment variable and secret reference template resolution.
  *
- * Supports {env:VAR_NAME} syntax for referencing environment variables in config values.
+ * Supports {env:VAR_NAME} syntax for referencing environment variables in config values,
+ * plus {file:/path} and {cmd:command} secret references (see resolveSecretTemplate).
  */
 
+import { execFile } from "child_process";
+import { readFile } from "fs/promises";
+
+import { expandHome } from "./path-pick.js";
+
 /**
  * Resolve {env:VAR_NAME} syntax in a string value.
  *
@@ -30,3 +36,209 @@ export function resolveEnvTemplate(value: string): string | null {
   const envValue = process.env[envVar];
   return envValue && envValue.trim().length > 0 ? envValue.trim() : null;
 }
+
+/**
+ * Replace every {env:VAR_NAME} occurrence inside a larger string.
+ *
+ * Unlike resolveEnvTemplate (which only handles a value that is exactly one
+ * template), this is meant for values such as `Bearer {env:GATEWAY_TOKEN}`.
+ * Returns null if any referenced env var is missing or empty, so callers never
+ * send a half-filled header.
+ *
+ * @example
+ * // With GATEWAY_TOKEN="abc" in environment:
+ * interpolateEnvTemplates("Bearer {env:GATEWAY_TOKEN}") // => "Bearer abc"
+ * interpolateEnvTemplates("Bearer {env:MISSING_VAR}")   // => null
+ */
+export function interpolateEnvTemplates(value: string): string | null {
+  let missing = false;
+  const out = value.replace(/\{env:([^}]+)\}/g, (_m, envVar: string) => {
+    const envValue = process.env[envVar];
+    if (!envValue || envValue.trim().length === 0) {
+      missing = true;
+      return "";
+    }
+    return envValue.trim();
+  });
+  return missing ? null : out;
+}
+
+/** How long a resolved {file:} / {cmd:} secret is reused before it is read again. */
+const SECRET_CACHE_TTL_MS = 5 * 60 * 1000;
+/** Failures are retried sooner, so fixing a broken reference shows up quickly. */
+const SECRET_FAILURE_TTL_MS = 30 * 1000;
+const SECRET_CMD_TIMEOUT_MS = 10 * 1000;
+
+type SecretTemplateKind = "env" | "file" | "cmd";
+
+interface CachedSecret {
+  value: string | null;
+  error?: string;
+  resolvedAt: number;
+  expiresAt: number;
+}
+
+const secretCache = new Map<string, CachedSecret>();
+const pendingSecrets = new Map<string, Promise<CachedSecret>>();
+/** {file:}/{cmd:} references ignored because they came from a workspace config */
+const skippedSecrets = new Map<string, string>();
+
+function parseSecretTemplate(value: string): { kind: SecretTemplateKind; target: string } | null {
+  const match = value.match(/^\{(env|file|cmd):([\s\S]+)\}$/);
+  if (!match) return null;
+  const target = match[2].trim();
+  return target ? { kind: match[1] as SecretTemplateKind, target } : null;
+}
+
+/**
+ * Split a {cmd:} target into argv. Supports single/double quotes and backslash
+ * escapes; there is no shell, so pipes, globs and `$VAR` are passed literally.
+ */
+export function parseCommandArgs(command: string): string[] {
+  const args: string[] = [];
+  let current = "";
+  let inArg = false;
+  let quote: "'" | '"' | null = null;
+
+  for (let i = 0; i < command.length; i++) {
+    const ch = command[i]!;
+    if (quote) {
+      if (ch === quote) quote = null;
+      else if (ch === "\\" && quote === '"' && i + 1 < command.length) current += command[++i];
+      else current += ch;
+    } else if (ch === "'" || ch === '"') {
+      quote = ch;
+      inArg = true;
+    } else if (ch === "\\" && i + 1 < command.length) {
+      current += command[++i];
+      inArg = true;
+    } else if (/\s/.test(ch)) {
+      if (inArg) args.push(current);
+      current = "";
+      inArg = false;
+    } else {
+      current += ch;
+      inArg = true;
+    }
+  }
+  if (inArg) args.push(current);
+  return args;
+}
+
+/**
+ * Describe a template for diagnostics without revealing the secret, e.g.
+ * "file:~/.secrets/chutes" or "cmd:pass" (only the program name of a command).
+ * Returns null for literal values.
+ */
+export function describeSecretTemplate(value: string): string | null {
+  const ref = parseSecretTemplate(value.trim());
+  if (!ref) return null;
+  if (ref.kind === "cmd") return `cmd:${parseCommandArgs(ref.target)[0] ?? ""}`;
+  return `${ref.kind}:${ref.target}`;
+}
+
+/**
+ * True for {file:} and {cmd:} references. These read local files or run programs,
+ * so they are only honored from the user's global config, never from a project's
+ * opencode.json (which may come from an untrusted checkout).
+ */
+export function isLocalSecretTemplate(value: string): boolean {
+  const kind = parseSecretTemplate(value.trim())?.kind;
+  return kind === "file" || kind === "cmd";
+}
+
+/** Remember a {file:}/{cmd:} reference that was ignored in a workspace config. */
+export function recordSkippedSecretTemplate(value: string, configPath: string): void {
+  const ref = describeSecretTemplate(value);
+  if (ref) skippedSecrets.set(ref, configPath);
+}
+
+function runSecretCommand(command: string): Promise<string> {
+  const [file, ...args] = parseCommandArgs(command);
+  if (!file) return Promise.reject(new Error("empty command"));
+  return new Promise((resolve, reject) => {
+    execFile(file, args, { timeout: SECRET_CMD_TIMEOUT_MS, windowsHide: true }, (err, stdout) => {
+      if (!err) return resolve(String(stdout));
+      // Only the exit status is kept: stderr may echo part of the secret.
+      if (err.killed) return reject(new Error(`timed out after ${SECRET_CMD_TIMEOUT_MS / 1000}s`));
+      reject(new Error(typeof err.code === "number" ? `exit code ${err.code}` : "failed to start"));
+    });
+  });
+}
+
+async function loadSecret(kind: "file" | "cmd", target: string): Promise<CachedSecret> {
+  const resolvedAt = Date.now();
+  try {
+    const raw =
+      kind === "file"
+        ? await readFile(expandHome(target), "utf-8")
+        : await runSecretCommand(target);
+    const value = raw.trim();
+    if (value) return { value, resolvedAt, expiresAt: resolvedAt + SECRET_CACHE_TTL_MS };
+    return {
+      value: null,
+      error: "empty",
+      resolvedAt,
+      expiresAt: resolvedAt + SECRET_FAILURE_TTL_MS,
+    };
+  } catch (err) {
+    const error =
+      kind === "file" ? "cannot read file" : err instanceof Error ? err.message : String(err);
+    return { value: null, error, resolvedAt, expiresAt: resolvedAt + SECRET_FAILURE_TTL_MS };
+  }
+}
+
+/**
+ * Resolve a config value that may be a secret reference.
+ *
+ * - `{env:VAR_NAME}`: environment variable (same as resolveEnvTemplate)
+ * - `{file:/path/to/key}`: trimmed file contents (`~` is expanded)
+ * - `{cmd:pass show chutes}`: trimmed stdout of a local command (10s timeout, no shell)
+ *
+ * File and command results are cached for 5 minutes (failures for 30 seconds),
+ * so polling does not re-run a password manager on every refresh.
+ * Returns null when the reference cannot be resolved or resolves to an empty value;
+ * literal values are returned unchanged.
+ */
+export async function resolveSecretTemplate(value: string): Promise<string | null> {
+  const ref = parseSecretTemplate(value);
+  if (!ref) return value;
+  if (ref.kind === "env") return resolveEnvTemplate(`{env:${ref.target}}`);
+
+  const key = `${ref.kind}:${ref.target}`;
+  const cached = secretCache.get(key);
+  if (cached && cached.expiresAt > Date.now()) return cached.value;
+
+  let pending = pendingSecrets.get(key);
+  if (!pending) {
+    pending = loadSecret(ref.kind, ref.target).finally(() => pendingSecrets.delete(key));
+    pendingSecrets.set(key, pending);
+  }
+  const result = await pending;
+  secretCache.set(key, result);
+  return result.value;
+}
+
+/** Forget cached {file:} / {cmd:} secrets (tests, or after editing a secret). */
+export function clearSecretTemplateCache(): void {
+  secretCache.clear();
+  skippedSecrets.clear();
+}
+
+/**
+ * Cached {file:} / {cmd:} references for /quota_status, one `- ref: status` line each.
+ * Never includes the secret itself.
+ */
+export function getSecretTemplateDiagnostics(nowMs: number = Date.now()): string[] {
+  const lines = [...secretCache].map(([key, entry]) => {
+    const ref = describeSecretTemplate(`{${key}}`) ?? key;
+    const age = Math.max(0, Math.round((nowMs - entry.resolvedAt) / 1000));
+    const status = entry.value !== null ? "ok" : `error (${entry.error ?? "unknown"})`;
+    const stale = entry.expiresAt <= nowMs ? ", expired" : "";
+    return `- ${ref}: ${status}, resolved ${age}s ago${stale}`;
+  });
+  for (const [ref, configPath] of skippedSecrets) {
+    lines.push(`- ${ref}: skipped (workspace config ${configPath}; move it to the global config)`);
+  }
+  return lines;
+}
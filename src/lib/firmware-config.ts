@@ -4,11 +4,10 @@
  * Resolution priority (first wins):
  * 1. Environment variable: FIRMWARE_AI_API_KEY or FIRMWARE_API_KEY
  * 2. opencode.json/opencode.jsonc: provider.firmware.options.apiKey
- *    - Supports {env:VAR_NAME} syntax for environment variable references
+ *    - Supports {env:VAR_NAME}, {file:/path} and {cmd:command} references
  * 3. auth.json: firmware.key (legacy/fallback)
  */
 
-import { resolveEnvTemplate } from "./env-template.js";
 import { readAuthFile } from "./opencode-auth.js";
 import {
   resolveApiKey,
@@ -21,6 +20,8 @@ import {
 export interface FirmwareApiKeyResult {
   key: string;
   source: FirmwareKeySource;
+  /** Secret reference the config value pointed at, e.g. "cmd:pass" */
+  via?: string;
 }
 
 /** Source of the resolved API key */
@@ -52,8 +53,8 @@ function extractFirmwareKeyFromConfig(config: unknown): string | null {
   const apiKey = (options as Record<string, unknown>).apiKey;
   if (typeof apiKey !== "string" || apiKey.trim().length === 0) return null;
 
-  // Resolve {env:VAR_NAME} syntax
-  return resolveEnvTemplate(apiKey.trim());
+  // {env:}/{file:}/{cmd:} references are resolved by resolveApiKey
+  return apiKey.trim();
 }
 
 /**
@@ -114,6 +115,7 @@ export async function hasFirmwareApiKey(): Promise<boolean> {
 export async function getFirmwareKeyDiagnostics(): Promise<{
   configured: boolean;
   source: FirmwareKeySource | null;
+  via: string | null;
   checkedPaths: string[];
 }> {
   return getApiKeyDiagnostics<FirmwareKeySource>({
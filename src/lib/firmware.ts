@@ -6,7 +6,8 @@
  */
 
 import type { QuotaError } from "./types.js";
-import { fetchWithTimeout } from "./http.js";
+import { getBaseUrl } from "./base-urls.js";
+import { fetchWithRetry } from "./http.js";
 import {
   resolveFirmwareApiKey,
   hasFirmwareApiKey,
@@ -56,7 +57,7 @@ export type FirmwareResetWindowResult =
   | QuotaError
   | null;
 
-const FIRMWARE_QUOTA_URL = "https://app.firmware.ai/api/v1/quota";
+const FIRMWARE_QUOTA_PATH = "/api/v1/quota";
 
 export async function hasFirmwareApiKeyConfigured(): Promise<boolean> {
   return await hasFirmwareApiKey();
@@ -69,7 +70,7 @@ export async function queryFirmwareQuota(): Promise<FirmwareResult> {
   if (!auth) return null;
 
   try {
-    const resp = await fetchWithTimeout(FIRMWARE_QUOTA_URL, {
+    const resp = await fetchWithRetry(`${getBaseUrl("firmware")}${FIRMWARE_QUOTA_PATH}`, {
       method: "GET",
       headers: {
         Authorization: `Bearer ${auth.key}`,
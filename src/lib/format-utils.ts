@@ -49,6 +49,22 @@ export function bar(percentRemaining: number, width: number): string {
   return "█".repeat(filled) + "░".repeat(empty);
 }
 
+const SPARK_LEVELS = ["▁", "▂", "▃", "▄", "▅", "▆", "▇", "█"];
+
+/**
+ * Render a sparkline of percentages [0..100], keeping the most recent `width` points.
+ * Uses an absolute scale so 100% is always a full block.
+ */
+export function sparkline(percents: number[], width: number): string {
+  const points = width > 0 ? percents.slice(-width) : [];
+  return points
+    .map((p) => {
+      const idx = Math.round((clampInt(p, 0, 100) / 100) * (SPARK_LEVELS.length - 1));
+      return SPARK_LEVELS[idx]!;
+    })
+    .join("");
+}
+
 /**
  * Format a token count with K/M suffix for compactness.
  *
@@ -123,3 +139,18 @@ export function formatResetCountdown(iso?: string, opts?: FormatResetCountdownOp
   if (days > 0) return `${days}d ${hours}h`;
   return `${hours}h ${minutes}m`;
 }
+
+/**
+ * Format an exact local reset time: "14:32" today, else "Jan 16 14:32".
+ * Used where a rounded countdown is not precise enough (e.g. a blocked window).
+ */
+export function formatResetClock(iso: string, nowMs: number = Date.now()): string {
+  const date = new Date(iso);
+  if (!Number.isFinite(date.getTime())) return "";
+  const hh = String(date.getHours()).padStart(2, "0");
+  const mm = String(date.getMinutes()).padStart(2, "0");
+  const now = new Date(nowMs);
+  if (date.toDateString() === now.toDateString()) return `${hh}:${mm}`;
+  const month = date.toLocaleString("en-US", { month: "short" });
+  return `${month} ${date.getDate()} ${hh}:${mm}`;
+}
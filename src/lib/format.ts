@@ -3,9 +3,11 @@
  */
 
 import type { QuotaToastEntry, QuotaToastError, SessionTokensData } from "./entries.js";
-import { isValueEntry } from "./entries.js";
+import { isValueEntry, withStaleMarker } from "./entries.js";
 import { bar, clampInt, formatResetCountdown, padLeft, padRight } from "./format-utils.js";
 import { formatQuotaRowsGrouped, type ToastGroupEntry } from "./toast-format-grouped.js";
+import { formatForecastMarker, type QuotaForecast } from "./quota-forecast.js";
+import { quotaHistoryKey } from "./quota-history.js";
 import { renderSessionTokensLines } from "./session-tokens-format.js";
 
 export function formatQuotaRows(params: {
@@ -19,6 +21,8 @@ export function formatQuotaRows(params: {
   errors?: QuotaToastError[];
   style?: "classic" | "grouped";
   sessionTokens?: SessionTokensData;
+  /** Burn-rate forecasts keyed by quotaHistoryKey(); adds a warning line under entries at risk */
+  forecasts?: Map<string, QuotaForecast>;
 }): string {
   if (params.style === "grouped") {
     return formatQuotaRowsGrouped({
@@ -26,6 +30,7 @@ export function formatQuotaRows(params: {
       entries: params.entries as ToastGroupEntry[] | undefined,
       errors: params.errors,
       sessionTokens: params.sessionTokens,
+      forecasts: params.forecasts,
     });
   }
 
@@ -117,10 +122,17 @@ export function formatQuotaRows(params: {
   };
 
   for (const entry of params.entries ?? []) {
+    const name = withStaleMarker(entry.name, entry.staleAge);
     if (isValueEntry(entry)) {
-      addValueEntry(entry.name, entry.resetTimeIso, entry.value);
+      addValueEntry(name, entry.resetTimeIso, entry.value);
     } else {
-      addPercentEntry(entry.name, entry.resetTimeIso, entry.percentRemaining);
+      // Grouped-style `right` text (e.g. "BLOCKED until 14:32") follows the name.
+      const right = (entry as ToastGroupEntry).right?.trim();
+      const label = right ? `${name} ${right}` : name;
+      addPercentEntry(label, entry.resetTimeIso, entry.percentRemaining);
+      const forecast = params.forecasts?.get(quotaHistoryKey(entry.providerId, entry.name));
+      const marker = forecast ? formatForecastMarker(forecast) : null;
+      if (marker) lines.push(marker.slice(0, maxWidth));
     }
   }
 
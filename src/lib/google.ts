@@ -27,7 +27,7 @@ import type {
   GoogleResult,
 } from "./types.js";
 import { GOOGLE_MODEL_KEYS } from "./types.js";
-import { fetchWithTimeout } from "./http.js";
+import { fetchWithRetry } from "./http.js";
 import {
   getCachedAccessToken,
   makeAccountCacheKey,
@@ -50,6 +50,9 @@ const GOOGLE_QUOTA_TIMEOUT_MS = 6000;
 // Multi-account fetching concurrency (reliability > speed).
 const GOOGLE_ACCOUNTS_CONCURRENCY = 3;
 
+/** Every model the quota response is parsed for. */
+export const ALL_GOOGLE_MODEL_IDS = Object.keys(GOOGLE_MODEL_KEYS) as GoogleModelId[];
+
 // =============================================================================
 // Helpers
 // =============================================================================
@@ -100,6 +103,25 @@ export async function readAntigravityAccounts(): Promise<AntigravityAccount[] |
   return null;
 }
 
+/**
+ * Read the full Antigravity accounts file, keeping every account at its original
+ * position so that `activeIndexByFamily` can be resolved.
+ */
+export async function readAntigravityAccountsFile(): Promise<AntigravityAccountsFile | null> {
+  for (const path of getAntigravityAccountsCandidatePaths()) {
+    try {
+      const content = await readFile(path, "utf-8");
+      const file = JSON.parse(content) as AntigravityAccountsFile;
+      if (!file.accounts || file.accounts.length === 0) continue;
+      return file;
+    } catch {
+      // try next candidate
+    }
+  }
+
+  return null;
+}
+
 export async function hasAntigravityAccountsConfigured(): Promise<boolean> {
   const accounts = await readAntigravityAccounts();
   return !!accounts && accounts.length > 0;
@@ -141,14 +163,14 @@ async function refreshAccessToken(
       grant_type: "refresh_token",
     });
 
-    const response = await fetchWithTimeout(
+    const response = await fetchWithRetry(
       GOOGLE_TOKEN_REFRESH_URL,
       {
         method: "POST",
         headers: { "Content-Type": "application/x-www-form-urlencoded" },
         body: params,
       },
-      timeoutMs,
+      { timeoutMs },
     );
 
     if (!response.ok) {
@@ -273,7 +295,7 @@ async function fetchGoogleQuota(
   projectId: string,
   timeoutMs: number = GOOGLE_QUOTA_TIMEOUT_MS,
 ): Promise<GoogleQuotaResponse> {
-  const response = await fetchWithTimeout(
+  const response = await fetchWithRetry(
     GOOGLE_QUOTA_API_URL,
     {
       method: "POST",
@@ -284,7 +306,7 @@ async function fetchGoogleQuota(
       },
       body: JSON.stringify({ project: projectId }),
     },
-    timeoutMs,
+    { timeoutMs },
   );
 
   if (!response.ok) {
@@ -426,27 +448,30 @@ async function fetchAccountQuotaWithAntigravityRefresh(params: {
  * @returns Quota result with all models and any errors, or null if not configured
  */
 export async function queryGoogleQuota(modelIds: GoogleModelId[]): Promise<GoogleResult> {
-  const accounts = await readAntigravityAccounts();
-  if (!accounts || accounts.length === 0) {
-    return null;
-  }
-
-  // Query accounts with bounded concurrency (reliability > speed).
-  const results = await mapWithConcurrency({
-    items: accounts,
-    concurrency: GOOGLE_ACCOUNTS_CONCURRENCY,
-    fn: async (account) => fetchAccountQuotaWithAntigravityRefresh({ account, modelIds }),
-  });
+  const byAccount = await queryGoogleQuotaByAccount(ALL_GOOGLE_MODEL_IDS);
+  return byAccount ? summarizeGoogleQuota(byAccount, modelIds) : null;
+}
 
-  // Collect all successful models and errors
+/**
+ * Flatten per-account quota into the models for modelIds plus per-account errors.
+ * Each account is one request that returns every model, so callers can query all
+ * models once and keep the per-account data (the best-account line ranks it).
+ */
+export function summarizeGoogleQuota(
+  byAccount: GoogleQuotaByAccount,
+  modelIds: GoogleModelId[],
+): Exclude<GoogleResult, null> {
+  // Collect all successful models (in modelIds order) and errors
   const allModels: GoogleModelQuota[] = [];
   const errors: GoogleAccountError[] = [];
 
-  for (const result of results) {
-    if (result.success && result.models && result.models.length > 0) {
-      allModels.push(...result.models);
-    } else if (!result.success && result.error && result.accountEmail) {
-      errors.push({ email: result.accountEmail, error: result.error });
+  for (const account of byAccount.accounts) {
+    if (account.error) {
+      errors.push({ email: account.email || "Unknown", error: account.error });
+      continue;
+    }
+    for (const modelId of modelIds) {
+      allModels.push(...account.models.filter((m) => m.modelId === modelId));
     }
   }
 
@@ -465,6 +490,54 @@ export async function queryGoogleQuota(modelIds: GoogleModelId[]): Promise<Googl
   } as GoogleQuotaResult;
 }
 
+/** Quota for one Antigravity account, keyed by its index in the accounts file. */
+export interface GoogleAccountQuota {
+  index: number;
+  email?: string;
+  rateLimitResetTimes?: Record<string, number>;
+  models: GoogleModelQuota[];
+  error?: string;
+}
+
+/** Per-account quota for every usable account in the accounts file. */
+export interface GoogleQuotaByAccount {
+  file: AntigravityAccountsFile;
+  accounts: GoogleAccountQuota[];
+}
+
+/**
+ * Query Google Antigravity quota per account (unlike queryGoogleQuota, which
+ * flattens all models). Used to recommend which account to use next.
+ */
+export async function queryGoogleQuotaByAccount(
+  modelIds: GoogleModelId[],
+): Promise<GoogleQuotaByAccount | null> {
+  const file = await readAntigravityAccountsFile();
+  if (!file) return null;
+
+  const indexed = file.accounts
+    .map((account, index) => ({ account, index }))
+    .filter((x) => x.account.refreshToken);
+  if (indexed.length === 0) return null;
+
+  const accounts = await mapWithConcurrency({
+    items: indexed,
+    concurrency: GOOGLE_ACCOUNTS_CONCURRENCY,
+    fn: async ({ account, index }): Promise<GoogleAccountQuota> => {
+      const result = await fetchAccountQuotaWithAntigravityRefresh({ account, modelIds });
+      return {
+        index,
+        email: account.email,
+        rateLimitResetTimes: account.rateLimitResetTimes,
+        models: result.models ?? [],
+        error: result.success ? undefined : (result.error ?? "Unknown error"),
+      };
+    },
+  });
+
+  return { file, accounts };
+}
+
 /**
  * Format Google quota for toast display
  *
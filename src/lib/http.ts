@@ -2,11 +2,17 @@
  * HTTP utilities for provider API calls.
  */
 
-import { REQUEST_TIMEOUT_MS } from "./types.js";
+import { AsyncLocalStorage } from "async_hooks";
+
+import { withNetworkOptions } from "./network.js";
+import { DEFAULT_CONFIG, REQUEST_TIMEOUT_MS, type HttpConfig } from "./types.js";
 
 /**
  * Fetch with timeout using AbortController.
  *
+ * Proxy and CA settings (network.ts) are applied here, so every provider request
+ * goes through them.
+ *
  * @param url - The URL to fetch
  * @param options - Fetch options (headers, method, body, etc.)
  * @param timeoutMs - Timeout in milliseconds (defaults to REQUEST_TIMEOUT_MS)
@@ -18,12 +24,13 @@ export async function fetchWithTimeout(
   options: RequestInit,
   timeoutMs: number = REQUEST_TIMEOUT_MS,
 ): Promise<Response> {
+  const init = await withNetworkOptions(url, options);
   const controller = new AbortController();
   const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
 
   try {
     const response = await fetch(url, {
-      ...options,
+      ...init,
       signal: controller.signal,
     });
     return response;
@@ -36,3 +43,110 @@ export async function fetchWithTimeout(
     clearTimeout(timeoutId);
   }
 }
+
+export type RetryOptions = Pick<
+  HttpConfig,
+  "timeoutMs" | "retries" | "retryBaseDelayMs" | "retryMaxDelayMs"
+>;
+
+/** Statuses worth another attempt: timeouts, rate limits and transient server errors. */
+const RETRYABLE_STATUSES = new Set([408, 429, 500, 502, 503, 504]);
+
+let retryDefaults: RetryOptions = { ...DEFAULT_CONFIG.http };
+
+/** Apply experimental.quotaToast.http to every later fetchWithRetry call. */
+export function setHttpRetryDefaults(options: RetryOptions): void {
+  retryDefaults = { ...options };
+}
+
+/**
+ * Parse a Retry-After header (delta seconds or an HTTP date) into milliseconds.
+ * Returns null when absent or unparseable.
+ */
+export function parseRetryAfterMs(
+  value: string | null | undefined,
+  nowMs = Date.now(),
+): number | null {
+  if (!value) return null;
+  const trimmed = value.trim();
+  if (/^\d+(\.\d+)?$/.test(trimmed)) return Math.round(Number(trimmed) * 1000);
+  const at = Date.parse(trimmed);
+  return Number.isFinite(at) ? Math.max(0, at - nowMs) : null;
+}
+
+/** Exponential backoff with jitter: a random delay in [50%, 100%] of base * 2^attempt. */
+function backoffDelayMs(attempt: number, options: RetryOptions): number {
+  const ceiling = Math.min(options.retryMaxDelayMs, options.retryBaseDelayMs * 2 ** attempt);
+  return Math.round(ceiling * (0.5 + Math.random() * 0.5));
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+// Deadline shared by every fetchWithRetry call inside one runWithFetchBudget.
+const fetchBudget = new AsyncLocalStorage<{ budgetMs: number; deadlineMs: number }>();
+
+/**
+ * Run one provider fetch with an overall time budget (http.fetchBudgetMs). Providers
+ * that chain several requests (Copilot: user endpoint, fallback, reset lookup, org)
+ * share it, so one dead host cannot hold the toast for the sum of their retries.
+ * 0 means no budget.
+ */
+export function runWithFetchBudget<T>(budgetMs: number, fn: () => Promise<T>): Promise<T> {
+  if (budgetMs <= 0) return fn();
+  return fetchBudget.run({ budgetMs, deadlineMs: Date.now() + budgetMs }, fn);
+}
+
+function remainingBudgetMs(): number {
+  const budget = fetchBudget.getStore();
+  return budget ? budget.deadlineMs - Date.now() : Number.POSITIVE_INFINITY;
+}
+
+/**
+ * fetchWithTimeout plus retries for network errors, timeouts, 408/429 and 5xx.
+ *
+ * Waits use jittered exponential backoff, or the server's Retry-After when given.
+ * A Retry-After longer than retryMaxDelayMs is not waited out: the response is
+ * returned as-is so the caller reports the rate limit. Inside runWithFetchBudget,
+ * attempts are cut to the time left and no retry starts past the deadline.
+ *
+ * @returns The last Response (which may still be a retryable error status)
+ * @throws The last network/timeout error when every attempt failed
+ */
+export async function fetchWithRetry(
+  url: string,
+  options: RequestInit,
+  overrides?: Partial<RetryOptions>,
+): Promise<Response> {
+  const opts: RetryOptions = { ...retryDefaults, ...overrides };
+
+  for (let attempt = 0; ; attempt++) {
+    const remainingMs = remainingBudgetMs();
+    if (remainingMs <= 0) {
+      const budgetMs = fetchBudget.getStore()!.budgetMs;
+      throw new Error(`Request budget of ${Math.round(budgetMs / 1000)}s exceeded`);
+    }
+
+    const canRetry = attempt < opts.retries;
+    let response: Response;
+    try {
+      response = await fetchWithTimeout(url, options, Math.min(opts.timeoutMs, remainingMs));
+    } catch (err) {
+      const delayMs = backoffDelayMs(attempt, opts);
+      if (!canRetry || delayMs >= remainingBudgetMs()) throw err;
+      await sleep(delayMs);
+      continue;
+    }
+
+    if (!canRetry || !RETRYABLE_STATUSES.has(response.status)) return response;
+
+    const retryAfterMs = parseRetryAfterMs(response.headers.get("retry-after"));
+    if (retryAfterMs !== null && retryAfterMs > opts.retryMaxDelayMs) return response;
+    const delayMs = retryAfterMs ?? backoffDelayMs(attempt, opts);
+    if (delayMs >= remainingBudgetMs()) return response;
+    // Release the connection before waiting; the body of a retried response is unused.
+    await response.body?.cancel().catch(() => {});
+    await sleep(delayMs);
+  }
+}
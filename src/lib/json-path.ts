@@ -0,0 +1,83 @@
+/**
+ * Minimal JSONPath-style lookups for config-driven extraction rules.
+ *
+ * Supported syntax (a small, predictable subset):
+ * - `$` root (optional): `$.data.quota` and `data.quota` are equivalent
+ * - dotted keys: `.remaining`
+ * - bracketed keys: `['x-limit']` or `["x-limit"]`
+ * - array indexes: `[0]`, and `[-1]` for the last element
+ *
+ * Wildcards, filters and recursive descent are intentionally not supported.
+ */
+
+type PathSegment = string | number;
+
+/**
+ * Parse a path into segments. Returns null for malformed paths.
+ */
+export function parseJsonPath(path: string): PathSegment[] | null {
+  let s = path.trim();
+  if (s.startsWith("$")) s = s.slice(1);
+
+  const segments: PathSegment[] = [];
+  let i = 0;
+  while (i < s.length) {
+    const ch = s[i]!;
+    if (ch === ".") {
+      i++;
+      const m = s.slice(i).match(/^[^.[\]]+/);
+      if (!m) return null;
+      segments.push(m[0]);
+      i += m[0].length;
+      continue;
+    }
+    if (ch === "[") {
+      const rest = s.slice(i);
+      const quoted = rest.match(/^\[\s*(['"])(.*?)\1\s*\]/);
+      if (quoted) {
+        segments.push(quoted[2]!);
+        i += quoted[0].length;
+        continue;
+      }
+      const index = rest.match(/^\[\s*(-?\d+)\s*\]/);
+      if (index) {
+        segments.push(Number(index[1]));
+        i += index[0].length;
+        continue;
+      }
+      return null;
+    }
+    if (segments.length === 0 && i === 0) {
+      // Allow a leading bare key ("data.quota").
+      const m = s.match(/^[^.[\]]+/);
+      if (!m) return null;
+      segments.push(m[0]);
+      i += m[0].length;
+      continue;
+    }
+    return null;
+  }
+  return segments;
+}
+
+/**
+ * Resolve a path against a parsed JSON value. Returns undefined when any segment is missing.
+ */
+export function evaluateJsonPath(root: unknown, path: string): unknown {
+  const segments = parseJsonPath(path);
+  if (!segments) return undefined;
+
+  let cur: unknown = root;
+  for (const seg of segments) {
+    if (cur === null || cur === undefined) return undefined;
+    if (typeof seg === "number") {
+      if (!Array.isArray(cur)) return undefined;
+      const idx = seg < 0 ? cur.length + seg : seg;
+      cur = cur[idx];
+      continue;
+    }
+    if (typeof cur !== "object") return undefined;
+    cur = (cur as Record<string, unknown>)[seg];
+  }
+  return cur;
+}
@@ -0,0 +1,187 @@
+/**
+ * Last successful entries per provider (stale-while-error).
+ *
+ * When a provider fetch fails, the plugin shows the entries from its last good
+ * fetch with an age marker such as "(5m ago)" instead of the error. Entries of
+ * configured accounts are recorded per account, so one failing account shows its
+ * own last-known values next to the accounts that succeeded. Records are
+ * persisted so a restart during an outage still has something to show.
+ */
+
+import { readFile } from "fs/promises";
+import { join } from "path";
+
+import { writeFileAtomic } from "./atomic-write.js";
+import {
+  makeProviderFetchCacheKey,
+  type QuotaProviderContext,
+  type QuotaProviderResult,
+  type QuotaToastEntry,
+  type QuotaToastError,
+} from "./entries.js";
+import { getOpencodeRuntimeDirs } from "./opencode-runtime-paths.js";
+
+const LAST_GOOD_STATE_VERSION = 1 as const;
+/** Older readings are dropped rather than shown as current. */
+const MAX_RECORD_AGE_MS = 7 * 24 * 60 * 60 * 1000;
+
+export interface LastGoodRecord {
+  /** When the entries were fetched */
+  timestamp: number;
+  entries: QuotaToastEntry[];
+}
+
+export interface LastGoodStateFileV1 {
+  version: 1;
+  /** Keyed by provider fetch settings (see lastGoodKey) */
+  records: Record<string, LastGoodRecord>;
+  updatedAt: number;
+}
+
+function defaultState(nowMs: number): LastGoodStateFileV1 {
+  return { version: LAST_GOOD_STATE_VERSION, records: {}, updatedAt: nowMs };
+}
+
+function normalizeRecord(raw: unknown): LastGoodRecord | null {
+  if (!raw || typeof raw !== "object") return null;
+  const obj = raw as Partial<LastGoodRecord>;
+  if (typeof obj.timestamp !== "number" || !Number.isFinite(obj.timestamp)) return null;
+  if (!Array.isArray(obj.entries)) return null;
+  const entries = obj.entries.filter(
+    (e): e is QuotaToastEntry => !!e && typeof e === "object" && typeof e.name === "string",
+  );
+  return entries.length > 0 ? { timestamp: Math.trunc(obj.timestamp), entries } : null;
+}
+
+function normalizeState(raw: unknown, nowMs: number): LastGoodStateFileV1 {
+  if (!raw || typeof raw !== "object") return defaultState(nowMs);
+  const obj = raw as Partial<LastGoodStateFileV1>;
+  const records: Record<string, LastGoodRecord> = {};
+  if (obj.records && typeof obj.records === "object") {
+    for (const [key, value] of Object.entries(obj.records)) {
+      const record = normalizeRecord(value);
+      if (record && nowMs - record.timestamp < MAX_RECORD_AGE_MS) records[key] = record;
+    }
+  }
+  return { version: LAST_GOOD_STATE_VERSION, records, updatedAt: nowMs };
+}
+
+async function readStateFromDisk(path: string, nowMs: number): Promise<LastGoodStateFileV1> {
+  try {
+    const raw = await readFile(path, "utf-8");
+    return normalizeState(JSON.parse(raw), nowMs);
+  } catch {
+    return defaultState(nowMs);
+  }
+}
+
+export function getLastGoodEntriesPath(): string {
+  const { stateDir } = getOpencodeRuntimeDirs();
+  return join(stateDir, "opencode-quota", "last-good-entries.json");
+}
+
+/**
+ * Same inputs as the provider fetch cache (toast style, model filters), so a fallback
+ * never shows entries fetched under different settings.
+ */
+export function lastGoodKey(providerId: string, ctx: QuotaProviderContext): string {
+  return makeProviderFetchCacheKey(providerId, ctx);
+}
+
+function accountRecordKey(key: string, account?: string): string {
+  return account === undefined ? key : `${key}|account=${account}`;
+}
+
+export async function readLastGoodEntries(
+  key: string,
+  nowMs: number = Date.now(),
+): Promise<LastGoodRecord | null> {
+  const state = await readStateFromDisk(getLastGoodEntriesPath(), nowMs);
+  return state.records[key] ?? null;
+}
+
+// Serialize read-modify-write cycles across concurrent provider fetches.
+let writeChain: Promise<unknown> = Promise.resolve();
+
+/**
+ * Record fresh entries. Entries with an `account` go to that account's record, so
+ * accounts missing from this fetch keep their previous record.
+ */
+export async function recordLastGoodEntries(
+  key: string,
+  entries: QuotaToastEntry[],
+  nowMs: number = Date.now(),
+): Promise<void> {
+  if (entries.length === 0) return;
+
+  const byRecord = new Map<string, QuotaToastEntry[]>();
+  for (const entry of entries) {
+    const recordKey = accountRecordKey(key, entry.account);
+    byRecord.set(recordKey, [...(byRecord.get(recordKey) ?? []), entry]);
+  }
+
+  const run = async (): Promise<void> => {
+    const path = getLastGoodEntriesPath();
+    const state = await readStateFromDisk(path, nowMs);
+    for (const [recordKey, recordEntries] of byRecord) {
+      state.records[recordKey] = { timestamp: nowMs, entries: recordEntries };
+    }
+    await writeFileAtomic(path, JSON.stringify(state));
+  };
+
+  const result = writeChain.then(run, run);
+  writeChain = result.catch(() => undefined);
+  return result;
+}
+
+/** Age marker for stale entries, e.g. "just now", "5m ago", "3h ago", "2d ago". */
+export function formatEntryAge(ageMs: number): string {
+  const minutes = Math.floor(Math.max(0, ageMs) / 60_000);
+  if (minutes < 1) return "just now";
+  if (minutes < 60) return `${minutes}m ago`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours}h ago`;
+  return `${Math.floor(hours / 24)}d ago`;
+}
+
+/** Mark last-known entries for display; names are kept so history/alert keys still match. */
+export function markEntriesStale(entries: QuotaToastEntry[], staleAge: string): QuotaToastEntry[] {
+  return entries.map((entry) => ({ ...entry, staleAge }));
+}
+
+/**
+ * Replace errors with last-known entries. An error of a configured account is replaced by
+ * that account's record; a result with nothing to show (or a thrown fetch, `null`) falls
+ * back to every record of the provider. Errors without a record are kept. Returns null when
+ * nothing was replaced.
+ */
+export async function withLastGoodEntries(
+  key: string,
+  result: QuotaProviderResult | null,
+  nowMs: number = Date.now(),
+): Promise<QuotaProviderResult | null> {
+  if (result && result.errors.length === 0) return null;
+
+  const { records } = await readStateFromDisk(getLastGoodEntriesPath(), nowMs);
+  const staleEntries = (recordKey: string): QuotaToastEntry[] => {
+    const record = records[recordKey];
+    return record ? markEntriesStale(record.entries, formatEntryAge(nowMs - record.timestamp)) : [];
+  };
+
+  if (!result || (result.entries.length === 0 && result.errors.some((e) => !e.account))) {
+    const entries = Object.keys(records)
+      .filter((recordKey) => recordKey === key || recordKey.startsWith(`${key}|account=`))
+      .flatMap(staleEntries);
+    return entries.length > 0 ? { attempted: true, entries, errors: [] } : null;
+  }
+
+  const entries = [...result.entries];
+  const errors: QuotaToastError[] = [];
+  for (const error of result.errors) {
+    const stale =
+      error.account === undefined ? [] : staleEntries(accountRecordKey(key, error.account));
+    if (stale.length > 0) entries.push(...stale);
+    else errors.push(error);
+  }
+  return errors.length < result.errors.length ? { ...result, entries, errors } : null;
+}
@@ -0,0 +1,155 @@
+/**
+ * Local ledgers: token/USD quotas for API-key providers without a quota endpoint.
+ *
+ * Usage per OpenCode provider id comes from aggregateUsage over the current
+ * period, so the numbers match /tokens_* reports. Periods are in local time.
+ */
+
+import type { LedgerConfig, LedgerPeriod } from "./types.js";
+import type { AggregateResult, TokenBuckets } from "./quota-stats.js";
+import { aggregateUsage } from "./quota-stats.js";
+import { startOfLocalMonthMs } from "./budgets.js";
+import { startOfTimeBucketMs } from "./time-buckets.js";
+import { clampPercent, fmtUsdAmount, formatTokenCount } from "./format-utils.js";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+/** Ledgers refreshed together (one toast) share a history scan per period start. */
+const SHARED_AGGREGATE_MS = 10 * 1000;
+const APPROX_PERIOD_MS: Record<LedgerPeriod, number> = {
+  day: DAY_MS,
+  week: 7 * DAY_MS,
+  month: 30.44 * DAY_MS,
+};
+
+/**
+ * Provider id of a ledger ("ledger:<id>"), used by enabledProviders and alerts.
+ * The prefix keeps ledgers out of the built-in/custom provider namespace, so a
+ * ledger named "openai" never hides (or is hidden by) the OpenAI provider.
+ */
+export function ledgerProviderId(def: Pick<LedgerConfig, "id">): string {
+  return `ledger:${def.id}`;
+}
+
+/** "5M tokens + $20.00 / day" for /quota_status. */
+export function describeLedgerLimits(def: LedgerConfig): string {
+  const limits = [
+    def.tokens !== undefined ? `${formatTokenCount(def.tokens)} tokens` : null,
+    def.usd !== undefined ? fmtUsdAmount(def.usd) : null,
+  ].filter(Boolean);
+  return `${limits.join(" + ")} / ${def.period}`;
+}
+
+export interface LedgerLimitStatus {
+  kind: "tokens" | "usd";
+  used: number;
+  limit: number;
+  percentRemaining: number;
+}
+
+export interface LedgerStatus {
+  startMs: number;
+  resetTimeIso: string;
+  limits: LedgerLimitStatus[];
+}
+
+/**
+ * `n` periods after `anchorMs`, keeping the local time of day (DST-safe).
+ * Monthly periods clamp to short months: a Jan 31 anchor resets Feb 28, then Mar 31.
+ */
+function addPeriods(anchorMs: number, period: LedgerPeriod, n: number): number {
+  const d = new Date(anchorMs);
+  const time = [d.getHours(), d.getMinutes(), d.getSeconds(), d.getMilliseconds()] as const;
+  if (period === "month") {
+    const month = d.getMonth() + n;
+    const lastDay = new Date(d.getFullYear(), month + 1, 0).getDate();
+    return new Date(d.getFullYear(), month, Math.min(d.getDate(), lastDay), ...time).getTime();
+  }
+  const days = period === "day" ? n : 7 * n;
+  return new Date(d.getFullYear(), d.getMonth(), d.getDate() + days, ...time).getTime();
+}
+
+function defaultPeriodStartMs(period: LedgerPeriod, nowMs: number): number {
+  return period === "month" ? startOfLocalMonthMs(nowMs) : startOfTimeBucketMs(nowMs, period);
+}
+
+/** The ledger period containing `nowMs`: [startMs, endMs). */
+export function ledgerWindow(
+  def: Pick<LedgerConfig, "period" | "resetAnchorMs">,
+  nowMs: number,
+): { startMs: number; endMs: number } {
+  const anchor = def.resetAnchorMs ?? defaultPeriodStartMs(def.period, nowMs);
+  let n = Math.floor((nowMs - anchor) / APPROX_PERIOD_MS[def.period]);
+  while (addPeriods(anchor, def.period, n) > nowMs) n--;
+  while (addPeriods(anchor, def.period, n + 1) <= nowMs) n++;
+  return {
+    startMs: addPeriods(anchor, def.period, n),
+    endMs: addPeriods(anchor, def.period, n + 1),
+  };
+}
+
+function totalTokens(t: TokenBuckets): number {
+  return t.input + t.output + t.reasoning + t.cache_read + t.cache_write;
+}
+
+function toLimitStatus(kind: LedgerLimitStatus["kind"], used: number, limit: number) {
+  return { kind, used, limit, percentRemaining: clampPercent(((limit - used) / limit) * 100) };
+}
+
+/**
+ * Compare a ledger's caps with an aggregate covering its current period.
+ *
+ * Tokens include unpriced and unknown-model usage; USD covers priced usage only.
+ */
+export function computeLedgerLimits(
+  def: LedgerConfig,
+  result: AggregateResult,
+): LedgerLimitStatus[] {
+  const ids = new Set(def.providerIDs);
+  const matches = (providerID: string) => ids.has(providerID.toLowerCase());
+
+  let tokens = 0;
+  let costUsd = 0;
+  for (const row of result.bySourceProvider) {
+    if (!matches(row.providerID)) continue;
+    tokens += totalTokens(row.tokens);
+    costUsd += row.costUsd;
+  }
+  for (const row of [...result.unknown, ...result.unpriced]) {
+    if (matches(row.key.sourceProviderID)) tokens += totalTokens(row.tokens);
+  }
+
+  const out: LedgerLimitStatus[] = [];
+  if (def.tokens !== undefined) out.push(toLimitStatus("tokens", tokens, def.tokens));
+  if (def.usd !== undefined) out.push(toLimitStatus("usd", costUsd, def.usd));
+  return out;
+}
+
+const sharedAggregates = new Map<number, { promise: Promise<AggregateResult>; at: number }>();
+
+/** One aggregateUsage scan per distinct period start, reused for a few seconds. */
+function aggregateSince(startMs: number, nowMs: number): Promise<AggregateResult> {
+  for (const [key, entry] of sharedAggregates) {
+    if (nowMs - entry.at >= SHARED_AGGREGATE_MS) sharedAggregates.delete(key);
+  }
+  const shared = sharedAggregates.get(startMs);
+  if (shared) return shared.promise;
+
+  const promise = aggregateUsage({ sinceMs: startMs, untilMs: nowMs });
+  sharedAggregates.set(startMs, { promise, at: nowMs });
+  promise.catch(() => sharedAggregates.delete(startMs));
+  return promise;
+}
+
+/** Current-period usage of one ledger. */
+export async function queryLedgerStatus(
+  def: LedgerConfig,
+  nowMs: number = Date.now(),
+): Promise<LedgerStatus> {
+  const { startMs, endMs } = ledgerWindow(def, nowMs);
+  const result = await aggregateSince(startMs, nowMs);
+  return {
+    startMs,
+    resetTimeIso: new Date(endMs).toISOString(),
+    limits: computeLedgerLimits(def, result),
+  };
+}
@@ -1,4 +1,7 @@
-import { readFileSync } from "fs";
+import { readFileSync, statSync } from "fs";
+import { join } from "path";
+
+import { getOpencodeRuntimeDirs } from "./opencode-runtime-paths.js";
 
 export type CostBuckets = {
   input?: number;
@@ -18,9 +21,41 @@ type Snapshot = {
   providers: Record<string, Record<string, CostBuckets>>;
 };
 
+export type PricingTable = Record<string, Record<string, CostBuckets>>;
+
+/**
+ * Where a model's price came from. Later layers win:
+ * bundled snapshot < imported (/quota_pricing_refresh) < user override file.
+ */
+export type PricingSource = "snapshot" | "imported" | "override";
+
+export type PricingLayerStatus = {
+  path: string;
+  present: boolean;
+  models: number;
+  error?: string;
+  meta?: Snapshot["_meta"];
+};
+
+const COST_KEYS = ["input", "output", "cache_read", "cache_write", "reasoning"] as const;
+
 let SNAPSHOT: Snapshot | null = null;
+let MERGED: PricingTable | null = null;
+let SOURCES: Map<string, PricingSource> | null = null;
+let LAYERS: { imported: PricingLayerStatus; override: PricingLayerStatus } | null = null;
+let LAYER_STAMP: string | null = null;
 let MODEL_INDEX: Map<string, string[]> | null = null;
 
+/** User-maintained price overrides (e.g. negotiated rates), merged on top of everything. */
+export function getPricingOverridePath(): string {
+  return join(getOpencodeRuntimeDirs().configDir, "quota-pricing.json");
+}
+
+/** Pricing imported by /quota_pricing_refresh. */
+export function getImportedPricingPath(): string {
+  return join(getOpencodeRuntimeDirs().cacheDir, "opencode-quota", "modelsdev-pricing.json");
+}
+
 function ensureLoaded(): Snapshot {
   if (SNAPSHOT) return SNAPSHOT;
   const url = new URL("../data/modelsdev-pricing.min.json", import.meta.url);
@@ -29,13 +64,169 @@ function ensureLoaded(): Snapshot {
   return SNAPSHOT;
 }
 
+function normalizeCostBuckets(raw: unknown): CostBuckets | null {
+  if (!raw || typeof raw !== "object") return null;
+  const out: CostBuckets = {};
+  let any = false;
+  for (const key of COST_KEYS) {
+    const v = (raw as Record<string, unknown>)[key];
+    if (typeof v === "number" && Number.isFinite(v) && v >= 0) {
+      out[key] = v;
+      any = true;
+    }
+  }
+  return any ? out : null;
+}
+
+/**
+ * Parse a pricing document. Accepts either this plugin's snapshot shape
+ * (`{ providers: { [provider]: { [model]: costs } } }`) or the models.dev API shape
+ * (`{ [provider]: { models: { [model]: { cost: costs } } } }`).
+ *
+ * `providers` restricts models.dev documents to the given provider ids.
+ * Returns null when no priced model was found.
+ */
+export function parsePricingDocument(
+  raw: unknown,
+  opts?: { providers?: string[] },
+): PricingTable | null {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) return null;
+  const doc = raw as Record<string, unknown>;
+  const out: PricingTable = {};
+  let count = 0;
+
+  const add = (provider: string, model: string, costRaw: unknown) => {
+    const cost = normalizeCostBuckets(costRaw);
+    if (!cost) return;
+    (out[provider] ??= {})[model] = cost;
+    count++;
+  };
+
+  if (doc.providers && typeof doc.providers === "object" && !Array.isArray(doc.providers)) {
+    for (const [provider, models] of Object.entries(doc.providers as Record<string, unknown>)) {
+      if (!models || typeof models !== "object") continue;
+      for (const [model, cost] of Object.entries(models as Record<string, unknown>)) {
+        add(provider, model, cost);
+      }
+    }
+  } else {
+    const allow = opts?.providers ? new Set(opts.providers) : null;
+    for (const [provider, entry] of Object.entries(doc)) {
+      if (allow && !allow.has(provider)) continue;
+      const models = (entry as { models?: unknown } | null)?.models;
+      if (!models || typeof models !== "object") continue;
+      for (const [model, info] of Object.entries(models as Record<string, unknown>)) {
+        add(provider, model, (info as { cost?: unknown } | null)?.cost);
+      }
+    }
+  }
+
+  return count > 0 ? out : null;
+}
+
+function countModels(table: PricingTable): number {
+  return Object.values(table).reduce((n, models) => n + Object.keys(models).length, 0);
+}
+
+function fileStamp(path: string): string {
+  try {
+    const st = statSync(path);
+    return `${st.mtimeMs}:${st.size}`;
+  } catch {
+    return "missing";
+  }
+}
+
+function readLayer(path: string): { table: PricingTable | null; status: PricingLayerStatus } {
+  let raw: string;
+  try {
+    raw = readFileSync(path, "utf-8");
+  } catch {
+    return { table: null, status: { path, present: false, models: 0 } };
+  }
+
+  try {
+    const parsed = JSON.parse(raw) as unknown;
+    const table = parsePricingDocument(parsed);
+    const meta = (parsed as { _meta?: Snapshot["_meta"] })._meta;
+    return {
+      table,
+      status: {
+        path,
+        present: true,
+        models: table ? countModels(table) : 0,
+        error: table ? undefined : "no priced models found",
+        meta: meta && typeof meta === "object" ? meta : undefined,
+      },
+    };
+  } catch (err) {
+    return {
+      table: null,
+      status: {
+        path,
+        present: true,
+        models: 0,
+        error: err instanceof Error ? err.message : String(err),
+      },
+    };
+  }
+}
+
+function currentLayerStamp(): string {
+  return `${fileStamp(getImportedPricingPath())}|${fileStamp(getPricingOverridePath())}`;
+}
+
+function ensureMerged(): PricingTable {
+  if (MERGED) return MERGED;
+
+  const snap = ensureLoaded();
+  const merged: PricingTable = {};
+  const sources = new Map<string, PricingSource>();
+
+  const apply = (table: PricingTable, source: PricingSource) => {
+    for (const [provider, models] of Object.entries(table)) {
+      const target = (merged[provider] ??= {});
+      for (const [model, cost] of Object.entries(models)) {
+        // Field-level merge: an override may set only the rates it changes.
+        target[model] = { ...target[model], ...cost };
+        sources.set(`${provider}/${model}`, source);
+      }
+    }
+  };
+
+  apply(snap.providers, "snapshot");
+  LAYER_STAMP = currentLayerStamp();
+  const imported = readLayer(getImportedPricingPath());
+  if (imported.table) apply(imported.table, "imported");
+  const override = readLayer(getPricingOverridePath());
+  if (override.table) apply(override.table, "override");
+
+  MERGED = merged;
+  SOURCES = sources;
+  LAYERS = { imported: imported.status, override: override.status };
+  MODEL_INDEX = null;
+  return merged;
+}
+
+/**
+ * Drop merged pricing so the next lookup re-reads the imported and override files.
+ * With `ifChanged`, only reloads when either file's mtime/size changed.
+ */
+export function reloadPricing(opts?: { ifChanged?: boolean }): void {
+  if (opts?.ifChanged && MERGED && LAYER_STAMP === currentLayerStamp()) return;
+  MERGED = null;
+  SOURCES = null;
+  LAYERS = null;
+  MODEL_INDEX = null;
+}
+
 function ensureModelIndex(): Map<string, string[]> {
   if (MODEL_INDEX) return MODEL_INDEX;
-  const snap = ensureLoaded();
+  const providers = ensureMerged();
   const idx = new Map<string, string[]>();
 
-  for (const providerId of Object.keys(snap.providers)) {
-    const models = snap.providers[providerId] ?? {};
+  for (const providerId of Object.keys(providers)) {
+    const models = providers[providerId] ?? {};
     for (const modelId of Object.keys(models)) {
       const existing = idx.get(modelId);
       if (existing) existing.push(providerId);
@@ -51,12 +242,23 @@ export function getPricingSnapshotMeta(): Snapshot["_meta"] {
   return ensureLoaded()._meta;
 }
 
+export function getPricingLayers(): { imported: PricingLayerStatus; override: PricingLayerStatus } {
+  ensureMerged();
+  return LAYERS!;
+}
+
+/** Which layer supplied the price for provider/model (null when unpriced). */
+export function getPricingSource(providerId: string, modelId: string): PricingSource | null {
+  ensureMerged();
+  return SOURCES!.get(`${providerId}/${modelId}`) ?? null;
+}
+
 export function hasProvider(providerId: string): boolean {
-  return !!ensureLoaded().providers[providerId];
+  return !!ensureMerged()[providerId];
 }
 
 export function hasModel(providerId: string, modelId: string): boolean {
-  const p = ensureLoaded().providers[providerId];
+  const p = ensureMerged()[providerId];
   if (!p) return false;
   return !!p[modelId];
 }
@@ -72,15 +274,15 @@ export function inferProviderForModelId(modelId: string): string | null {
 }
 
 export function getProviderModelCount(providerId: string): number {
-  return Object.keys(ensureLoaded().providers[providerId] || {}).length;
+  return Object.keys(ensureMerged()[providerId] || {}).length;
 }
 
 export function listProviders(): string[] {
-  return Object.keys(ensureLoaded().providers);
+  return Object.keys(ensureMerged());
 }
 
 export function lookupCost(providerId: string, modelId: string): CostBuckets | null {
-  const p = ensureLoaded().providers[providerId];
+  const p = ensureMerged()[providerId];
   if (!p) return null;
   const c = p[modelId];
   if (!c) return null;
@@ -0,0 +1,142 @@
+/**
+ * Proxy and custom CA settings for provider requests.
+ *
+ * Applied centrally by fetchWithTimeout. The proxy comes from `network.proxy`,
+ * else HTTPS_PROXY / HTTP_PROXY; NO_PROXY exempts hosts either way. Both the
+ * proxy and the CA are passed as Bun fetch options (`proxy`, `tls.ca`), the
+ * runtime OpenCode loads plugins in.
+ */
+
+import { readFile } from "fs/promises";
+import { rootCertificates } from "tls";
+
+import { expandHome } from "./path-pick.js";
+import type { NetworkConfig } from "./types.js";
+
+let networkConfig: NetworkConfig = {};
+let caCache: { path: string; promise: Promise<string | null> } | null = null;
+
+/** Apply experimental.quotaToast.network to every later provider request. */
+export function setNetworkConfig(config: NetworkConfig): void {
+  networkConfig = { ...config };
+  caCache = null;
+}
+
+function env(name: string): string | undefined {
+  const value = process.env[name] ?? process.env[name.toLowerCase()];
+  return value?.trim() || undefined;
+}
+
+/** True when NO_PROXY (comma/space separated hosts, ".suffix" or "*") covers the URL. */
+export function isNoProxyHost(url: URL, noProxy: string | undefined): boolean {
+  if (!noProxy) return false;
+  const host = url.hostname.toLowerCase().replace(/^\[|\]$/g, "");
+  const port = url.port || (url.protocol === "https:" ? "443" : "80");
+
+  for (const raw of noProxy.split(/[,\s]+/)) {
+    const rule = raw.trim().toLowerCase();
+    if (!rule) continue;
+    if (rule === "*") return true;
+
+    let ruleHost = rule;
+    let rulePort: string | undefined;
+    if (rule.startsWith("[")) {
+      ruleHost = rule.slice(1, rule.indexOf("]"));
+      rulePort = rule.split("]:")[1];
+    } else if (rule.split(":").length === 2) {
+      [ruleHost, rulePort] = rule.split(":") as [string, string];
+    }
+    if (rulePort && rulePort !== port) continue;
+
+    const suffix = ruleHost.replace(/^\*?\./, "");
+    if (host === suffix || host.endsWith(`.${suffix}`)) return true;
+  }
+  return false;
+}
+
+export interface EffectiveProxy {
+  url: string;
+  source: "config" | "HTTPS_PROXY" | "HTTP_PROXY";
+}
+
+function configuredProxy(protocol: string): EffectiveProxy | null {
+  if (networkConfig.proxy) return { url: networkConfig.proxy, source: "config" };
+  const https = protocol === "https:" ? env("HTTPS_PROXY") : undefined;
+  if (https) return { url: https, source: "HTTPS_PROXY" };
+  const http = env("HTTP_PROXY");
+  return http ? { url: http, source: "HTTP_PROXY" } : null;
+}
+
+/** The proxy a request to `target` goes through, or null for a direct connection. */
+export function resolveProxy(target: string): EffectiveProxy | null {
+  let url: URL;
+  try {
+    url = new URL(target);
+  } catch {
+    return null;
+  }
+  if (isNoProxyHost(url, env("NO_PROXY"))) return null;
+  return configuredProxy(url.protocol);
+}
+
+/** Drop credentials from a proxy URL before printing it. */
+export function redactProxyUrl(proxy: string): string {
+  try {
+    const url = new URL(proxy);
+    if (!url.username && !url.password) return proxy;
+    url.username = "***";
+    url.password = "";
+    return url.toString().replace(/\/$/, "");
+  } catch {
+    return "(invalid proxy URL)";
+  }
+}
+
+/** PEM contents of network.caFile (read once per path), or null when unset/unreadable. */
+export async function readCaFile(): Promise<string | null> {
+  const path = networkConfig.caFile;
+  if (!path) return null;
+  if (caCache?.path !== path) {
+    caCache = {
+      path,
+      promise: readFile(expandHome(path), "utf-8").then(
+        (pem) => pem,
+        () => null,
+      ),
+    };
+  }
+  return caCache.promise;
+}
+
+/** Add proxy/CA options for `url` to a fetch init (unchanged when neither applies). */
+export async function withNetworkOptions(url: string, init: RequestInit): Promise<RequestInit> {
+  const proxy = resolveProxy(url);
+  const ca = await readCaFile();
+  if (!proxy && !ca) return init;
+
+  // Bun-specific fetch options; other runtimes ignore unknown keys. The private CA
+  // is added to the bundled roots so hosts exempt from the proxy still verify.
+  const extra: { proxy?: string; tls?: { ca: string[] } } = {};
+  if (proxy) extra.proxy = proxy.url;
+  if (ca) extra.tls = { ca: [...rootCertificates, ca] };
+  return { ...init, ...extra } as RequestInit;
+}
+
+/** Lines for /quota_status describing the effective proxy (for HTTPS hosts) and CA. */
+export async function getNetworkDiagnostics(): Promise<string[]> {
+  const proxy = configuredProxy("https:");
+  const lines = [
+    `- proxy: ${proxy ? `${redactProxyUrl(proxy.url)} (${proxy.source})` : "(none)"}`,
+    `- no_proxy: ${env("NO_PROXY") ?? "(none)"}`,
+  ];
+  if (networkConfig.caFile) {
+    const ca = await readCaFile();
+    lines.push(`- ca_file: ${networkConfig.caFile}${ca ? "" : " (unreadable)"}`);
+  } else {
+    lines.push("- ca_file: (none)");
+  }
+  if (!("Bun" in globalThis)) {
+    lines.push("- note: proxy/caFile need the Bun runtime; under Node use NODE_EXTRA_CA_CERTS");
+  }
+  return lines;
+}
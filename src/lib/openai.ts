@@ -5,8 +5,10 @@
  * https://chatgpt.com/backend-api/wham/usage
  */
 
-import type { AuthData, QuotaError } from "./types.js";
-import { fetchWithTimeout } from "./http.js";
+import type { AuthData, ProviderAccountConfig, QuotaError } from "./types.js";
+import { queryAccounts, type AccountCredential, type AccountQueryResult } from "./accounts.js";
+import { getBaseUrl } from "./base-urls.js";
+import { fetchWithRetry } from "./http.js";
 import { readAuthFile } from "./opencode-auth.js";
 import { clampPercent } from "./format-utils.js";
 
@@ -68,10 +70,34 @@ function getAccountIdFromJwt(token: string): string | null {
   return parseJwt(token)?.["https://api.openai.com/auth"]?.chatgpt_account_id ?? null;
 }
 
+/**
+ * A window is blocked when it is fully used, or when the API reports the limit as
+ * reached and it is the most used of the rate-limit windows.
+ */
+function isBlockedWindow(
+  window: RateLimitWindow,
+  limitReached: boolean,
+  others: Array<RateLimitWindow | null | undefined>,
+): boolean {
+  if (window.used_percent >= 100) return true;
+  if (!limitReached) return false;
+  return others.every((o) => !o || o.used_percent <= window.used_percent);
+}
+
 function remainingPercent(window: RateLimitWindow): number {
   return clampPercent(100 - window.used_percent);
 }
 
+function toWindow(
+  remaining: number,
+  resetTimeIso: string | undefined,
+  blocked: boolean,
+): OpenAIWindow {
+  const window: OpenAIWindow = { percentRemaining: clampPercent(remaining), resetTimeIso };
+  if (blocked) window.blocked = true;
+  return window;
+}
+
 function resetIsoFromNowSeconds(seconds: number): string | undefined {
   if (!Number.isFinite(seconds) || seconds <= 0) return undefined;
   return new Date(Date.now() + Math.round(seconds * 1000)).toISOString();
@@ -84,15 +110,36 @@ function resetIsoFromResetAt(resetAt?: number): string | undefined {
   return new Date(ms).toISOString();
 }
 
-function derivePlanLabel(planType: string | undefined): string {
+function derivePlanName(planType: string | undefined): string | undefined {
   const raw = (planType ?? "").toLowerCase();
-  if (raw.includes("pro")) return "OpenAI (Pro)";
-  if (raw.includes("plus")) return "OpenAI (Plus)";
-  if (planType) return `OpenAI (${planType})`;
-  return "OpenAI";
+  if (raw.includes("pro")) return "Pro";
+  if (raw.includes("plus")) return "Plus";
+  return planType || undefined;
 }
 
-const OPENAI_USAGE_URL = "https://chatgpt.com/backend-api/wham/usage";
+/** "OpenAI (Pro)", or "OpenAI Pro (work)" for a configured account. */
+function derivePlanLabel(planType: string | undefined, accountLabel?: string): string {
+  const plan = derivePlanName(planType);
+  if (accountLabel) return plan ? `OpenAI ${plan} (${accountLabel})` : `OpenAI (${accountLabel})`;
+  return plan ? `OpenAI (${plan})` : "OpenAI";
+}
+
+const OPENAI_USAGE_PATH = "/wham/usage";
+
+export interface OpenAIWindow {
+  percentRemaining: number;
+  /** Exact reset time (from reset_at when the API sends it) */
+  resetTimeIso?: string;
+  /** At its limit: requests fail until resetTimeIso unless credits cover them */
+  blocked?: boolean;
+}
+
+export interface OpenAICredits {
+  hasCredits: boolean;
+  unlimited: boolean;
+  /** Remaining credits as sent by the API (a decimal string) */
+  balance: string | null;
+}
 
 export type OpenAIResult =
   | {
@@ -100,15 +147,11 @@ export type OpenAIResult =
       label: string;
       email?: string;
       windows: {
-        hourly?: { percentRemaining: number; resetTimeIso?: string };
-        weekly?: { percentRemaining: number; resetTimeIso?: string };
-        codeReview?: { percentRemaining: number; resetTimeIso?: string };
-      };
-      credits?: {
-        hasCredits: boolean;
-        unlimited: boolean;
-        balance: string | null;
+        hourly?: OpenAIWindow;
+        weekly?: OpenAIWindow;
+        codeReview?: OpenAIWindow;
       };
+      credits?: OpenAICredits;
     }
   | QuotaError
   | null;
@@ -128,10 +171,41 @@ async function readOpenAIAuth(): Promise<OpenAIOAuth | null> {
   return openai as OpenAIOAuth;
 }
 
+function toOpenAIAuth(credential: AccountCredential): OpenAIOAuth | null {
+  if (credential.kind === "token") return { type: "oauth", access: credential.token };
+  const entry = credential.entry;
+  if (entry.type !== "oauth" || typeof entry.access !== "string" || !entry.access) return null;
+  return entry as unknown as OpenAIOAuth;
+}
+
 export async function queryOpenAIQuota(): Promise<OpenAIResult> {
   const auth = await readOpenAIAuth();
   if (!auth) return null;
+  return await queryOpenAIQuotaWithAuth(auth);
+}
 
+/**
+ * Query each configured account. Bare tokens are used as the ChatGPT access token;
+ * JSON files and authKey entries must be OpenAI oauth entries.
+ */
+export async function queryOpenAIAccountsQuota(
+  accounts: ProviderAccountConfig[],
+): Promise<AccountQueryResult<OpenAIResult>[]> {
+  return await queryAccounts<OpenAIResult>(
+    accounts,
+    async (credential, account) => {
+      const auth = toOpenAIAuth(credential);
+      if (!auth) return { success: false, error: "Not an OpenAI oauth credential" };
+      return await queryOpenAIQuotaWithAuth(auth, account.label);
+    },
+    (error) => ({ success: false, error }),
+  );
+}
+
+async function queryOpenAIQuotaWithAuth(
+  auth: OpenAIOAuth,
+  accountLabel?: string,
+): Promise<OpenAIResult> {
   if (auth.expires && auth.expires < Date.now()) {
     return { success: false, error: "Token expired" };
   }
@@ -147,7 +221,7 @@ export async function queryOpenAIQuota(): Promise<OpenAIResult> {
       headers["ChatGPT-Account-Id"] = accountId;
     }
 
-    const resp = await fetchWithTimeout(OPENAI_USAGE_URL, { headers });
+    const resp = await fetchWithRetry(`${getBaseUrl("openai")}${OPENAI_USAGE_PATH}`, { headers });
     if (!resp.ok) {
       const text = await resp.text();
       return {
@@ -164,6 +238,11 @@ export async function queryOpenAIQuota(): Promise<OpenAIResult> {
 
     if (!primary) return { success: false, error: "No quota data" };
 
+    const limitReached = Boolean(data.rate_limit?.limit_reached);
+    const hourlyBlocked = isBlockedWindow(primary, limitReached, [secondary]);
+    const weeklyBlocked = secondary ? isBlockedWindow(secondary, limitReached, [primary]) : false;
+    const codeReviewBlocked = codeReview ? isBlockedWindow(codeReview, false, []) : false;
+
     const hourlyRemain = remainingPercent(primary);
     const weeklyRemain = secondary ? remainingPercent(secondary) : undefined;
     const codeReviewRemain = codeReview ? remainingPercent(codeReview) : undefined;
@@ -181,21 +260,18 @@ export async function queryOpenAIQuota(): Promise<OpenAIResult> {
 
     return {
       success: true,
-      label: derivePlanLabel(data.plan_type),
+      label: derivePlanLabel(data.plan_type, accountLabel),
       email: getEmailFromJwt(auth.access) ?? undefined,
       windows: {
-        hourly: { percentRemaining: clampPercent(hourlyRemain), resetTimeIso: hourlyResetIso },
+        hourly: toWindow(hourlyRemain, hourlyResetIso, hourlyBlocked),
         weekly:
           weeklyRemain === undefined
             ? undefined
-            : { percentRemaining: clampPercent(weeklyRemain), resetTimeIso: weeklyResetIso },
+            : toWindow(weeklyRemain, weeklyResetIso, weeklyBlocked),
         codeReview:
           codeReviewRemain === undefined
             ? undefined
-            : {
-                percentRemaining: clampPercent(codeReviewRemain),
-                resetTimeIso: codeReviewResetIso,
-              },
+            : toWindow(codeReviewRemain, codeReviewResetIso, codeReviewBlocked),
       },
       credits: credits
         ? {
@@ -0,0 +1,103 @@
+/**
+ * OpenRouter API key configuration resolver
+ *
+ * Resolution priority (first wins):
+ * 1. Environment variable: OPENROUTER_API_KEY
+ * 2. opencode.json/opencode.jsonc: provider.openrouter.options.apiKey
+ *    - Supports {env:VAR_NAME}, {file:/path} and {cmd:command} references
+ * 3. auth.json: openrouter.key (set by `opencode auth login`)
+ */
+
+import { readAuthFile } from "./opencode-auth.js";
+import { resolveApiKey, getApiKeyDiagnostics } from "./api-key-resolver.js";
+
+/** Result of OpenRouter API key resolution */
+export interface OpenRouterApiKeyResult {
+  key: string;
+  source: OpenRouterKeySource;
+  /** Secret reference the config value pointed at, e.g. "cmd:pass" */
+  via?: string;
+}
+
+/** Source of the resolved API key */
+export type OpenRouterKeySource =
+  "env:OPENROUTER_API_KEY" | "opencode.json" | "opencode.jsonc" | "auth.json";
+
+/**
+ * Extract OpenRouter API key from opencode config object
+ *
+ * Looks for: provider.openrouter.options.apiKey
+ */
+function extractOpenRouterKeyFromConfig(config: unknown): string | null {
+  if (!config || typeof config !== "object") return null;
+
+  const provider = (config as Record<string, unknown>).provider;
+  if (!provider || typeof provider !== "object") return null;
+
+  const openrouter = (provider as Record<string, unknown>).openrouter;
+  if (!openrouter || typeof openrouter !== "object") return null;
+
+  const options = (openrouter as Record<string, unknown>).options;
+  if (!options || typeof options !== "object") return null;
+
+  const apiKey = (options as Record<string, unknown>).apiKey;
+  if (typeof apiKey !== "string" || apiKey.trim().length === 0) return null;
+
+  // {env:}/{file:}/{cmd:} references are resolved by resolveApiKey
+  return apiKey.trim();
+}
+
+/**
+ * Extract OpenRouter API key from auth.json
+ */
+function extractOpenRouterKeyFromAuth(auth: unknown): string | null {
+  if (!auth || typeof auth !== "object") return null;
+  const openrouter = (auth as Record<string, unknown>).openrouter as
+    { type?: string; key?: string } | undefined;
+  if (openrouter && openrouter.type === "api" && openrouter.key && openrouter.key.trim()) {
+    return openrouter.key.trim();
+  }
+  return null;
+}
+
+/**
+ * Resolve OpenRouter API key from all available sources.
+ *
+ * @returns API key and source, or null if not found
+ */
+export async function resolveOpenRouterApiKey(): Promise<OpenRouterApiKeyResult | null> {
+  return resolveApiKey<OpenRouterKeySource>(
+    {
+      envVars: [{ name: "OPENROUTER_API_KEY", source: "env:OPENROUTER_API_KEY" }],
+      extractFromConfig: extractOpenRouterKeyFromConfig,
+      configJsonSource: "opencode.json",
+      configJsoncSource: "opencode.jsonc",
+      extractFromAuth: extractOpenRouterKeyFromAuth,
+      authSource: "auth.json",
+    },
+    readAuthFile,
+  );
+}
+
+/**
+ * Check if an OpenRouter API key is configured
+ */
+export async function hasOpenRouterApiKey(): Promise<boolean> {
+  const result = await resolveOpenRouterApiKey();
+  return result !== null;
+}
+
+/**
+ * Get diagnostic info about OpenRouter API key configuration
+ */
+export async function getOpenRouterKeyDiagnostics(): Promise<{
+  configured: boolean;
+  source: OpenRouterKeySource | null;
+  via: string | null;
+  checkedPaths: string[];
+}> {
+  return getApiKeyDiagnostics<OpenRouterKeySource>({
+    envVarNames: ["OPENROUTER_API_KEY"],
+    resolve: resolveOpenRouterApiKey,
+  });
+}
@@ -0,0 +1,129 @@
+/**
+ * OpenRouter quota fetcher
+ *
+ * Resolves API key from multiple sources and queries:
+ * - https://openrouter.ai/api/v1/key (limit and usage of the key itself)
+ * - https://openrouter.ai/api/v1/credits (account credit balance)
+ */
+
+import type { OpenRouterKeyLimit, OpenRouterResult } from "./types.js";
+import { getBaseUrl } from "./base-urls.js";
+import { fetchWithRetry } from "./http.js";
+import { clampPercent } from "./format-utils.js";
+import { resolveOpenRouterApiKey, hasOpenRouterApiKey } from "./openrouter-config.js";
+
+interface OpenRouterKeyResponse {
+  data?: {
+    limit?: number | null;
+    limit_remaining?: number | null;
+    limit_reset?: string | null;
+    usage?: number;
+  };
+}
+
+interface OpenRouterCreditsResponse {
+  data?: {
+    total_credits?: number;
+    total_usage?: number;
+  };
+}
+
+const OPENROUTER_KEY_PATH = "/key";
+const OPENROUTER_CREDITS_PATH = "/credits";
+
+export async function hasOpenRouterApiKeyConfigured(): Promise<boolean> {
+  return await hasOpenRouterApiKey();
+}
+
+export { getOpenRouterKeyDiagnostics, type OpenRouterKeySource } from "./openrouter-config.js";
+
+/** Next key limit reset. OpenRouter resets limits at midnight UTC (weeks start Monday). */
+export function getOpenRouterLimitResetIso(
+  reset: string | null | undefined,
+  nowMs: number = Date.now(),
+): string | undefined {
+  const now = new Date(nowMs);
+  const y = now.getUTCFullYear();
+  const m = now.getUTCMonth();
+  const d = now.getUTCDate();
+  if (reset === "daily") return new Date(Date.UTC(y, m, d + 1)).toISOString();
+  if (reset === "weekly") {
+    const daysToMonday = 7 - ((now.getUTCDay() + 6) % 7);
+    return new Date(Date.UTC(y, m, d + daysToMonday)).toISOString();
+  }
+  if (reset === "monthly") return new Date(Date.UTC(y, m + 1, 1)).toISOString();
+  return undefined;
+}
+
+async function getJson<T>(path: string, key: string): Promise<T> {
+  const resp = await fetchWithRetry(`${getBaseUrl("openrouter")}${path}`, {
+    method: "GET",
+    headers: {
+      Authorization: `Bearer ${key}`,
+      "User-Agent": "OpenCode-Quota-Toast/1.0",
+    },
+  });
+
+  if (!resp.ok) {
+    const text = await resp.text();
+    throw new Error(`OpenRouter API error ${resp.status}: ${text.slice(0, 120)}`);
+  }
+  return (await resp.json()) as T;
+}
+
+function errorMessage(err: unknown): string {
+  return err instanceof Error ? err.message : String(err);
+}
+
+function isNumber(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value);
+}
+
+export async function queryOpenRouterQuota(): Promise<OpenRouterResult> {
+  const auth = await resolveOpenRouterApiKey();
+  if (!auth) return null;
+
+  // The key endpoint works for every key; credits may need a management key.
+  const [keyInfo, credits] = await Promise.allSettled([
+    getJson<OpenRouterKeyResponse>(OPENROUTER_KEY_PATH, auth.key),
+    getJson<OpenRouterCreditsResponse>(OPENROUTER_CREDITS_PATH, auth.key),
+  ]);
+
+  if (keyInfo.status === "rejected") {
+    return { success: false, error: errorMessage(keyInfo.reason) };
+  }
+
+  const key = keyInfo.value.data ?? {};
+  let limit: OpenRouterKeyLimit | undefined;
+  if (isNumber(key.limit) && key.limit > 0) {
+    const remaining = isNumber(key.limit_remaining)
+      ? key.limit_remaining
+      : key.limit - (isNumber(key.usage) ? key.usage : 0);
+    limit = {
+      limitUsd: key.limit,
+      remainingUsd: Math.max(0, remaining),
+      percentRemaining: clampPercent((remaining / key.limit) * 100),
+      resetTimeIso: getOpenRouterLimitResetIso(key.limit_reset),
+    };
+  }
+
+  let creditsRemainingUsd: number | undefined;
+  let creditsError: string | undefined;
+  if (credits.status === "rejected") {
+    creditsError = errorMessage(credits.reason);
+  } else {
+    const data = credits.value.data;
+    if (data && isNumber(data.total_credits) && isNumber(data.total_usage)) {
+      creditsRemainingUsd = data.total_credits - data.total_usage;
+    } else {
+      creditsError = "OpenRouter credits response missing totals";
+    }
+  }
+
+  return {
+    success: true,
+    creditsRemainingUsd,
+    creditsError,
+    limit,
+  };
+}
@@ -1,4 +1,13 @@
 import { existsSync } from "fs";
+import { homedir } from "os";
+import { join } from "path";
+
+/** Expand a leading "~" to the home directory (config paths are user-typed). */
+export function expandHome(path: string, home = homedir()): string {
+  if (path === "~") return home;
+  if (path.startsWith("~/") || path.startsWith("~\\")) return join(home, path.slice(2));
+  return path;
+}
 
 export function pickFirstExistingPath(candidates: string[]): string {
   for (const p of candidates) {
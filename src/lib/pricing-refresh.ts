@@ -0,0 +1,112 @@
+/**
+ * /quota_pricing_refresh: import a models.dev-format pricing document from a
+ * file or URL and cache it as the "imported" pricing layer.
+ */
+
+import { readFile } from "fs/promises";
+import { isAbsolute, resolve } from "path";
+
+import { writeFileAtomic } from "./atomic-write.js";
+import { fetchWithTimeout } from "./http.js";
+import {
+  getImportedPricingPath,
+  getPricingSnapshotMeta,
+  parsePricingDocument,
+  reloadPricing,
+} from "./modelsdev-pricing.js";
+import { expandHome } from "./path-pick.js";
+
+export const DEFAULT_PRICING_SOURCE = "https://models.dev/api.json";
+
+export type PricingRefreshResult =
+  | { ok: true; source: string; path: string; providers: string[]; models: number }
+  | { ok: false; source: string; error: string };
+
+function resolveLocalPath(source: string, baseDir: string): string {
+  const path = expandHome(source);
+  return isAbsolute(path) ? path : resolve(baseDir, path);
+}
+
+async function readPricingSource(source: string, baseDir: string): Promise<unknown> {
+  if (/^https?:\/\//i.test(source)) {
+    // models.dev api.json is a few MB; allow more time than provider quota calls.
+    const resp = await fetchWithTimeout(
+      source,
+      { headers: { Accept: "application/json", "User-Agent": "OpenCode-Quota-Toast/1.0" } },
+      30_000,
+    );
+    if (!resp.ok) {
+      throw new Error(`HTTP ${resp.status}: ${(await resp.text()).slice(0, 120)}`);
+    }
+    return await resp.json();
+  }
+  return JSON.parse(await readFile(resolveLocalPath(source, baseDir), "utf-8"));
+}
+
+/**
+ * Import pricing and cache it. models.dev documents are limited to `providers`
+ * (default: the providers covered by the bundled snapshot) so that model-id
+ * inference is not diluted by resellers listing the same models.
+ */
+export async function refreshPricing(params: {
+  source?: string;
+  providers?: string[];
+  baseDir: string;
+  nowMs?: number;
+}): Promise<PricingRefreshResult> {
+  const source = params.source?.trim() || DEFAULT_PRICING_SOURCE;
+  const providers = params.providers ?? getPricingSnapshotMeta().providers;
+
+  let table;
+  try {
+    table = parsePricingDocument(await readPricingSource(source, params.baseDir), { providers });
+  } catch (err) {
+    return { ok: false, source, error: err instanceof Error ? err.message : String(err) };
+  }
+  if (!table) {
+    return { ok: false, source, error: "No priced models found in document" };
+  }
+
+  const path = getImportedPricingPath();
+  const importedProviders = Object.keys(table).sort();
+  const doc = {
+    _meta: {
+      source,
+      generatedAt: params.nowMs ?? Date.now(),
+      providers: importedProviders,
+      units: "USD per 1M tokens",
+    },
+    providers: table,
+  };
+
+  try {
+    await writeFileAtomic(path, JSON.stringify(doc));
+  } catch (err) {
+    return { ok: false, source, error: err instanceof Error ? err.message : String(err) };
+  }
+  reloadPricing();
+
+  return {
+    ok: true,
+    source,
+    path,
+    providers: importedProviders,
+    models: Object.values(table).reduce((n, models) => n + Object.keys(models).length, 0),
+  };
+}
+
+export function formatPricingRefreshResult(result: PricingRefreshResult): string {
+  if (!result.ok) {
+    return `Pricing refresh failed\n\nsource: ${result.source}\nerror: ${result.error}`;
+  }
+  return [
+    "Pricing refreshed",
+    "",
+    `source: ${result.source}`,
+    `cached: ${result.path}`,
+    `providers: ${result.providers.join(",")}`,
+    `models: ${result.models}`,
+    "",
+    "Imported prices override the bundled snapshot; quota-pricing.json overrides both.",
+  ].join("\n");
+}
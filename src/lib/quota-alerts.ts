@@ -0,0 +1,230 @@
+/**
+ * Threshold alerts for quota entries.
+ *
+ * Config maps provider ids (or "*") to percent-remaining thresholds, e.g.
+ * `{ "copilot": [50, 20, 5], "*": [10] }`. When an entry drops to or below a
+ * threshold, one alert is raised; the threshold stays silent until the entry's
+ * window resets. Fired thresholds are persisted so restarts do not re-alert.
+ */
+
+import { readFile } from "fs/promises";
+import { join } from "path";
+
+import { writeFileAtomic } from "./atomic-write.js";
+import type { QuotaToastEntry } from "./entries.js";
+import { isPercentEntry } from "./entries.js";
+import { clampPercent, formatResetCountdown } from "./format-utils.js";
+import { getOpencodeRuntimeDirs } from "./opencode-runtime-paths.js";
+
+const QUOTA_ALERT_STATE_VERSION = 1 as const;
+/** Reset timestamps computed from "seconds until reset" drift between fetches. */
+const RESET_TIME_TOLERANCE_MS = 15 * 60 * 1000;
+/** A rise of more than this many points means the window reset (used when no reset time). */
+const RESET_JUMP_POINTS = 10;
+const STATE_RETENTION_MS = 45 * 24 * 60 * 60 * 1000;
+
+export interface QuotaAlertEntryState {
+  /** Reset time of the window the fired thresholds belong to */
+  resetTimeIso?: string;
+  /** Thresholds already alerted in this window */
+  fired: number[];
+  lastPercent: number;
+  updatedAt: number;
+}
+
+export interface QuotaAlertStateFileV1 {
+  version: 1;
+  entries: Record<string, QuotaAlertEntryState>;
+  updatedAt: number;
+}
+
+export interface QuotaAlert {
+  providerId: string;
+  name: string;
+  percentRemaining: number;
+  /** Lowest threshold crossed by this update */
+  threshold: number;
+  resetTimeIso?: string;
+  variant: "warning" | "error";
+}
+
+function defaultState(nowMs: number): QuotaAlertStateFileV1 {
+  return { version: QUOTA_ALERT_STATE_VERSION, entries: {}, updatedAt: nowMs };
+}
+
+function normalizeEntryState(raw: unknown): QuotaAlertEntryState | null {
+  if (!raw || typeof raw !== "object") return null;
+  const obj = raw as Partial<QuotaAlertEntryState>;
+  if (typeof obj.updatedAt !== "number" || !Number.isFinite(obj.updatedAt)) return null;
+  return {
+    resetTimeIso: typeof obj.resetTimeIso === "string" ? obj.resetTimeIso : undefined,
+    fired: Array.isArray(obj.fired)
+      ? obj.fired.filter((x): x is number => typeof x === "number" && Number.isFinite(x))
+      : [],
+    lastPercent:
+      typeof obj.lastPercent === "number" && Number.isFinite(obj.lastPercent)
+        ? clampPercent(obj.lastPercent)
+        : 100,
+    updatedAt: Math.trunc(obj.updatedAt),
+  };
+}
+
+function normalizeState(raw: unknown, nowMs: number): QuotaAlertStateFileV1 {
+  if (!raw || typeof raw !== "object") return defaultState(nowMs);
+  const obj = raw as Partial<QuotaAlertStateFileV1>;
+  const entries: Record<string, QuotaAlertEntryState> = {};
+  if (obj.entries && typeof obj.entries === "object") {
+    for (const [name, value] of Object.entries(obj.entries)) {
+      const entry = normalizeEntryState(value);
+      if (entry && nowMs - entry.updatedAt < STATE_RETENTION_MS) entries[name] = entry;
+    }
+  }
+  return {
+    version: QUOTA_ALERT_STATE_VERSION,
+    entries,
+    updatedAt:
+      typeof obj.updatedAt === "number" && Number.isFinite(obj.updatedAt) && obj.updatedAt > 0
+        ? Math.trunc(obj.updatedAt)
+        : nowMs,
+  };
+}
+
+function isSameWindow(
+  prev: QuotaAlertEntryState,
+  resetTimeIso: string | undefined,
+  percentRemaining: number,
+): boolean {
+  if (percentRemaining > prev.lastPercent + RESET_JUMP_POINTS) return false;
+  if (!prev.resetTimeIso || !resetTimeIso) return true;
+  const a = new Date(prev.resetTimeIso).getTime();
+  const b = new Date(resetTimeIso).getTime();
+  if (!Number.isFinite(a) || !Number.isFinite(b)) return prev.resetTimeIso === resetTimeIso;
+  return Math.abs(a - b) <= RESET_TIME_TOLERANCE_MS;
+}
+
+/**
+ * Thresholds for a provider: its own list when configured, otherwise the "*" list.
+ * Returned in descending order.
+ */
+export function getAlertThresholds(alerts: Record<string, number[]>, providerId: string): number[] {
+  const list = alerts[providerId] ?? alerts["*"] ?? [];
+  return [...list].sort((a, b) => b - a);
+}
+
+/**
+ * Compare fresh entries against persisted alert state.
+ *
+ * Pure: returns the alerts to show and the next state without touching disk.
+ */
+export function evaluateQuotaAlerts(params: {
+  providerId: string;
+  entries: QuotaToastEntry[];
+  thresholds: number[];
+  state: QuotaAlertStateFileV1;
+  nowMs?: number;
+}): { alerts: QuotaAlert[]; state: QuotaAlertStateFileV1 } {
+  const nowMs = params.nowMs ?? Date.now();
+  const thresholds = [...params.thresholds].sort((a, b) => b - a);
+  const entries = { ...params.state.entries };
+  const alerts: QuotaAlert[] = [];
+
+  if (thresholds.length === 0) {
+    return { alerts, state: params.state };
+  }
+  const lowest = thresholds[thresholds.length - 1]!;
+
+  for (const entry of params.entries) {
+    if (!isPercentEntry(entry)) continue;
+    const pct = clampPercent(entry.percentRemaining);
+    const prev = entries[entry.name];
+    const fired = prev && isSameWindow(prev, entry.resetTimeIso, pct) ? [...prev.fired] : [];
+
+    const crossed = thresholds.filter((t) => pct <= t && !fired.includes(t));
+    if (crossed.length > 0) {
+      const threshold = crossed[crossed.length - 1]!;
+      alerts.push({
+        providerId: params.providerId,
+        name: entry.name,
+        percentRemaining: pct,
+        threshold,
+        resetTimeIso: entry.resetTimeIso,
+        variant: threshold === lowest ? "error" : "warning",
+      });
+      fired.push(...crossed);
+    }
+
+    entries[entry.name] = {
+      resetTimeIso: entry.resetTimeIso ?? prev?.resetTimeIso,
+      fired,
+      lastPercent: pct,
+      updatedAt: nowMs,
+    };
+  }
+
+  return {
+    alerts,
+    state: { version: QUOTA_ALERT_STATE_VERSION, entries, updatedAt: nowMs },
+  };
+}
+
+/**
+ * Render alerts as toast text, e.g. "⚠ Copilot: 18% left (below 20%, resets in 3d 4h)".
+ */
+export function formatQuotaAlerts(alerts: QuotaAlert[]): string {
+  return alerts
+    .map((a) => {
+      const reset = formatResetCountdown(a.resetTimeIso);
+      const resetPart = reset && reset !== "reset" ? `, resets in ${reset}` : "";
+      return `⚠ ${a.name}: ${a.percentRemaining}% left (below ${a.threshold}%${resetPart})`;
+    })
+    .join("\n");
+}
+
+async function readStateFromDisk(path: string, nowMs: number): Promise<QuotaAlertStateFileV1> {
+  try {
+    const raw = await readFile(path, "utf-8");
+    return normalizeState(JSON.parse(raw), nowMs);
+  } catch {
+    return defaultState(nowMs);
+  }
+}
+
+export function getQuotaAlertStatePath(): string {
+  const { stateDir } = getOpencodeRuntimeDirs();
+  return join(stateDir, "opencode-quota", "quota-alerts.json");
+}
+
+// Serialize read-modify-write cycles across concurrent provider fetches.
+let writeChain: Promise<unknown> = Promise.resolve();
+
+/**
+ * Evaluate alerts for one provider's fresh entries and persist fired thresholds.
+ */
+export async function checkQuotaAlerts(params: {
+  providerId: string;
+  entries: QuotaToastEntry[];
+  alerts: Record<string, number[]>;
+  nowMs?: number;
+}): Promise<QuotaAlert[]> {
+  const thresholds = getAlertThresholds(params.alerts, params.providerId);
+  if (thresholds.length === 0) return [];
+
+  const run = async (): Promise<QuotaAlert[]> => {
+    const nowMs = params.nowMs ?? Date.now();
+    const path = getQuotaAlertStatePath();
+    const state = await readStateFromDisk(path, nowMs);
+    const next = evaluateQuotaAlerts({
+      providerId: params.providerId,
+      entries: params.entries,
+      thresholds,
+      state,
+      nowMs,
+    });
+    await writeFileAtomic(path, JSON.stringify(next.state));
+    return next.alerts;
+  };
+
+  const result = writeChain.then(run, run);
+  writeChain = result.catch(() => undefined);
+  return result;
+}
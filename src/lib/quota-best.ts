@@ -0,0 +1,270 @@
+/**
+ * Antigravity account rotation: rank accounts per model family and name the
+ * best one to use next (/quota_best and the optional toast line).
+ */
+
+import {
+  queryGoogleQuotaByAccount,
+  type GoogleAccountQuota,
+  type GoogleQuotaByAccount,
+} from "./google.js";
+import { formatResetCountdown } from "./format-utils.js";
+import { renderMarkdownTable } from "./markdown-table.js";
+import type { GoogleModelId } from "./types.js";
+
+/** Families used by opencode-antigravity-auth's activeIndexByFamily. */
+export type AntigravityFamily = "claude" | "gemini";
+
+const FAMILY_MODELS: Record<AntigravityFamily, GoogleModelId[]> = {
+  claude: ["CLAUDE"],
+  gemini: ["G3PRO", "G3FLASH"],
+};
+
+const FAMILY_LABELS: Record<AntigravityFamily, string> = {
+  claude: "Claude",
+  gemini: "Gemini",
+};
+
+export interface AccountCandidate {
+  index: number;
+  email?: string;
+  /** Lowest remaining percent across the family's models */
+  percentRemaining?: number;
+  /** Earliest quota reset across the family's models */
+  resetTimeIso?: string;
+  /** Set when the account is rate limited for this family */
+  rateLimitedUntilMs?: number;
+  error?: string;
+}
+
+export interface FamilyRecommendation {
+  family: AntigravityFamily;
+  /** Best first */
+  ranked: AccountCandidate[];
+  best?: AccountCandidate;
+  activeIndex?: number;
+  /** True when the active account is known and strictly worse than the best one */
+  switchRecommended: boolean;
+}
+
+export interface QuotaBestResult {
+  generatedAtMs: number;
+  families: FamilyRecommendation[];
+}
+
+function toCandidate(
+  account: GoogleAccountQuota,
+  family: AntigravityFamily,
+  nowMs: number,
+): AccountCandidate {
+  const models = account.models.filter((m) => FAMILY_MODELS[family].includes(m.modelId));
+
+  let rateLimitedUntilMs: number | undefined;
+  for (const [key, until] of Object.entries(account.rateLimitResetTimes ?? {})) {
+    // Keys look like "claude", "gemini-antigravity", "gemini-cli".
+    if (key !== family && !key.startsWith(`${family}-`)) continue;
+    if (typeof until === "number" && until > nowMs) {
+      rateLimitedUntilMs = Math.max(rateLimitedUntilMs ?? 0, until);
+    }
+  }
+
+  const resets = models
+    .map((m) => m.resetTimeIso)
+    .filter((iso): iso is string => !!iso && Number.isFinite(Date.parse(iso)))
+    .sort((a, b) => Date.parse(a) - Date.parse(b));
+
+  return {
+    index: account.index,
+    email: account.email,
+    percentRemaining: models.length
+      ? Math.min(...models.map((m) => m.percentRemaining))
+      : undefined,
+    resetTimeIso: resets[0],
+    rateLimitedUntilMs,
+    error: account.error ?? (models.length === 0 ? "No quota data" : undefined),
+  };
+}
+
+/** When the account can serve this family again (nowMs when usable right away). */
+function availableAtMs(c: AccountCandidate, nowMs: number): number {
+  let at = c.rateLimitedUntilMs ?? nowMs;
+  if (c.percentRemaining === 0) {
+    const reset = c.resetTimeIso ? Date.parse(c.resetTimeIso) : Number.POSITIVE_INFINITY;
+    at = Math.max(at, reset);
+  }
+  return at;
+}
+
+/**
+ * Order: usable accounts by remaining percent (sooner reset breaks ties), then
+ * exhausted/rate-limited accounts by when they become usable, then failures.
+ * Returns 0 for equally good accounts.
+ */
+function compareCandidates(a: AccountCandidate, b: AccountCandidate, nowMs: number): number {
+  const aFailed = a.error !== undefined || a.percentRemaining === undefined;
+  const bFailed = b.error !== undefined || b.percentRemaining === undefined;
+  if (aFailed !== bFailed) return aFailed ? 1 : -1;
+  if (aFailed) return 0;
+
+  const aAt = availableAtMs(a, nowMs);
+  const bAt = availableAtMs(b, nowMs);
+  const aUsable = aAt <= nowMs;
+  const bUsable = bAt <= nowMs;
+  if (aUsable !== bUsable) return aUsable ? -1 : 1;
+  if (!aUsable) return aAt - bAt;
+
+  if (a.percentRemaining !== b.percentRemaining) return b.percentRemaining! - a.percentRemaining!;
+  const aReset = a.resetTimeIso ? Date.parse(a.resetTimeIso) : Number.POSITIVE_INFINITY;
+  const bReset = b.resetTimeIso ? Date.parse(b.resetTimeIso) : Number.POSITIVE_INFINITY;
+  if (aReset !== bReset) return aReset < bReset ? -1 : 1;
+  return 0;
+}
+
+export function rankAccountsForFamily(params: {
+  family: AntigravityFamily;
+  accounts: GoogleAccountQuota[];
+  activeIndex?: number;
+  nowMs: number;
+}): FamilyRecommendation {
+  // On ties, keep the active account first so we never suggest a pointless switch.
+  const rank = (c: AccountCandidate) => (c.index === params.activeIndex ? -1 : c.index);
+  const ranked = params.accounts
+    .map((a) => toCandidate(a, params.family, params.nowMs))
+    .sort((a, b) => compareCandidates(a, b, params.nowMs) || rank(a) - rank(b));
+
+  const best = ranked[0] && !ranked[0].error ? ranked[0] : undefined;
+  const active =
+    params.activeIndex === undefined
+      ? undefined
+      : ranked.find((c) => c.index === params.activeIndex);
+
+  const switchRecommended =
+    !!best &&
+    params.activeIndex !== undefined &&
+    best.index !== params.activeIndex &&
+    (!active || compareCandidates(active, best, params.nowMs) > 0);
+
+  return {
+    family: params.family,
+    ranked,
+    best,
+    activeIndex: params.activeIndex,
+    switchRecommended,
+  };
+}
+
+/**
+ * Query every Antigravity account and rank them per family (/quota_best).
+ * Returns null when no accounts are configured.
+ */
+export async function recommendAntigravityAccounts(params?: {
+  nowMs?: number;
+}): Promise<QuotaBestResult | null> {
+  const families = Object.keys(FAMILY_MODELS) as AntigravityFamily[];
+  const data = await queryGoogleQuotaByAccount(families.flatMap((f) => FAMILY_MODELS[f]));
+  return data ? rankAntigravityAccounts(data, params?.nowMs ?? Date.now()) : null;
+}
+
+/**
+ * Rank accounts already fetched, e.g. the Antigravity provider result behind the
+ * toast rows, so the toast line matches them and makes no extra quota calls.
+ */
+export function rankAntigravityAccounts(
+  data: GoogleQuotaByAccount,
+  nowMs: number = Date.now(),
+): QuotaBestResult {
+  const families = Object.keys(FAMILY_MODELS) as AntigravityFamily[];
+  return {
+    generatedAtMs: nowMs,
+    families: families.map((family) =>
+      rankAccountsForFamily({
+        family,
+        accounts: data.accounts,
+        activeIndex: data.file.activeIndexByFamily?.[family] ?? data.file.activeIndex,
+        nowMs,
+      }),
+    ),
+  };
+}
+
+function accountName(c: AccountCandidate): string {
+  return `#${c.index + 1} ${c.email ?? "Unknown"}`;
+}
+
+function candidateStatus(c: AccountCandidate, rec: FamilyRecommendation, nowMs: number): string {
+  const tags: string[] = [];
+  if (rec.best && c.index === rec.best.index) tags.push("best");
+  if (c.index === rec.activeIndex) tags.push("active");
+  if (c.error) {
+    tags.push(`error: ${c.error}`);
+  } else if (c.rateLimitedUntilMs && c.rateLimitedUntilMs > nowMs) {
+    tags.push(
+      `rate limited (${formatResetCountdown(new Date(c.rateLimitedUntilMs).toISOString())})`,
+    );
+  } else if (c.percentRemaining === 0) {
+    tags.push("exhausted");
+  }
+  return tags.join(", ");
+}
+
+export function formatQuotaBestReport(result: QuotaBestResult | null): string {
+  const lines: string[] = ["Best Antigravity account (/quota_best)", ""];
+
+  if (!result) {
+    lines.push("No Antigravity accounts configured (antigravity-accounts.json not found).");
+    return lines.join("\n");
+  }
+
+  const nowMs = result.generatedAtMs;
+  for (const rec of result.families) {
+    lines.push(`## ${FAMILY_LABELS[rec.family]}`);
+    lines.push("");
+
+    if (!rec.best) {
+      lines.push("No account has quota data for this family.");
+    } else {
+      const reset = formatResetCountdown(rec.best.resetTimeIso);
+      lines.push(
+        `Best: ${accountName(rec.best)} (${rec.best.percentRemaining}% left${reset ? `, resets in ${reset}` : ""})`,
+      );
+      const active = rec.ranked.find((c) => c.index === rec.activeIndex);
+      if (rec.switchRecommended) {
+        lines.push(
+          `Active: ${active ? accountName(active) : `#${rec.activeIndex! + 1}`} is not the best choice; switch to #${rec.best.index + 1}.`,
+        );
+      } else if (active) {
+        lines.push(`Active: ${accountName(active)}`);
+      }
+    }
+
+    lines.push("");
+    lines.push(
+      renderMarkdownTable({
+        headers: ["Account", "Left", "Resets", "Status"],
+        aligns: ["left", "right", "right", "left"],
+        rows: rec.ranked.map((c) => [
+          accountName(c),
+          c.percentRemaining === undefined ? "-" : `${c.percentRemaining}%`,
+          formatResetCountdown(c.resetTimeIso, { missing: "-" }),
+          candidateStatus(c, rec, nowMs),
+        ]),
+      }),
+    );
+    lines.push("");
+  }
+
+  return lines.join("\n").trimEnd();
+}
+
+/** Compact toast line, e.g. "Best: Claude #2 bob (switch) | Gemini #1 alice". */
+export function formatBestAccountToastLine(result: QuotaBestResult | null): string | null {
+  if (!result) return null;
+  const parts = result.families
+    .filter((rec) => rec.best)
+    .map((rec) => {
+      const who = rec.best!.email?.split("@")[0] ?? "Unknown";
+      const flag = rec.switchRecommended ? " (switch)" : "";
+      return `${FAMILY_LABELS[rec.family]} #${rec.best!.index + 1} ${who}${flag}`;
+    });
+  return parts.length > 0 ? `Best: ${parts.join(" | ")}` : null;
+}
@@ -5,11 +5,19 @@
  * - Always shows reset countdown when available
  * - Uses one line per limit, grouped under provider headers
  * - Includes session token summary (input/output per model)
+ * - Shows a history sparkline and change since the previous snapshot
+ * - Adds a burn-rate forecast section when history is available
  */
 
 import type { QuotaToastError, SessionTokensData } from "./entries.js";
-import { isValueEntry } from "./entries.js";
-import { bar, clampInt, padRight } from "./format-utils.js";
+import { isValueEntry, withStaleMarker } from "./entries.js";
+import { bar, clampInt, padRight, sparkline } from "./format-utils.js";
+import { quotaHistoryKey, type QuotaHistorySample } from "./quota-history.js";
+import {
+  formatForecastDuration,
+  formatForecastMarker,
+  type QuotaForecast,
+} from "./quota-forecast.js";
 import type { ToastGroupEntry } from "./toast-format-grouped.js";
 import { renderSessionTokensLines } from "./session-tokens-format.js";
 
@@ -33,6 +41,42 @@ function formatResetsIn(iso?: string): string {
   return ` (resets in ${formatResetTimeSeconds(diffSeconds)})`;
 }
 
+const SPARKLINE_POINTS = 12;
+
+/**
+ * Render "  ▇▆▅▄ -8% vs 2h ago" for a percent row with recorded history.
+ * The newest sample normally *is* the current value, so compare against the one before it.
+ */
+function formatTrend(current: number, series?: QuotaHistorySample[]): string {
+  if (!series || series.length === 0) return "";
+
+  const last = series[series.length - 1]!;
+  const includesCurrent = last.percentRemaining === current;
+  const previous = includesCurrent ? series[series.length - 2] : last;
+  const points = series.map((s) => s.percentRemaining);
+  if (!includesCurrent) points.push(current);
+  if (points.length < 2) return "";
+
+  const spark = sparkline(points, SPARKLINE_POINTS);
+  if (!previous) return `  ${spark}`;
+
+  const delta = current - previous.percentRemaining;
+  const sign = delta > 0 ? "+" : delta < 0 ? "-" : "±";
+  const ago = formatResetTimeSeconds((Date.now() - previous.ts) / 1000);
+  return `  ${spark} ${sign}${Math.abs(delta)}% vs ${ago} ago`;
+}
+
+function formatForecastStatus(forecast: QuotaForecast): string {
+  const marker = formatForecastMarker(forecast);
+  if (marker) return marker;
+  const now = Date.now();
+  const resetPart =
+    forecast.resetAtMs !== undefined && forecast.resetAtMs > now
+      ? ` (resets in ${formatForecastDuration(forecast.resetAtMs - now)})`
+      : "";
+  return `lasts until reset${resetPart}`;
+}
+
 function normalizeGroupHeader(group: string): string {
   // Convert "OpenAI (Pro)" -> "[OpenAI] (Pro)" for competitor-like headers.
   const m = group.match(/^([^()]+?)\s*(\(.*\))\s*$/);
@@ -74,6 +118,10 @@ export function formatQuotaCommand(params: {
   entries: ToastGroupEntry[];
   errors: QuotaToastError[];
   sessionTokens?: SessionTokensData;
+  /** Recorded snapshots keyed by quotaHistoryKey() (see quota-history.ts) */
+  history?: Map<string, QuotaHistorySample[]>;
+  /** Burn-rate forecasts keyed by quotaHistoryKey() (see quota-forecast.ts) */
+  forecasts?: Map<string, QuotaForecast>;
 }): string {
   const entries = coerceGrouped(params.entries);
 
@@ -102,7 +150,8 @@ export function formatQuotaCommand(params: {
 
     if (i > 0) lines.push("");
 
-    lines.push(`→ ${normalizeGroupHeader(g)}`);
+    const staleAge = list.find((e) => e.staleAge)?.staleAge;
+    lines.push(`→ ${withStaleMarker(normalizeGroupHeader(g), staleAge)}`);
 
     for (const row of list) {
       const label = (row.label ?? row.name).trim();
@@ -115,7 +164,23 @@ export function formatQuotaCommand(params: {
       }
 
       const pct = clampInt(row.percentRemaining, 0, 100);
-      lines.push(`  ${labelCol} ${bar(pct, barWidth)}  ${pct}% left${suffix}`);
+      const trend = formatTrend(
+        pct,
+        params.history?.get(quotaHistoryKey(row.providerId, row.name)),
+      );
+      lines.push(`  ${labelCol} ${bar(pct, barWidth)}  ${pct}% left${suffix}${trend}`);
+    }
+  }
+
+  // Flat entries have nothing to project; keep the section to limits that are burning.
+  const forecasts = [...(params.forecasts?.values() ?? [])].filter((f) => f.burnPerHour > 0);
+  if (forecasts.length > 0) {
+    lines.push("");
+    lines.push("→ [Forecast]");
+    const nameCol = Math.min(32, Math.max(...forecasts.map((f) => f.name.length)));
+    for (const f of forecasts) {
+      const rate = `-${f.burnPerHour.toFixed(1)}%/h`;
+      lines.push(`  ${padRight(f.name, nameCol)}  ${rate.padStart(8)}  ${formatForecastStatus(f)}`);
     }
   }
 
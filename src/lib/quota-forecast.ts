@@ -0,0 +1,149 @@
+/**
+ * Burn-rate forecasting from quota history.
+ *
+ * Projects when a percent entry will hit 0% from its recent samples, and whether
+ * that happens before the window resets. Only samples from the current window
+ * are used: an increase in percentRemaining means the window reset in between.
+ */
+
+import type { QuotaToastEntry } from "./entries.js";
+import { isPercentEntry } from "./entries.js";
+import { quotaHistoryKey, type QuotaHistorySample } from "./quota-history.js";
+
+/** How far back to look when estimating the current burn rate. */
+const FORECAST_LOOKBACK_MS = 6 * 60 * 60 * 1000;
+/** Samples spanning less than this are too noisy to extrapolate from. */
+const MIN_FORECAST_SPAN_MS = 10 * 60 * 1000;
+/** Increases smaller than this are treated as rounding noise, not a reset. */
+const RESET_JUMP_POINTS = 2;
+
+export interface QuotaForecast {
+  name: string;
+  percentRemaining: number;
+  /** Percentage points consumed per hour (0 when flat) */
+  burnPerHour: number;
+  /** Projected time the entry reaches 0% (absent when not burning) */
+  exhaustAtMs?: number;
+  resetAtMs?: number;
+  /** True when the projected exhaustion comes before the known reset (or no reset is known) */
+  runsOutBeforeReset: boolean;
+}
+
+function parseIsoMs(iso?: string): number | undefined {
+  if (!iso) return undefined;
+  const t = new Date(iso).getTime();
+  return Number.isFinite(t) ? t : undefined;
+}
+
+/**
+ * Samples belonging to the current window, oldest first, within the lookback.
+ */
+function currentWindowSamples(
+  samples: QuotaHistorySample[],
+  nowMs: number,
+  lookbackMs: number,
+): QuotaHistorySample[] {
+  const floor = nowMs - lookbackMs;
+  const out: QuotaHistorySample[] = [];
+  for (let i = samples.length - 1; i >= 0; i--) {
+    const s = samples[i]!;
+    if (s.ts < floor || s.ts > nowMs) break;
+    const newer = out[out.length - 1];
+    // Walking backwards: an older sample with *less* remaining means a reset happened after it.
+    if (newer && s.percentRemaining + RESET_JUMP_POINTS < newer.percentRemaining) break;
+    out.push(s);
+  }
+  return out.reverse();
+}
+
+export function forecastQuota(params: {
+  entry: { name: string; percentRemaining: number; resetTimeIso?: string };
+  samples: QuotaHistorySample[];
+  nowMs?: number;
+  lookbackMs?: number;
+}): QuotaForecast | null {
+  const nowMs = params.nowMs ?? Date.now();
+  const { entry } = params;
+  if (entry.percentRemaining <= 0) return null;
+
+  const window = currentWindowSamples(
+    params.samples,
+    nowMs,
+    params.lookbackMs ?? FORECAST_LOOKBACK_MS,
+  );
+  if (window.length < 2) return null;
+
+  const first = window[0]!;
+  const last = window[window.length - 1]!;
+  const spanMs = last.ts - first.ts;
+  if (spanMs < MIN_FORECAST_SPAN_MS) return null;
+
+  const consumed = first.percentRemaining - last.percentRemaining;
+  const burnPerHour = Math.max(0, (consumed / spanMs) * 60 * 60 * 1000);
+  const resetAtMs = parseIsoMs(entry.resetTimeIso);
+
+  if (burnPerHour <= 0) {
+    return {
+      name: entry.name,
+      percentRemaining: entry.percentRemaining,
+      burnPerHour: 0,
+      resetAtMs,
+      runsOutBeforeReset: false,
+    };
+  }
+
+  const exhaustAtMs = last.ts + (entry.percentRemaining / burnPerHour) * 60 * 60 * 1000;
+  return {
+    name: entry.name,
+    percentRemaining: entry.percentRemaining,
+    burnPerHour,
+    exhaustAtMs,
+    resetAtMs,
+    runsOutBeforeReset: resetAtMs === undefined || exhaustAtMs < resetAtMs,
+  };
+}
+
+/**
+ * Forecast every percent entry that has history, keyed by quotaHistoryKey().
+ */
+export function forecastEntries(params: {
+  entries: QuotaToastEntry[];
+  history: Map<string, QuotaHistorySample[]>;
+  nowMs?: number;
+}): Map<string, QuotaForecast> {
+  const out = new Map<string, QuotaForecast>();
+  for (const entry of params.entries) {
+    if (!isPercentEntry(entry)) continue;
+    const key = quotaHistoryKey(entry.providerId, entry.name);
+    const samples = params.history.get(key);
+    if (!samples) continue;
+    const forecast = forecastQuota({ entry, samples, nowMs: params.nowMs });
+    if (forecast) out.set(key, forecast);
+  }
+  return out;
+}
+
+/**
+ * Coarse duration for forecasts, e.g. "45m", "2h", "3d".
+ */
+export function formatForecastDuration(ms: number): string {
+  const minutes = Math.max(1, Math.round(ms / 60_000));
+  if (minutes < 60) return `${minutes}m`;
+  const hours = Math.round(minutes / 60);
+  if (hours < 48) return `${hours}h`;
+  return `${Math.round(hours / 24)}d`;
+}
+
+/**
+ * Toast marker for entries projected to run out before they reset, e.g.
+ * "⚠ empty in ~2h, resets in 5h". Returns null when no warning is needed.
+ */
+export function formatForecastMarker(forecast: QuotaForecast, nowMs?: number): string | null {
+  if (!forecast.runsOutBeforeReset || forecast.exhaustAtMs === undefined) return null;
+  const now = nowMs ?? Date.now();
+  const untilEmpty = forecast.exhaustAtMs - now;
+  const empty =
+    untilEmpty > 0 ? `⚠ empty in ~${formatForecastDuration(untilEmpty)}` : "⚠ empty now";
+  if (forecast.resetAtMs === undefined || forecast.resetAtMs <= now) return empty;
+  return `${empty}, resets in ${formatForecastDuration(forecast.resetAtMs - now)}`;
+}
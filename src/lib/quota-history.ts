@@ -0,0 +1,222 @@
+/**
+ * Persistent quota history.
+ *
+ * Every fresh provider fetch appends one snapshot per percent entry so /quota can
+ * show how each limit moved over time. Snapshots live next to the Qwen local
+ * quota state and are pruned by age and per-entry count.
+ */
+
+import { readFile } from "fs/promises";
+import { join } from "path";
+
+import { writeFileAtomic } from "./atomic-write.js";
+import type { QuotaToastEntry } from "./entries.js";
+import { isPercentEntry } from "./entries.js";
+import { clampPercent } from "./format-utils.js";
+import { getOpencodeRuntimeDirs } from "./opencode-runtime-paths.js";
+
+const QUOTA_HISTORY_STATE_VERSION = 1 as const;
+const HISTORY_RETENTION_MS = 14 * 24 * 60 * 60 * 1000;
+const MAX_SAMPLES_PER_ENTRY = 500;
+/** Identical consecutive samples closer than this are collapsed into one. */
+const MIN_DUPLICATE_SAMPLE_INTERVAL_MS = 5 * 60 * 1000;
+
+export interface QuotaHistorySample {
+  /** Epoch ms when the snapshot was taken */
+  ts: number;
+  /** Provider that produced the entry; two providers can use the same display name. */
+  providerId: string;
+  /** Entry name (matches QuotaToastEntry.name) */
+  name: string;
+  percentRemaining: number;
+  resetTimeIso?: string;
+}
+
+export interface QuotaHistoryStateFileV1 {
+  version: 1;
+  samples: QuotaHistorySample[];
+  updatedAt: number;
+}
+
+/** Series key for a sample or entry: the provider id plus the display name. */
+export function quotaHistoryKey(providerId: string | undefined, name: string): string {
+  return `${providerId ?? ""}:${name}`;
+}
+
+function defaultState(nowMs: number): QuotaHistoryStateFileV1 {
+  return {
+    version: QUOTA_HISTORY_STATE_VERSION,
+    samples: [],
+    updatedAt: nowMs,
+  };
+}
+
+function normalizeSample(raw: unknown): QuotaHistorySample | null {
+  if (!raw || typeof raw !== "object") return null;
+  const obj = raw as Partial<QuotaHistorySample>;
+  if (typeof obj.ts !== "number" || !Number.isFinite(obj.ts) || obj.ts <= 0) return null;
+  // Samples written before providerId was stored cannot be told apart; drop them.
+  if (typeof obj.providerId !== "string" || obj.providerId.length === 0) return null;
+  if (typeof obj.name !== "string" || obj.name.length === 0) return null;
+  if (typeof obj.percentRemaining !== "number" || !Number.isFinite(obj.percentRemaining)) {
+    return null;
+  }
+
+  const sample: QuotaHistorySample = {
+    ts: Math.trunc(obj.ts),
+    providerId: obj.providerId,
+    name: obj.name,
+    percentRemaining: clampPercent(obj.percentRemaining),
+  };
+  if (typeof obj.resetTimeIso === "string" && obj.resetTimeIso.length > 0) {
+    sample.resetTimeIso = obj.resetTimeIso;
+  }
+  return sample;
+}
+
+function normalizeState(raw: unknown, nowMs: number): QuotaHistoryStateFileV1 {
+  if (!raw || typeof raw !== "object") {
+    return defaultState(nowMs);
+  }
+
+  const obj = raw as Partial<QuotaHistoryStateFileV1>;
+  const samplesRaw = Array.isArray(obj.samples) ? obj.samples : [];
+  const samples = samplesRaw
+    .map(normalizeSample)
+    .filter((x): x is QuotaHistorySample => x !== null)
+    .sort((a, b) => a.ts - b.ts);
+
+  return {
+    version: QUOTA_HISTORY_STATE_VERSION,
+    samples,
+    updatedAt:
+      typeof obj.updatedAt === "number" && Number.isFinite(obj.updatedAt) && obj.updatedAt > 0
+        ? Math.trunc(obj.updatedAt)
+        : nowMs,
+  };
+}
+
+function prune(samples: QuotaHistorySample[], nowMs: number): QuotaHistorySample[] {
+  const floor = nowMs - HISTORY_RETENTION_MS;
+  const recent = samples.filter((s) => s.ts >= floor && s.ts <= nowMs);
+
+  const counts = new Map<string, number>();
+  const kept: QuotaHistorySample[] = [];
+  // Walk newest-first so the per-entry cap drops the oldest samples.
+  for (let i = recent.length - 1; i >= 0; i--) {
+    const s = recent[i]!;
+    const key = quotaHistoryKey(s.providerId, s.name);
+    const n = counts.get(key) ?? 0;
+    if (n >= MAX_SAMPLES_PER_ENTRY) continue;
+    counts.set(key, n + 1);
+    kept.push(s);
+  }
+  return kept.reverse();
+}
+
+async function readStateFromDisk(path: string, nowMs: number): Promise<QuotaHistoryStateFileV1> {
+  try {
+    const raw = await readFile(path, "utf-8");
+    return normalizeState(JSON.parse(raw), nowMs);
+  } catch {
+    return defaultState(nowMs);
+  }
+}
+
+export function getQuotaHistoryPath(): string {
+  const { stateDir } = getOpencodeRuntimeDirs();
+  return join(stateDir, "opencode-quota", "quota-history.json");
+}
+
+export async function readQuotaHistory(params?: {
+  nowMs?: number;
+}): Promise<QuotaHistoryStateFileV1> {
+  const nowMs = params?.nowMs ?? Date.now();
+  const state = await readStateFromDisk(getQuotaHistoryPath(), nowMs);
+  return { ...state, samples: prune(state.samples, nowMs) };
+}
+
+// Serialize read-modify-write cycles so concurrent fetches do not drop samples.
+let writeChain: Promise<unknown> = Promise.resolve();
+
+/**
+ * Append one snapshot per percent entry.
+ *
+ * Value entries have no percentage to track and are ignored. A sample identical
+ * to the previous one for the same entry is skipped when it is only minutes old,
+ * so frequent toasts do not flood the file with flat lines.
+ */
+export async function recordQuotaHistory(
+  providerId: string,
+  entries: QuotaToastEntry[],
+  params?: { atMs?: number },
+): Promise<QuotaHistoryStateFileV1> {
+  const run = async (): Promise<QuotaHistoryStateFileV1> => {
+    const nowMs = params?.atMs ?? Date.now();
+    const path = getQuotaHistoryPath();
+    const loaded = await readStateFromDisk(path, nowMs);
+    const samples = prune(loaded.samples, nowMs);
+
+    const lastByKey = new Map<string, QuotaHistorySample>();
+    for (const s of samples) lastByKey.set(quotaHistoryKey(s.providerId, s.name), s);
+
+    let appended = 0;
+    for (const entry of entries) {
+      if (!isPercentEntry(entry)) continue;
+      const sample: QuotaHistorySample = {
+        ts: nowMs,
+        providerId,
+        name: entry.name,
+        percentRemaining: clampPercent(entry.percentRemaining),
+      };
+      if (entry.resetTimeIso) sample.resetTimeIso = entry.resetTimeIso;
+
+      const key = quotaHistoryKey(providerId, sample.name);
+      const last = lastByKey.get(key);
+      if (
+        last &&
+        last.percentRemaining === sample.percentRemaining &&
+        last.resetTimeIso === sample.resetTimeIso &&
+        nowMs - last.ts < MIN_DUPLICATE_SAMPLE_INTERVAL_MS
+      ) {
+        continue;
+      }
+
+      samples.push(sample);
+      lastByKey.set(key, sample);
+      appended++;
+    }
+
+    const next: QuotaHistoryStateFileV1 = {
+      version: QUOTA_HISTORY_STATE_VERSION,
+      samples: prune(samples, nowMs),
+      updatedAt: nowMs,
+    };
+
+    if (appended > 0) {
+      await writeFileAtomic(path, JSON.stringify(next));
+    }
+    return next;
+  };
+
+  const result = writeChain.then(run, run);
+  writeChain = result.catch(() => undefined);
+  return result;
+}
+
+/**
+ * Group samples by series, keyed by quotaHistoryKey() (chronological order within each series).
+ */
+export function groupQuotaHistory(
+  samples: QuotaHistorySample[],
+): Map<string, QuotaHistorySample[]> {
+  const out = new Map<string, QuotaHistorySample[]>();
+  for (const s of samples) {
+    const key = quotaHistoryKey(s.providerId, s.name);
+    const list = out.get(key);
+    if (list) list.push(s);
+    else out.set(key, [s]);
+  }
+  for (const list of out.values()) list.sort((a, b) => a.ts - b.ts);
+  return out;
+}
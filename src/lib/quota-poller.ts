@@ -0,0 +1,138 @@
+/**
+ * Background quota polling (watch mode).
+ *
+ * Polls every `intervalMs` while any session is busy. Once every session is idle,
+ * the delay doubles after each poll and polling stops after IDLE_BACKOFF_STEPS
+ * idle polls; the next busy session restarts it.
+ */
+
+import type { QuotaToastEntry } from "./entries.js";
+import { isValueEntry } from "./entries.js";
+
+/** Never poll faster than this, whatever pollIntervalMs says. */
+export const MIN_POLL_INTERVAL_MS = 60_000;
+
+/** Idle polls (at 2x, 4x, 8x the interval) before polling stops. */
+const IDLE_BACKOFF_STEPS = 3;
+
+/** A percent entry must move at least this many points to re-toast. */
+const MEANINGFUL_CHANGE_POINTS = 5;
+
+export interface QuotaPoller {
+  /** Record a session status change (from session.status / session.idle events). */
+  setSessionBusy(sessionID: string, busy: boolean): void;
+  stop(): void;
+  /** Delay until the next poll, or null when polling is stopped. */
+  nextDelayMs(): number | null;
+}
+
+export function createQuotaPoller(params: {
+  intervalMs: number;
+  /** Called with the most recently busy session. Errors are swallowed. */
+  poll: (sessionID: string) => Promise<void>;
+}): QuotaPoller {
+  const intervalMs = Math.max(MIN_POLL_INTERVAL_MS, params.intervalMs);
+  const busy = new Set<string>();
+  let lastSessionID: string | null = null;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let delayMs: number | null = null;
+  let idleSteps = 0;
+  let polling = false;
+  let stopped = false;
+
+  function schedule(ms: number): void {
+    if (timer) clearTimeout(timer);
+    delayMs = ms;
+    timer = setTimeout(() => void tick(), ms);
+    // Never keep the host process alive just to poll.
+    (timer as { unref?: () => void }).unref?.();
+  }
+
+  function clear(): void {
+    if (timer) clearTimeout(timer);
+    timer = null;
+    delayMs = null;
+  }
+
+  async function tick(): Promise<void> {
+    timer = null;
+    delayMs = null;
+    if (stopped || !lastSessionID) return;
+
+    polling = true;
+    try {
+      await params.poll(lastSessionID);
+    } catch {
+      // Polling is best-effort; the next tick retries.
+    } finally {
+      polling = false;
+    }
+    if (stopped) return;
+
+    if (busy.size > 0) {
+      idleSteps = 0;
+      schedule(intervalMs);
+      return;
+    }
+
+    idleSteps++;
+    if (idleSteps <= IDLE_BACKOFF_STEPS) schedule(intervalMs * 2 ** idleSteps);
+  }
+
+  return {
+    setSessionBusy(sessionID, isBusy) {
+      if (stopped) return;
+      if (!isBusy) {
+        busy.delete(sessionID);
+        return;
+      }
+
+      busy.add(sessionID);
+      lastSessionID = sessionID;
+      // Restart after an idle stop, or pull a long idle back-off delay in.
+      if (!polling && (delayMs === null || delayMs > intervalMs)) {
+        idleSteps = 0;
+        schedule(intervalMs);
+      }
+    },
+
+    stop() {
+      stopped = true;
+      clear();
+    },
+
+    nextDelayMs() {
+      return delayMs;
+    },
+  };
+}
+
+function entrySignature(entry: QuotaToastEntry): string | number {
+  return isValueEntry(entry) ? entry.value : entry.percentRemaining;
+}
+
+/**
+ * True when a poll result is worth a toast: an entry appeared or disappeared,
+ * a value entry changed, or a percent moved by MEANINGFUL_CHANGE_POINTS or more.
+ */
+export function hasMeaningfulChange(
+  previous: QuotaToastEntry[] | null,
+  next: QuotaToastEntry[],
+): boolean {
+  if (!previous) return false;
+
+  const before = new Map(previous.map((e) => [e.name, entrySignature(e)]));
+  if (before.size !== next.length) return true;
+
+  for (const entry of next) {
+    if (!before.has(entry.name)) return true;
+    const prev = before.get(entry.name)!;
+    const curr = entrySignature(entry);
+    if (typeof prev === "number" && typeof curr === "number") {
+      if (Math.abs(prev - curr) >= MEANINGFUL_CHANGE_POINTS) return true;
+    } else if (prev !== curr) {
+      return true;
+    }
+  }
+  return false;
+}
@@ -0,0 +1,211 @@
+/**
+ * Export token reports as CSV or JSON files.
+ *
+ * JSON writes the full AggregateResult as one document. CSV writes one file per
+ * table next to the requested path ("usage.csv" -> "usage.by-model.csv", ...).
+ */
+
+import { homedir } from "os";
+import { basename, dirname, extname, isAbsolute, join, resolve } from "path";
+
+import { writeFileAtomic } from "./atomic-write.js";
+import { expandHome } from "./path-pick.js";
+import type { AggregateResult, TokenBuckets } from "./quota-stats.js";
+
+export type TokenReportExportFormat = "csv" | "json";
+
+export interface TokenReportExportRequest {
+  format: TokenReportExportFormat;
+  /** Output path as given by the user (may start with "~" or be relative) */
+  out?: string;
+}
+
+type CsvCell = string | number | undefined;
+
+const TOKEN_HEADERS = ["input", "output", "reasoning", "cache_read", "cache_write", "total"];
+
+function tokenCells(t: TokenBuckets): number[] {
+  return [
+    t.input,
+    t.output,
+    t.reasoning,
+    t.cache_read,
+    t.cache_write,
+    t.input + t.output + t.reasoning + t.cache_read + t.cache_write,
+  ];
+}
+
+function escapeCsvCell(cell: CsvCell): string {
+  if (cell === undefined) return "";
+  if (typeof cell === "number") return Number.isFinite(cell) ? String(cell) : "";
+  // Keep spreadsheet apps from evaluating session titles as formulas.
+  const s = /^[=+\-@]/.test(cell) ? `'${cell}` : cell;
+  return /[",\r\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+}
+
+export function toCsv(headers: string[], rows: CsvCell[][]): string {
+  return [headers, ...rows].map((row) => row.map(escapeCsvCell).join(",")).join("\n") + "\n";
+}
+
+/**
+ * Render each AggregateResult table as CSV, keyed by file suffix.
+ */
+export function aggregateResultToCsvTables(result: AggregateResult): Record<string, string> {
+  const timeline: Record<string, string> = result.timeline
+    ? {
+        timeline: toCsv(
+          ["bucket_start", "unit", ...TOKEN_HEADERS, "cost_usd", "messages"],
+          result.timeline.rows.map((r) => [
+            new Date(r.startMs).toISOString(),
+            result.timeline!.unit,
+            ...tokenCells(r.tokens),
+            r.costUsd,
+            r.messageCount,
+          ]),
+        ),
+      }
+    : {};
+
+  return {
+    "by-model": toCsv(
+      ["provider", "model", ...TOKEN_HEADERS, "cost_usd", "messages"],
+      result.byModel.map((r) => [
+        r.key.provider,
+        r.key.model,
+        ...tokenCells(r.tokens),
+        r.costUsd,
+        r.messageCount,
+      ]),
+    ),
+    "by-source-model": toCsv(
+      ["source_provider", "source_model", ...TOKEN_HEADERS, "cost_usd", "messages"],
+      result.bySourceModel.map((r) => [
+        r.sourceProviderID,
+        r.sourceModelID,
+        ...tokenCells(r.tokens),
+        r.costUsd,
+        r.messageCount,
+      ]),
+    ),
+    "by-source-provider": toCsv(
+      ["source_provider", ...TOKEN_HEADERS, "cost_usd", "messages"],
+      result.bySourceProvider.map((r) => [
+        r.providerID,
+        ...tokenCells(r.tokens),
+        r.costUsd,
+        r.messageCount,
+      ]),
+    ),
+    "by-session": toCsv(
+      ["session_id", "title", ...TOKEN_HEADERS, "cost_usd", "messages"],
+      result.bySession.map((r) => [
+        r.sessionID,
+        r.title,
+        ...tokenCells(r.tokens),
+        r.costUsd,
+        r.messageCount,
+      ]),
+    ),
+    "by-agent": toCsv(
+      ["agent", ...TOKEN_HEADERS, "cost_usd", "messages"],
+      result.byAgent.map((r) => [r.agent, ...tokenCells(r.tokens), r.costUsd, r.messageCount]),
+    ),
+    "by-mode": toCsv(
+      ["mode", ...TOKEN_HEADERS, "cost_usd", "messages"],
+      result.byMode.map((r) => [r.mode, ...tokenCells(r.tokens), r.costUsd, r.messageCount]),
+    ),
+    unknown: toCsv(
+      [
+        "source_provider",
+        "source_model",
+        "mapped_provider",
+        "mapped_model",
+        ...TOKEN_HEADERS,
+        "messages",
+      ],
+      result.unknown.map((r) => [
+        r.key.sourceProviderID,
+        r.key.sourceModelID,
+        r.key.mappedProvider,
+        r.key.mappedModel,
+        ...tokenCells(r.tokens),
+        r.messageCount,
+      ]),
+    ),
+    unpriced: toCsv(
+      [
+        "source_provider",
+        "source_model",
+        "mapped_provider",
+        "mapped_model",
+        "reason",
+        ...TOKEN_HEADERS,
+        "messages",
+      ],
+      result.unpriced.map((r) => [
+        r.key.sourceProviderID,
+        r.key.sourceModelID,
+        r.key.mappedProvider,
+        r.key.mappedModel,
+        r.key.reason,
+        ...tokenCells(r.tokens),
+        r.messageCount,
+      ]),
+    ),
+    ...timeline,
+  };
+}
+
+/**
+ * Resolve the user-supplied output path. "~" expands to the home directory and
+ * relative paths resolve against `baseDir`. Without `out`, a dated file in the
+ * home directory is used.
+ */
+export function resolveExportPath(params: {
+  request: TokenReportExportRequest;
+  command: string;
+  baseDir: string;
+  nowMs?: number;
+  homeDir?: string;
+}): string {
+  const home = params.homeDir ?? homedir();
+  const raw = params.request.out?.trim();
+  if (!raw) {
+    const d = new Date(params.nowMs ?? Date.now());
+    const ymd = `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, "0")}-${String(d.getDate()).padStart(2, "0")}`;
+    return join(home, `opencode-${params.command}-${ymd}.${params.request.format}`);
+  }
+  const path = expandHome(raw, home);
+  return isAbsolute(path) ? path : resolve(params.baseDir, path);
+}
+
+/**
+ * Write the export and return the written file paths.
+ */
+export async function exportAggregateResult(params: {
+  result: AggregateResult;
+  format: TokenReportExportFormat;
+  path: string;
+  title: string;
+  nowMs?: number;
+}): Promise<string[]> {
+  if (params.format === "json") {
+    const doc = {
+      title: params.title,
+      generatedAt: new Date(params.nowMs ?? Date.now()).toISOString(),
+      ...params.result,
+    };
+    await writeFileAtomic(params.path, JSON.stringify(doc, null, 2) + "\n");
+    return [params.path];
+  }
+
+  const ext = extname(params.path);
+  const stem = join(dirname(params.path), basename(params.path, ext));
+  const written: string[] = [];
+  for (const [suffix, csv] of Object.entries(aggregateResultToCsvTables(params.result))) {
+    const path = `${stem}.${suffix}${ext || ".csv"}`;
+    await writeFileAtomic(path, csv);
+    written.push(path);
+  }
+  return written;
+}
@@ -1,5 +1,8 @@
-import type { AggregateResult, TokenBuckets } from "./quota-stats.js";
+import type { AggregateResult, SessionRow, TokenBuckets } from "./quota-stats.js";
 import { renderMarkdownTable, type WidthMode } from "./markdown-table.js";
+import { formatBudgetLabel, type BudgetStatus } from "./budgets.js";
+import { bar } from "./format-utils.js";
+import { formatTimeBucketLabel } from "./time-buckets.js";
 
 /** Use markdown-conceal for proper TUI alignment (strips markdown syntax for width calc) */
 const TABLE_WIDTH_MODE: WidthMode = "markdown-conceal";
@@ -93,6 +96,121 @@ function truncateTitle(title: string | undefined): string {
   return trimmed.slice(0, 10) + "..." + trimmed.slice(-10);
 }
 
+function subtractBuckets(a: TokenBuckets, b: TokenBuckets): TokenBuckets {
+  return {
+    input: a.input - b.input,
+    output: a.output - b.output,
+    reasoning: a.reasoning - b.reasoning,
+    cache_read: a.cache_read - b.cache_read,
+    cache_write: a.cache_write - b.cache_write,
+  };
+}
+
+/** Title cell for session tables; rolled-up rows note how many subagents they include. */
+function sessionTitleCell(row: SessionRow): string {
+  const title = truncateTitle(row.title);
+  const n = row.children?.length ?? 0;
+  return n > 0 ? `${title} (+${n} sub)` : title;
+}
+
+/**
+ * Render a rolled-up session as a tree: the root's own usage first, then each
+ * subagent with its share of the combined cost.
+ */
+function renderSessionTree(root: SessionRow): string {
+  const children = root.children ?? [];
+  let childTokens: TokenBuckets = { input: 0, output: 0, reasoning: 0, cache_read: 0, cache_write: 0 };
+  let childCost = 0;
+  let childMsgs = 0;
+  for (const c of children) {
+    childTokens = {
+      input: childTokens.input + c.tokens.input,
+      output: childTokens.output + c.tokens.output,
+      reasoning: childTokens.reasoning + c.tokens.reasoning,
+      cache_read: childTokens.cache_read + c.tokens.cache_read,
+      cache_write: childTokens.cache_write + c.tokens.cache_write,
+    };
+    childCost += c.costUsd;
+    childMsgs += c.messageCount;
+  }
+
+  const share = (cost: number) =>
+    root.costUsd > 0 ? `${Math.round((cost / root.costUsd) * 100)}%` : "-";
+  const ownCost = root.costUsd - childCost;
+
+  const rows: string[][] = [
+    [
+      root.sessionID,
+      truncateTitle(root.title),
+      fmtCompact(root.messageCount - childMsgs),
+      fmtCompact(totalTokens(subtractBuckets(root.tokens, childTokens))),
+      fmtUsd(ownCost),
+      share(ownCost),
+    ],
+  ];
+
+  // lastAtDepth[d] tracks whether the most recent node at depth d was its parent's last child.
+  const lastAtDepth: boolean[] = [];
+  children.forEach((c, i) => {
+    const isLast = !children.slice(i + 1).some((n) => n.parentID === c.parentID);
+    lastAtDepth[c.depth] = isLast;
+    let prefix = "";
+    for (let d = 1; d < c.depth; d++) prefix += lastAtDepth[d] ? "   " : "│  ";
+    prefix += isLast ? "└─ " : "├─ ";
+    rows.push([
+      `${prefix}${c.sessionID}`,
+      truncateTitle(c.title),
+      fmtCompact(c.messageCount),
+      fmtCompact(totalTokens(c.tokens)),
+      fmtUsd(c.costUsd),
+      share(c.costUsd),
+    ]);
+  });
+
+  return renderMarkdownTable({
+    headers: ["Session", "Title", "Msgs", "Tokens", "Cost", "Share"],
+    aligns: ["left", "left", "right", "right", "right", "right"],
+    widthMode: TABLE_WIDTH_MODE,
+    rows,
+  });
+}
+
+const TIMELINE_BAR_WIDTH = 20;
+/** Most recent buckets shown in the timeline table (older ones are summarized). */
+const TIMELINE_MAX_ROWS = 60;
+
+/**
+ * Render timeline buckets with a bar chart scaled to the busiest bucket.
+ * Charts cost when any usage is priced, otherwise tokens.
+ */
+function renderTimeline(timeline: NonNullable<AggregateResult["timeline"]>): string[] {
+  const rows = timeline.rows.slice(-TIMELINE_MAX_ROWS);
+  const hidden = timeline.rows.length - rows.length;
+  const byCost = rows.some((row) => row.costUsd > 0);
+  const metric = (row: (typeof rows)[number]) => (byCost ? row.costUsd : totalTokens(row.tokens));
+  const max = Math.max(0, ...rows.map(metric));
+
+  const out = [
+    renderMarkdownTable({
+      headers: ["Period", "Msgs", "Tokens", "Cost", byCost ? "Cost chart" : "Token chart"],
+      aligns: ["left", "right", "right", "right", "left"],
+      widthMode: TABLE_WIDTH_MODE,
+      rows: rows.map((row) => [
+        formatTimeBucketLabel(row.startMs, timeline.unit),
+        fmtCompact(row.messageCount),
+        fmtCompact(totalTokens(row.tokens)),
+        fmtUsd(row.costUsd),
+        `\`${bar(max > 0 ? (metric(row) / max) * 100 : 0, TIMELINE_BAR_WIDTH)}\``,
+      ]),
+    }),
+  ];
+  if (hidden > 0) {
+    out.push("");
+    out.push(`(${hidden} earlier ${timeline.unit} buckets not shown; export for the full series)`);
+  }
+  return out;
+}
+
 export function formatQuotaStatsReport(params: {
   title: string;
   result: AggregateResult;
@@ -101,6 +219,8 @@ export function formatQuotaStatsReport(params: {
   focusSessionID?: string;
   /** When true, hides Window/Sessions columns and Top Sessions section (for session-only reports) */
   sessionOnly?: boolean;
+  /** Month-to-date budget statuses (rendered as a Budget section when present) */
+  budgets?: { sinceMs: number; statuses: BudgetStatus[] };
 }): string {
   const topModels = params.topModels ?? 12;
   const topSessions = params.topSessions ?? 8;
@@ -151,6 +271,14 @@ export function formatQuotaStatsReport(params: {
     );
   }
 
+  if (r.timeline) {
+    lines.push("");
+    lines.push(`## Timeline (by ${r.timeline.unit})`);
+    lines.push("");
+    if (r.timeline.rows.length > 0) lines.push(...renderTimeline(r.timeline));
+    else lines.push("(no usage)");
+  }
+
   const hasAnyReasoning =
     r.totals.priced.reasoning > 0 ||
     r.totals.unknown.reasoning > 0 ||
@@ -214,6 +342,72 @@ export function formatQuotaStatsReport(params: {
     lines.push(renderMarkdownTable({ headers, rows, aligns, widthMode: TABLE_WIDTH_MODE }));
   }
 
+  const treeRoot = params.focusSessionID
+    ? r.bySession.find((row) => row.sessionID === params.focusSessionID)
+    : undefined;
+  if (treeRoot?.children && treeRoot.children.length > 0) {
+    lines.push("");
+    lines.push(`## Subagents`);
+    lines.push("");
+    lines.push(renderSessionTree(treeRoot));
+  }
+
+  const breakdowns: Array<{
+    title: string;
+    header: string;
+    rows: Array<{ key: string; tokens: TokenBuckets; costUsd: number; messageCount: number }>;
+  }> = [
+    { title: "Agents", header: "Agent", rows: r.byAgent.map((a) => ({ ...a, key: a.agent })) },
+    { title: "Modes", header: "Mode", rows: r.byMode.map((m) => ({ ...m, key: m.mode })) },
+  ];
+  for (const breakdown of breakdowns) {
+    // Older OpenCode versions do not record agent/mode; skip all-unknown sections.
+    if (!breakdown.rows.some((row) => row.key !== "unknown")) continue;
+    const totalCost = breakdown.rows.reduce((sum, row) => sum + row.costUsd, 0);
+    lines.push("");
+    lines.push(`## ${breakdown.title}`);
+    lines.push("");
+    lines.push(
+      renderMarkdownTable({
+        headers: [breakdown.header, "Msgs", "Tokens", "Cost", "Share"],
+        aligns: ["left", "right", "right", "right", "right"],
+        widthMode: TABLE_WIDTH_MODE,
+        rows: breakdown.rows.map((row) => [
+          row.key,
+          fmtCompact(row.messageCount),
+          fmtCompact(totalTokens(row.tokens)),
+          fmtUsd(row.costUsd),
+          totalCost > 0 ? `${Math.round((row.costUsd / totalCost) * 100)}%` : "-",
+        ]),
+      }),
+    );
+  }
+
+  if (params.budgets && params.budgets.statuses.length > 0) {
+    lines.push("");
+    lines.push(`## Budget (Month to Date)`);
+    lines.push("");
+    lines.push(
+      renderMarkdownTable({
+        headers: ["Budget", "Spent", "Limit", "Used", "Left"],
+        aligns: ["left", "right", "right", "right", "right"],
+        widthMode: TABLE_WIDTH_MODE,
+        rows: params.budgets.statuses.map((b) => {
+          const left = b.limitUsd - b.spentUsd;
+          return [
+            formatBudgetLabel(b),
+            fmtUsd(b.spentUsd),
+            fmtUsd(b.limitUsd),
+            `${Math.round(b.percentUsed)}%`,
+            left >= 0 ? fmtUsd(left) : `**over ${fmtUsd(-left)}**`,
+          ];
+        }),
+      }),
+    );
+    lines.push("");
+    lines.push(`Since ${fmtLocalDateTime(params.budgets.sinceMs)}; resets on the 1st (local time).`);
+  }
+
   // Skip Top Sessions for session-only reports (e.g., /tokens_session)
   if (!sessionOnly) {
     lines.push("");
@@ -233,7 +427,7 @@ export function formatQuotaStatsReport(params: {
         fmtUsd(focus.costUsd),
         fmtCompact(totalTokens(focus.tokens)),
         fmtCompact(focus.messageCount),
-        truncateTitle(focus.title),
+        sessionTitleCell(focus),
       ]);
 
       // After showing the current session, show top sessions excluding it.
@@ -245,7 +439,7 @@ export function formatQuotaStatsReport(params: {
           fmtUsd(row.costUsd),
           fmtCompact(totalTokens(row.tokens)),
           fmtCompact(row.messageCount),
-          truncateTitle(row.title),
+          sessionTitleCell(row),
         ]);
       }
     } else if (params.focusSessionID) {
@@ -260,7 +454,7 @@ export function formatQuotaStatsReport(params: {
           fmtUsd(row.costUsd),
           fmtCompact(totalTokens(row.tokens)),
           fmtCompact(row.messageCount),
-          truncateTitle(row.title),
+          sessionTitleCell(row),
         ]);
       }
     } else {
@@ -272,7 +466,7 @@ export function formatQuotaStatsReport(params: {
           fmtUsd(row.costUsd),
           fmtCompact(totalTokens(row.tokens)),
           fmtCompact(row.messageCount),
-          truncateTitle(row.title),
+          sessionTitleCell(row),
         ]);
       }
     }
@@ -1,4 +1,4 @@
-import type { OpenCodeMessage } from "./opencode-storage.js";
+import type { OpenCodeMessage, OpenCodeSessionInfo } from "./opencode-storage.js";
 import {
   iterAssistantMessages,
   iterAssistantMessagesForSession,
@@ -10,7 +10,9 @@ import {
   inferProviderForModelId,
   listProviders,
   lookupCost,
+  reloadPricing,
 } from "./modelsdev-pricing.js";
+import { nextTimeBucketMs, startOfTimeBucketMs, type TimeBucketUnit } from "./time-buckets.js";
 
 // Re-export for consumers
 export { SessionNotFoundError } from "./opencode-storage.js";
@@ -48,6 +50,22 @@ export type SessionRow = {
   tokens: TokenBuckets;
   costUsd: number;
   messageCount: number;
+  /**
+   * Subagent sessions folded into this root row (only with rollupSubagents).
+   * Root totals include them; each child carries its own usage only.
+   */
+  children?: SessionChildRow[];
+};
+
+export type SessionChildRow = {
+  sessionID: string;
+  parentID: string;
+  title?: string;
+  /** 1 = direct child of the root */
+  depth: number;
+  tokens: TokenBuckets;
+  costUsd: number;
+  messageCount: number;
 };
 
 export type SourceProviderRow = {
@@ -65,6 +83,31 @@ export type SourceModelRow = {
   messageCount: number;
 };
 
+export type AgentRow = {
+  agent: string;
+  tokens: TokenBuckets;
+  costUsd: number;
+  messageCount: number;
+};
+
+export type ModeRow = {
+  mode: string;
+  tokens: TokenBuckets;
+  costUsd: number;
+  messageCount: number;
+};
+
+/**
+ * One local-time bucket of a timeline. Tokens include unknown/unpriced usage;
+ * cost covers priced usage only.
+ */
+export type TimelineRow = {
+  startMs: number;
+  tokens: TokenBuckets;
+  costUsd: number;
+  messageCount: number;
+};
+
 export type UnknownRow = {
   key: UnknownKey;
   tokens: TokenBuckets;
@@ -99,6 +142,10 @@ export type AggregateResult = {
   bySourceModel: SourceModelRow[];
   byModel: AggregateRow[];
   bySession: SessionRow[];
+  byAgent: AgentRow[];
+  byMode: ModeRow[];
+  /** Present when aggregateUsage was called with groupBy; oldest bucket first */
+  timeline?: { unit: TimeBucketUnit; rows: TimelineRow[] };
   unknown: UnknownRow[];
   unpriced: UnpricedRow[];
 };
@@ -117,6 +164,24 @@ function addBuckets(a: TokenBuckets, b: TokenBuckets): TokenBuckets {
   };
 }
 
+/** Add one priced message to a keyed rollup row, creating the row on first use. */
+function addToRollup<T extends { tokens: TokenBuckets; costUsd: number; messageCount: number }>(
+  map: Map<string, T>,
+  key: string,
+  tokens: TokenBuckets,
+  costUsd: number,
+  create: () => Omit<T, "tokens" | "costUsd" | "messageCount">,
+): void {
+  const row = map.get(key);
+  if (row) {
+    row.tokens = addBuckets(row.tokens, tokens);
+    row.costUsd += costUsd;
+    row.messageCount += 1;
+  } else {
+    map.set(key, { ...create(), tokens, costUsd, messageCount: 1 } as T);
+  }
+}
+
 function messageBuckets(msg: OpenCodeMessage): TokenBuckets {
   const t = msg.tokens;
   if (!t) return emptyBuckets();
@@ -317,11 +382,191 @@ function classifyMissingPricing(params: {
   return { kind: "unknown" };
 }
 
+function getSessionParentID(
+  sessionsIdx: Record<string, OpenCodeSessionInfo>,
+  sessionID: string,
+): string | undefined {
+  const parentID = sessionsIdx[sessionID]?.parentID;
+  return parentID && parentID !== sessionID && sessionsIdx[parentID] ? parentID : undefined;
+}
+
+function getRootSessionID(
+  sessionsIdx: Record<string, OpenCodeSessionInfo>,
+  sessionID: string,
+): string {
+  const seen = new Set([sessionID]);
+  let cur = sessionID;
+  for (;;) {
+    const parentID = getSessionParentID(sessionsIdx, cur);
+    if (!parentID || seen.has(parentID)) return cur;
+    seen.add(parentID);
+    cur = parentID;
+  }
+}
+
+/**
+ * All descendant session ids of `sessionID` (subagents, their subagents, ...).
+ */
+export function getDescendantSessionIDs(
+  sessionsIdx: Record<string, OpenCodeSessionInfo>,
+  sessionID: string,
+): string[] {
+  const childrenByParent = new Map<string, string[]>();
+  for (const id of Object.keys(sessionsIdx)) {
+    const parentID = getSessionParentID(sessionsIdx, id);
+    if (!parentID) continue;
+    const list = childrenByParent.get(parentID);
+    if (list) list.push(id);
+    else childrenByParent.set(parentID, [id]);
+  }
+
+  const out: string[] = [];
+  const seen = new Set([sessionID]);
+  const queue = [sessionID];
+  while (queue.length > 0) {
+    for (const child of childrenByParent.get(queue.shift()!) ?? []) {
+      if (seen.has(child)) continue;
+      seen.add(child);
+      out.push(child);
+      queue.push(child);
+    }
+  }
+  return out;
+}
+
+/**
+ * Fold subagent session rows into their root session.
+ *
+ * Root rows carry the combined usage and list every descendant in `children`
+ * (depth-first, costliest sibling first). Intermediate sessions without priced
+ * usage are kept so the tree stays connected.
+ */
+export function rollupSubagentSessions(
+  rows: SessionRow[],
+  sessionsIdx: Record<string, OpenCodeSessionInfo>,
+): SessionRow[] {
+  const rowsById = new Map(rows.map((r) => [r.sessionID, r]));
+  const groups = new Map<string, Set<string>>();
+  for (const row of rows) {
+    const rootID = getRootSessionID(sessionsIdx, row.sessionID);
+    const members = groups.get(rootID) ?? new Set<string>();
+    groups.set(rootID, members);
+    // Include ancestors up to the root so every child has a parent in the tree.
+    let cur: string | undefined = row.sessionID;
+    while (cur && cur !== rootID && !members.has(cur)) {
+      members.add(cur);
+      cur = getSessionParentID(sessionsIdx, cur);
+    }
+  }
+
+  const out: SessionRow[] = [];
+  for (const [rootID, members] of groups) {
+    const own = rowsById.get(rootID);
+    if (members.size === 0 && own) {
+      out.push(own);
+      continue;
+    }
+
+    const childrenByParent = new Map<string, string[]>();
+    for (const id of members) {
+      const parentID = getSessionParentID(sessionsIdx, id) ?? rootID;
+      const list = childrenByParent.get(parentID);
+      if (list) list.push(id);
+      else childrenByParent.set(parentID, [id]);
+    }
+
+    const children: SessionChildRow[] = [];
+    let tokens = own?.tokens ?? emptyBuckets();
+    let costUsd = own?.costUsd ?? 0;
+    let messageCount = own?.messageCount ?? 0;
+    const visit = (parentID: string, depth: number) => {
+      const ids = childrenByParent.get(parentID) ?? [];
+      ids.sort((a, b) => (rowsById.get(b)?.costUsd ?? 0) - (rowsById.get(a)?.costUsd ?? 0));
+      for (const id of ids) {
+        const row = rowsById.get(id);
+        const child: SessionChildRow = {
+          sessionID: id,
+          parentID,
+          title: row?.title ?? sessionsIdx[id]?.title,
+          depth,
+          tokens: row?.tokens ?? emptyBuckets(),
+          costUsd: row?.costUsd ?? 0,
+          messageCount: row?.messageCount ?? 0,
+        };
+        children.push(child);
+        tokens = addBuckets(tokens, child.tokens);
+        costUsd += child.costUsd;
+        messageCount += child.messageCount;
+        visit(id, depth + 1);
+      }
+    };
+    visit(rootID, 1);
+
+    out.push({
+      sessionID: rootID,
+      title: own?.title ?? sessionsIdx[rootID]?.title,
+      tokens,
+      costUsd,
+      messageCount,
+      children,
+    });
+  }
+
+  return out.sort((a, b) => b.costUsd - a.costUsd);
+}
+
+/** Upper bound on generated empty buckets (e.g. all-time history grouped by hour). */
+const MAX_TIMELINE_BUCKETS = 2000;
+
+/**
+ * Sort timeline buckets and insert empty ones between the window bounds so gaps
+ * in usage stay visible. Falls back to non-empty buckets only for very long ranges.
+ */
+export function fillTimelineGaps(params: {
+  rows: Map<number, TimelineRow>;
+  unit: TimeBucketUnit;
+  sinceMs?: number;
+  untilMs?: number;
+}): TimelineRow[] {
+  const existing = Array.from(params.rows.values()).sort((a, b) => a.startMs - b.startMs);
+  const firstMs = params.sinceMs ?? existing[0]?.startMs;
+  const lastMs = params.untilMs ?? existing[existing.length - 1]?.startMs;
+  if (firstMs === undefined || lastMs === undefined) return existing;
+
+  const out: TimelineRow[] = [];
+  // untilMs is an exclusive bound; the bucket containing untilMs - 1 is the last one.
+  const endMs = startOfTimeBucketMs(
+    params.untilMs !== undefined ? lastMs - 1 : lastMs,
+    params.unit,
+  );
+  for (
+    let cur = startOfTimeBucketMs(firstMs, params.unit);
+    cur <= endMs;
+    cur = nextTimeBucketMs(cur, params.unit)
+  ) {
+    if (out.length >= MAX_TIMELINE_BUCKETS) return existing;
+    out.push(
+      params.rows.get(cur) ?? { startMs: cur, tokens: emptyBuckets(), costUsd: 0, messageCount: 0 },
+    );
+  }
+  return out;
+}
+
 export async function aggregateUsage(params: {
   sinceMs?: number;
   untilMs?: number;
   sessionID?: string;
+  /** With sessionID: also include usage from its subagent sessions */
+  includeChildSessions?: boolean;
+  /** Fold subagent sessions into their root session in bySession */
+  rollupSubagents?: boolean;
+  /** Also bucket usage by local hour/day/week into `timeline` */
+  groupBy?: TimeBucketUnit;
 }): Promise<AggregateResult> {
+  // Pick up edits to the pricing override / imported files without a restart.
+  reloadPricing({ ifChanged: true });
+  const sessionsIdx = await readAllSessionsIndex();
+
   // Use session-scoped iterator when filtering by sessionID for better performance
   let messages: OpenCodeMessage[];
   if (params.sessionID) {
@@ -330,15 +575,27 @@ export async function aggregateUsage(params: {
       sinceMs: params.sinceMs,
       untilMs: params.untilMs,
     });
+    if (params.includeChildSessions) {
+      for (const childID of getDescendantSessionIDs(sessionsIdx, params.sessionID)) {
+        messages = messages.concat(
+          await iterAssistantMessagesForSession({
+            sessionID: childID,
+            sinceMs: params.sinceMs,
+            untilMs: params.untilMs,
+          }),
+        );
+      }
+    }
   } else {
     messages = await iterAssistantMessages({ sinceMs: params.sinceMs, untilMs: params.untilMs });
   }
-  const sessionsIdx = await readAllSessionsIndex();
 
   const byModel = new Map<string, AggregateRow>();
   const bySession = new Map<string, SessionRow>();
   const bySourceProvider = new Map<string, SourceProviderRow>();
   const bySourceModel = new Map<string, SourceModelRow>();
+  const byAgent = new Map<string, AgentRow>();
+  const byMode = new Map<string, ModeRow>();
   const unknown = new Map<string, UnknownRow>();
   const unpriced = new Map<string, UnpricedRow>();
 
@@ -347,10 +604,26 @@ export async function aggregateUsage(params: {
   let unpricedTotals = emptyBuckets();
   let costTotal = 0;
 
+  const timeline = new Map<number, TimelineRow>();
+
   for (const msg of messages) {
     const tokens = messageBuckets(msg);
     const mapping = mapToOfficialPricingKey({ providerID: msg.providerID, modelID: msg.modelID });
 
+    let timelineRow: TimelineRow | undefined;
+    const createdMs = msg.time?.created;
+    if (params.groupBy && typeof createdMs === "number") {
+      const startMs = startOfTimeBucketMs(createdMs, params.groupBy);
+      timelineRow = timeline.get(startMs);
+      if (timelineRow) {
+        timelineRow.tokens = addBuckets(timelineRow.tokens, tokens);
+        timelineRow.messageCount += 1;
+      } else {
+        timelineRow = { startMs, tokens, costUsd: 0, messageCount: 1 };
+        timeline.set(startMs, timelineRow);
+      }
+    }
+
     if (!mapping.ok) {
       unknownTotals = addBuckets(unknownTotals, tokens);
       const k = JSON.stringify(mapping.unknown);
@@ -416,6 +689,7 @@ export async function aggregateUsage(params: {
 
     pricedTotals = addBuckets(pricedTotals, tokens);
     costTotal += priced.costUsd;
+    if (timelineRow) timelineRow.costUsd += priced.costUsd;
 
     // Tokscale-style: key by OpenCode source provider + source model id.
     const srcProviderID = msg.providerID ?? "unknown";
@@ -466,6 +740,11 @@ export async function aggregateUsage(params: {
       });
     }
 
+    const agent = msg.agent ?? "unknown";
+    addToRollup(byAgent, agent, tokens, priced.costUsd, () => ({ agent }));
+    const mode = msg.mode ?? "unknown";
+    addToRollup(byMode, mode, tokens, priced.costUsd, () => ({ mode }));
+
     const sid = msg.sessionID;
     const s = bySession.get(sid);
     const title = sessionsIdx[sid]?.title;
@@ -485,13 +764,18 @@ export async function aggregateUsage(params: {
   }
 
   const byModelRows = Array.from(byModel.values()).sort((a, b) => b.costUsd - a.costUsd);
-  const bySessionRows = Array.from(bySession.values()).sort((a, b) => b.costUsd - a.costUsd);
+  const sessionRows = Array.from(bySession.values()).sort((a, b) => b.costUsd - a.costUsd);
+  const bySessionRows = params.rollupSubagents
+    ? rollupSubagentSessions(sessionRows, sessionsIdx)
+    : sessionRows;
   const bySourceProviderRows = Array.from(bySourceProvider.values()).sort(
     (a, b) => b.costUsd - a.costUsd,
   );
   const bySourceModelRows = Array.from(bySourceModel.values()).sort(
     (a, b) => b.costUsd - a.costUsd,
   );
+  const byAgentRows = Array.from(byAgent.values()).sort((a, b) => b.costUsd - a.costUsd);
+  const byModeRows = Array.from(byMode.values()).sort((a, b) => b.costUsd - a.costUsd);
   const unknownRows = Array.from(unknown.values()).sort(
     (a, b) =>
       b.tokens.input +
@@ -534,6 +818,19 @@ export async function aggregateUsage(params: {
     bySourceModel: bySourceModelRows,
     byModel: byModelRows,
     bySession: bySessionRows,
+    byAgent: byAgentRows,
+    byMode: byModeRows,
+    timeline: params.groupBy
+      ? {
+          unit: params.groupBy,
+          rows: fillTimelineGaps({
+            rows: timeline,
+            unit: params.groupBy,
+            sinceMs: params.sinceMs,
+            untilMs: params.untilMs,
+          }),
+        }
+      : undefined,
     unknown: unknownRows,
     unpriced: unpricedRows,
   };
@@ -6,13 +6,23 @@ import { getGoogleTokenCachePath } from "./google-token-cache.js";
 import { getAntigravityAccountsCandidatePaths, readAntigravityAccounts } from "./google.js";
 import { getFirmwareKeyDiagnostics } from "./firmware.js";
 import { getChutesKeyDiagnostics } from "./chutes.js";
+import { getOpenRouterKeyDiagnostics } from "./openrouter.js";
 import {
   computeQwenQuota,
   getQwenLocalQuotaPath,
   readQwenLocalQuotaState,
 } from "./qwen-local-quota.js";
+import { getQuotaHistoryPath, quotaHistoryKey, readQuotaHistory } from "./quota-history.js";
+import { getQuotaAlertStatePath } from "./quota-alerts.js";
+import { formatEntryAge, getLastGoodEntriesPath } from "./last-good-entries.js";
+import { formatResetCountdown } from "./format-utils.js";
+import { getCopilotResetDiagnostics } from "./copilot.js";
+import { getNetworkDiagnostics } from "./network.js";
+import { getSecretTemplateDiagnostics } from "./env-template.js";
 import {
+  getPricingLayers,
   getPricingSnapshotMeta,
+  getPricingSource,
   listProviders,
   getProviderModelCount,
   hasProvider as snapshotHasProvider,
@@ -25,6 +35,20 @@ import {
   getOpenCodeDbStats,
 } from "./opencode-storage.js";
 import { aggregateUsage } from "./quota-stats.js";
+import { describeAccountSource } from "./accounts.js";
+import type { AccountsConfig, BaseUrlsConfig, LedgerConfig } from "./types.js";
+import { describeLedgerLimits, ledgerProviderId } from "./ledger.js";
+
+/** Latest failed fetch of a provider whose toast rows fall back to last-known values */
+export interface ProviderFailureStatus {
+  id: string;
+  errors: Array<{ label: string; message: string }>;
+  timestamp: number;
+  /** Consecutive failures */
+  failures: number;
+  /** Remaining circuit breaker pause (0 when not paused) */
+  pausedForMs: number;
+}
 
 /** Session token fetch error info for status report */
 export interface SessionTokenError {
@@ -205,6 +229,14 @@ export async function buildQuotaStatusReport(params: {
     failures?: Array<{ email?: string; error: string }>;
   };
   sessionTokenError?: SessionTokenError;
+  /** Multi-account config (experimental.quotaToast.accounts) */
+  accounts?: AccountsConfig;
+  /** API base URL overrides (experimental.quotaToast.baseUrls) */
+  baseUrls?: BaseUrlsConfig;
+  /** Local ledgers (experimental.quotaToast.ledgers) */
+  ledgers?: LedgerConfig[];
+  /** Real errors hidden from the toast by stale-while-error */
+  providerFailures?: ProviderFailureStatus[];
 }): Promise<string> {
   const lines: string[] = [];
 
@@ -242,6 +274,16 @@ export async function buildQuotaStatusReport(params: {
     lines.push(`  - ${p.id}: ${bits.join(" ")}`);
   }
 
+  lines.push("");
+  lines.push("network:");
+  lines.push(...(await getNetworkDiagnostics()));
+
+  const baseUrlOverrides = Object.entries(params.baseUrls ?? {});
+  if (baseUrlOverrides.length > 0) {
+    lines.push("- base_urls:");
+    for (const [id, url] of baseUrlOverrides) lines.push(`  - ${id}: ${url}`);
+  }
+
   lines.push("");
   lines.push("paths:");
 
@@ -294,10 +336,37 @@ export async function buildQuotaStatusReport(params: {
     lines.push(`- qwen local usage: error (${msg})`);
   }
 
+  const quotaHistoryPath = getQuotaHistoryPath();
+  const quotaHistoryExists = await pathExists(quotaHistoryPath);
+  lines.push(`- quota history: ${quotaHistoryPath}${quotaHistoryExists ? "" : " (missing)"}`);
+  if (quotaHistoryExists) {
+    const history = await readQuotaHistory();
+    const series = new Set(history.samples.map((s) => quotaHistoryKey(s.providerId, s.name)));
+    lines.push(
+      `- quota history samples: ${fmtInt(history.samples.length)} entries=${fmtInt(series.size)}`,
+    );
+  }
+
+  const quotaAlertStatePath = getQuotaAlertStatePath();
+  lines.push(
+    `- quota alert state: ${quotaAlertStatePath}${(await pathExists(quotaAlertStatePath)) ? "" : " (missing)"}`,
+  );
+
+  const lastGoodPath = getLastGoodEntriesPath();
+  lines.push(
+    `- last good entries: ${lastGoodPath}${(await pathExists(lastGoodPath)) ? "" : " (missing)"}`,
+  );
+
   // Firmware API key diagnostics
-  let firmwareDiag: { configured: boolean; source: string | null; checkedPaths: string[] } = {
+  let firmwareDiag: {
+    configured: boolean;
+    source: string | null;
+    via: string | null;
+    checkedPaths: string[];
+  } = {
     configured: false,
     source: null,
+    via: null,
     checkedPaths: [],
   };
   try {
@@ -307,16 +376,23 @@ export async function buildQuotaStatusReport(params: {
   }
   lines.push(`- firmware api key configured: ${firmwareDiag.configured ? "true" : "false"}`);
   if (firmwareDiag.source) {
-    lines.push(`- firmware api key source: ${firmwareDiag.source}`);
+    const via = firmwareDiag.via ? ` (via ${firmwareDiag.via})` : "";
+    lines.push(`- firmware api key source: ${firmwareDiag.source}${via}`);
   }
   if (firmwareDiag.checkedPaths.length > 0) {
     lines.push(`- firmware api key checked: ${firmwareDiag.checkedPaths.join(" | ")}`);
   }
 
   // Chutes API key diagnostics
-  let chutesDiag: { configured: boolean; source: string | null; checkedPaths: string[] } = {
+  let chutesDiag: {
+    configured: boolean;
+    source: string | null;
+    via: string | null;
+    checkedPaths: string[];
+  } = {
     configured: false,
     source: null,
+    via: null,
     checkedPaths: [],
   };
   try {
@@ -326,12 +402,39 @@ export async function buildQuotaStatusReport(params: {
   }
   lines.push(`- chutes api key configured: ${chutesDiag.configured ? "true" : "false"}`);
   if (chutesDiag.source) {
-    lines.push(`- chutes api key source: ${chutesDiag.source}`);
+    const via = chutesDiag.via ? ` (via ${chutesDiag.via})` : "";
+    lines.push(`- chutes api key source: ${chutesDiag.source}${via}`);
   }
   if (chutesDiag.checkedPaths.length > 0) {
     lines.push(`- chutes api key checked: ${chutesDiag.checkedPaths.join(" | ")}`);
   }
 
+  // OpenRouter API key diagnostics
+  let openrouterDiag: {
+    configured: boolean;
+    source: string | null;
+    via: string | null;
+    checkedPaths: string[];
+  } = {
+    configured: false,
+    source: null,
+    via: null,
+    checkedPaths: [],
+  };
+  try {
+    openrouterDiag = await getOpenRouterKeyDiagnostics();
+  } catch {
+    // ignore
+  }
+  lines.push(`- openrouter api key configured: ${openrouterDiag.configured ? "true" : "false"}`);
+  if (openrouterDiag.source) {
+    const via = openrouterDiag.via ? ` (via ${openrouterDiag.via})` : "";
+    lines.push(`- openrouter api key source: ${openrouterDiag.source}${via}`);
+  }
+  if (openrouterDiag.checkedPaths.length > 0) {
+    lines.push(`- openrouter api key checked: ${openrouterDiag.checkedPaths.join(" | ")}`);
+  }
+
   const googleTokenCachePath = getGoogleTokenCachePath();
   lines.push(
     `- google token cache: ${googleTokenCachePath}${(await pathExists(googleTokenCachePath)) ? "" : " (missing)"}`,
@@ -394,6 +497,47 @@ export async function buildQuotaStatusReport(params: {
   lines.push("");
   lines.push(`google accounts: count=${accountCount}`);
 
+  if (params.ledgers && params.ledgers.length > 0) {
+    lines.push("");
+    lines.push("ledgers:");
+    for (const def of params.ledgers) {
+      lines.push(
+        `- ${ledgerProviderId(def)} (${def.name}): ${describeLedgerLimits(def)} from ${def.providerIDs.join(", ")}`,
+      );
+    }
+  }
+
+  const configuredAccounts = Object.entries(params.accounts ?? {}).filter(
+    ([, list]) => list && list.length > 0,
+  );
+  if (configuredAccounts.length > 0) {
+    lines.push("");
+    lines.push("accounts:");
+    for (const [id, list] of configuredAccounts) {
+      for (const account of list ?? []) {
+        // Only the source is printed, never the token itself.
+        const host = account.baseUrl ? ` (${account.baseUrl})` : "";
+        lines.push(`- ${id} ${account.label}: ${describeAccountSource(account)}${host}`);
+      }
+    }
+  }
+
+  // === Copilot reset date (which source won, and any disagreement) ===
+  const copilotReset = getCopilotResetDiagnostics();
+  if (copilotReset.length > 0) {
+    lines.push("");
+    lines.push("copilot_reset:");
+    lines.push(...copilotReset);
+  }
+
+  // === {file:} / {cmd:} secret references (status only, never the secret) ===
+  const secretRefs = getSecretTemplateDiagnostics();
+  if (secretRefs.length > 0) {
+    lines.push("");
+    lines.push("secret_refs:");
+    lines.push(...secretRefs);
+  }
+
   // === session token errors ===
   if (params.sessionTokenError) {
     lines.push("");
@@ -405,6 +549,22 @@ export async function buildQuotaStatusReport(params: {
     }
   }
 
+  // === provider errors (the toast shows last-known values instead) ===
+  if (params.providerFailures && params.providerFailures.length > 0) {
+    lines.push("");
+    lines.push("provider_errors:");
+    for (const f of params.providerFailures) {
+      const resumeIso = new Date(Date.now() + f.pausedForMs).toISOString();
+      const paused = f.pausedForMs > 0 ? ` paused_for=${formatResetCountdown(resumeIso)}` : "";
+      lines.push(
+        `- ${f.id}: failures=${f.failures} last=${formatEntryAge(Date.now() - f.timestamp)}${paused}`,
+      );
+      for (const err of f.errors) {
+        lines.push(`  - ${err.label}: ${err.message}`);
+      }
+    }
+  }
+
   // === storage scan ===
   const dbStats = await getOpenCodeDbStats();
   lines.push("");
@@ -441,6 +601,41 @@ export async function buildQuotaStatusReport(params: {
     );
   }
 
+  // === pricing layers ===
+  // Later layers win per model: bundled snapshot < imported < override.
+  const layers = getPricingLayers();
+  lines.push("");
+  lines.push("pricing_layers:");
+  lines.push(`- snapshot: bundled generatedAt=${new Date(meta.generatedAt).toISOString()}`);
+  for (const [name, layer] of [
+    ["imported", layers.imported],
+    ["override", layers.override],
+  ] as const) {
+    if (!layer.present) {
+      lines.push(`- ${name}: ${layer.path} (missing)`);
+      continue;
+    }
+    const origin = layer.meta
+      ? ` source=${layer.meta.source} importedAt=${new Date(layer.meta.generatedAt).toISOString()}`
+      : "";
+    const error = layer.error ? ` error=${layer.error}` : "";
+    lines.push(`- ${name}: ${layer.path} models=${fmtInt(layer.models)}${origin}${error}`);
+  }
+
+  lines.push("");
+  lines.push("pricing_sources_seen:");
+  if (agg.byModel.length === 0) {
+    lines.push("- none");
+  } else {
+    for (const row of agg.byModel.slice(0, 40)) {
+      const source = getPricingSource(row.key.provider, row.key.model) ?? "none";
+      lines.push(`- ${row.key.provider}/${row.key.model}: ${source}`);
+    }
+    if (agg.byModel.length > 40) {
+      lines.push(`- ... (${fmtInt(agg.byModel.length - 40)} more)`);
+    }
+  }
+
   // === supported providers pricing ===
   const supported = getProviders().map((p) => p.id);
   lines.push("");
@@ -1,6 +1,7 @@
-import { mkdir, readFile, rename, rm, writeFile } from "fs/promises";
-import { dirname, join } from "path";
+import { readFile } from "fs/promises";
+import { join } from "path";
 
+import { writeFileAtomic } from "./atomic-write.js";
 import { clampPercent } from "./format-utils.js";
 import { getOpencodeRuntimeDirs } from "./opencode-runtime-paths.js";
 
@@ -121,37 +122,7 @@ async function readStateFromDisk(path: string, nowMs: number): Promise<QwenLocal
 }
 
 async function writeStateToDisk(path: string, state: QwenLocalQuotaStateFileV1): Promise<void> {
-  const dir = dirname(path);
-  const tmp = `${path}.tmp-${process.pid}-${Date.now()}-${Math.random().toString(16).slice(2)}`;
-  await mkdir(dir, { recursive: true });
-  await writeFile(tmp, JSON.stringify(state, null, 2), "utf-8");
-
-  const safeRm = async (target: string): Promise<void> => {
-    try {
-      await rm(target, { force: true });
-    } catch {
-      // best effort cleanup
-    }
-  };
-
-  try {
-    await rename(tmp, path);
-  } catch (err) {
-    const code =
-      err && typeof err === "object" && "code" in err
-        ? String((err as { code?: unknown }).code)
-        : "";
-    const shouldRetryAsReplace =
-      code === "EPERM" || code === "EEXIST" || code === "EACCES" || code === "ENOTEMPTY";
-
-    if (!shouldRetryAsReplace) {
-      await safeRm(tmp);
-      throw err;
-    }
-
-    await safeRm(path);
-    await rename(tmp, path);
-  }
+  await writeFileAtomic(path, JSON.stringify(state, null, 2));
 }
 
 export function getQwenLocalQuotaPath(): string {
@@ -0,0 +1,56 @@
+/**
+ * Local-time buckets for token timelines.
+ *
+ * Days start at local midnight and weeks start on Monday.
+ */
+
+export type TimeBucketUnit = "hour" | "day" | "week";
+
+export function isTimeBucketUnit(value: unknown): value is TimeBucketUnit {
+  return value === "hour" || value === "day" || value === "week";
+}
+
+/** Start (epoch ms) of the local bucket containing `ms`. */
+export function startOfTimeBucketMs(ms: number, unit: TimeBucketUnit): number {
+  const d = new Date(ms);
+  if (unit === "hour") {
+    return new Date(d.getFullYear(), d.getMonth(), d.getDate(), d.getHours()).getTime();
+  }
+  if (unit === "day") {
+    return new Date(d.getFullYear(), d.getMonth(), d.getDate()).getTime();
+  }
+  // getDay(): 0 = Sunday; shift so Monday is the first day of the week.
+  const sinceMonday = (d.getDay() + 6) % 7;
+  return new Date(d.getFullYear(), d.getMonth(), d.getDate() - sinceMonday).getTime();
+}
+
+/** Start of the bucket after the one starting at `startMs` (DST-safe). */
+export function nextTimeBucketMs(startMs: number, unit: TimeBucketUnit): number {
+  const d = new Date(startMs);
+  if (unit === "hour") {
+    return new Date(d.getFullYear(), d.getMonth(), d.getDate(), d.getHours() + 1).getTime();
+  }
+  const days = unit === "day" ? 1 : 7;
+  return new Date(d.getFullYear(), d.getMonth(), d.getDate() + days).getTime();
+}
+
+/**
+ * Start of a timeline covering the last `days` days: the first full bucket in that
+ * range, but never later than the bucket holding `untilMs`, so a range shorter than
+ * one bucket still shows the current (partial) bucket.
+ */
+export function timelineStartMs(untilMs: number, days: number, unit: TimeBucketUnit): number {
+  const firstFull = nextTimeBucketMs(startOfTimeBucketMs(untilMs - days * 86_400_000, unit), unit);
+  return Math.min(firstFull, startOfTimeBucketMs(untilMs, unit));
+}
+
+/** "2026-03-05 14:00" (hour), "2026-03-05 Thu" (day), "2026-03-02 wk" (week) */
+export function formatTimeBucketLabel(startMs: number, unit: TimeBucketUnit): string {
+  const d = new Date(startMs);
+  const ymd = `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, "0")}-${String(d.getDate()).padStart(2, "0")}`;
+  if (unit === "hour") return `${ymd} ${String(d.getHours()).padStart(2, "0")}:00`;
+  if (unit === "day") {
+    return `${ymd} ${["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"][d.getDay()]}`;
+  }
+  return `${ymd} wk`;
+}
@@ -6,9 +6,11 @@
  */
 
 import type { QuotaToastEntry, QuotaToastError, SessionTokensData } from "./entries.js";
-import { isValueEntry } from "./entries.js";
+import { isValueEntry, withStaleMarker } from "./entries.js";
 import { bar, clampInt, formatResetCountdown, padLeft, padRight } from "./format-utils.js";
 import { renderSessionTokensLines } from "./session-tokens-format.js";
+import { formatForecastMarker, type QuotaForecast } from "./quota-forecast.js";
+import { quotaHistoryKey } from "./quota-history.js";
 
 export type ToastGroupEntry = QuotaToastEntry & {
   /** Group id (e.g. "OpenAI (Pro)", "Antigravity (abc..gmail)") */
@@ -34,6 +36,7 @@ export function formatQuotaRowsGrouped(params: {
   entries?: ToastGroupEntry[];
   errors?: QuotaToastError[];
   sessionTokens?: SessionTokensData;
+  forecasts?: Map<string, QuotaForecast>;
 }): string {
   const layout = params.layout ?? { maxWidth: 50, narrowAt: 42, tinyAt: 32 };
   const maxWidth = layout.maxWidth;
@@ -77,8 +80,9 @@ export function formatQuotaRowsGrouped(params: {
     const list = groups.get(g) ?? [];
     if (gi > 0) lines.push("");
 
-    // Group header like "→ [OpenAI] (Pro)"
-    lines.push(`→ ${g}`.slice(0, maxWidth));
+    // Group header like "→ [OpenAI] (Pro)", plus "(5m ago)" for last-known values
+    const staleAge = list.find((e) => e.staleAge)?.staleAge;
+    lines.push(`→ ${withStaleMarker(g, staleAge)}`.slice(0, maxWidth));
 
     for (const entry of list) {
       const label = entry.label?.trim() || entry.name;
@@ -124,6 +128,8 @@ export function formatQuotaRowsGrouped(params: {
       // Show reset countdown whenever quota is not fully available.
       // (i.e., any usage at all, or depleted)
       const timeStr = entry.percentRemaining < 100 ? formatResetCountdown(entry.resetTimeIso) : "";
+      const forecast = params.forecasts?.get(quotaHistoryKey(entry.providerId, entry.name));
+      const marker = forecast ? formatForecastMarker(forecast) : null;
 
       if (isTiny) {
         // Tiny: "label  time  XX%" (ignore bar)
@@ -134,6 +140,7 @@ export function formatQuotaRowsGrouped(params: {
           padLeft(`${clampInt(entry.percentRemaining, 0, 100)}%`, percentCol),
         ].join(separator);
         lines.push(line.slice(0, maxWidth));
+        if (marker) lines.push(marker.slice(0, maxWidth));
         continue;
       }
 
@@ -149,6 +156,7 @@ export function formatQuotaRowsGrouped(params: {
       const barCell = bar(entry.percentRemaining, barWidth);
       const percentCell = padLeft(`${clampInt(entry.percentRemaining, 0, 100)}%`, percentCol);
       lines.push([barCell, percentCell].join(separator));
+      if (marker) lines.push(marker.slice(0, maxWidth));
     }
   }
 
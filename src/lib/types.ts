@@ -20,6 +20,12 @@ export interface QuotaToastConfig {
   toastStyle: "classic" | "grouped";
   minIntervalMs: number;
 
+  /**
+   * Background polling interval while a session is busy (0 = off, minimum 60000).
+   * Polls back off once every session is idle; a toast is shown only on meaningful change.
+   */
+  pollIntervalMs: number;
+
   /**
    * Debug mode for troubleshooting.
    *
@@ -54,6 +60,51 @@ export interface QuotaToastConfig {
   /** If true, show per-model input/output token counts for current session */
   showSessionTokens: boolean;
 
+  /** If true, add a line naming the best Antigravity account per family (see /quota_best) */
+  showBestAccount: boolean;
+
+  /** If true, add a Copilot organization/enterprise premium request entry (see /quota_copilot_org) */
+  showCopilotOrg: boolean;
+
+  /**
+   * If true, token reports fold subagent (child) sessions into their root session,
+   * and /tokens_session includes the subagents spawned by the current session.
+   */
+  rollupSubagents: boolean;
+
+  /**
+   * Percent-remaining thresholds that raise a warning/error toast when crossed.
+   *
+   * Keys are provider ids, or "*" for providers without their own list.
+   * Example: { "copilot": [50, 20, 5], "*": [10] }.
+   * Each threshold alerts once per reset window and bypasses minIntervalMs.
+   */
+  alerts: Record<string, number[]>;
+
+  /** Config-declared HTTP quota endpoints (see CustomProviderConfig). */
+  customProviders: CustomProviderConfig[];
+
+  /** Month-to-date USD spend caps, compared against token report costs. */
+  budgets: BudgetsConfig;
+
+  /** Token/USD limits tracked from local usage, one provider each (see LedgerConfig). */
+  ledgers: LedgerConfig[];
+
+  /**
+   * Extra credentials for providers that support several accounts.
+   * When a provider has accounts listed, one entry is shown per account.
+   */
+  accounts: AccountsConfig;
+
+  /** Provider request retries and the per-provider circuit breaker. */
+  http: HttpConfig;
+
+  /** Proxy and private CA for provider requests. */
+  network: NetworkConfig;
+
+  /** API base URL overrides for enterprise, regional or staging hosts. */
+  baseUrls: BaseUrlsConfig;
+
   /** Responsive layout breakpoints */
   layout: {
     /** Default max width target for formatting */
@@ -72,6 +123,7 @@ export const DEFAULT_CONFIG: QuotaToastConfig = {
   enableToast: true,
   toastStyle: "classic",
   minIntervalMs: 300000, // 5 minutes
+  pollIntervalMs: 0,
 
   debug: false,
 
@@ -88,6 +140,25 @@ export const DEFAULT_CONFIG: QuotaToastConfig = {
   toastDurationMs: 9000,
   onlyCurrentModel: false,
   showSessionTokens: true,
+  showBestAccount: false,
+  showCopilotOrg: false,
+  rollupSubagents: false,
+  alerts: {},
+  customProviders: [],
+  budgets: { providers: {}, models: {} },
+  ledgers: [],
+  accounts: {},
+  http: {
+    timeoutMs: 3000,
+    retries: 2,
+    retryBaseDelayMs: 500,
+    retryMaxDelayMs: 5000,
+    breakerThreshold: 3,
+    breakerCooldownMs: 300000, // 5 minutes
+    fetchBudgetMs: 10000,
+  },
+  network: {},
+  baseUrls: {},
   layout: {
     maxWidth: 50,
     narrowAt: 42,
@@ -95,6 +166,146 @@ export const DEFAULT_CONFIG: QuotaToastConfig = {
   },
 };
 
+/**
+ * Extraction rule mapping part of a custom provider response to one entry.
+ *
+ * Paths use the JSONPath-style subset in json-path.ts (e.g. "$.data.quota[0].used").
+ * A percent entry needs `percentRemaining`, `remaining` + `limit`, or `used` + `limit`.
+ * A value entry needs `value`.
+ */
+export interface CustomProviderEntryRule {
+  /** Row label, e.g. "Daily" */
+  name: string;
+  percentRemaining?: string;
+  used?: string;
+  remaining?: string;
+  limit?: string;
+  value?: string;
+  /** How to render `value`: as-is (default), as USD, or as a grouped number */
+  format?: "raw" | "usd" | "number";
+  /** Reset time: ISO string, epoch seconds or epoch milliseconds */
+  resetAt?: string;
+}
+
+/** Declarative quota endpoint from experimental.quotaToast.customProviders */
+export interface CustomProviderConfig {
+  /** Stable id used by enabledProviders / alerts */
+  id: string;
+  /** Display name (defaults to id) */
+  name: string;
+  url: string;
+  method: "GET" | "POST";
+  /** Header values support {env:VAR} templates anywhere in the string */
+  headers: Record<string, string>;
+  /** Optional request body (objects are sent as JSON) */
+  body?: string;
+  entries: CustomProviderEntryRule[];
+}
+
+/**
+ * Monthly USD budgets (calendar month, local timezone).
+ *
+ * Spend is the models.dev API-equivalent cost computed for the token reports.
+ */
+export interface BudgetsConfig {
+  /** Cap for all priced usage */
+  monthlyUsd?: number;
+  /** Caps keyed by OpenCode provider id, e.g. { "anthropic": 200 } */
+  providers: Record<string, number>;
+  /** Caps keyed by model id or "provider/model", e.g. { "openai/gpt-5": 50 } */
+  models: Record<string, number>;
+}
+
+export type LedgerPeriod = "day" | "week" | "month";
+
+/**
+ * Local ledger from experimental.quotaToast.ledgers: a quota for API-key providers
+ * without a quota endpoint, computed from OpenCode's own usage history.
+ */
+export interface LedgerConfig {
+  /** Stable id used by enabledProviders / alerts */
+  id: string;
+  /** Display name (defaults to id) */
+  name: string;
+  /** OpenCode provider ids whose usage counts (lowercase; defaults to [id]) */
+  providerIDs: string[];
+  /** Token cap per period (all token buckets, including cache reads/writes) */
+  tokens?: number;
+  /** USD cap per period (models.dev API-equivalent cost of priced usage) */
+  usd?: number;
+  period: LedgerPeriod;
+  /**
+   * Epoch ms of any period start; periods repeat every day/week/month from it.
+   * Without an anchor: local midnight, Monday, or the 1st of the month.
+   */
+  resetAnchorMs?: number;
+}
+
+/** Providers that accept an `accounts` list */
+export type MultiAccountProviderId = "copilot" | "openai" | "zai";
+
+/**
+ * One credential for a multi-account provider.
+ *
+ * The token is read from the first source set: `file`, then `env`, then `authKey`.
+ * Files may hold a bare token or a JSON object shaped like an auth.json entry.
+ */
+export interface ProviderAccountConfig {
+  /** Short label shown next to the provider name, e.g. "work" */
+  label: string;
+  /** Path to a token file (`~` expands to the home directory) */
+  file?: string;
+  /** Environment variable holding the token */
+  env?: string;
+  /** Key of an entry in OpenCode's auth.json, e.g. "github-copilot-work" */
+  authKey?: string;
+  /** Copilot only: GitHub API host for this account (overrides baseUrls.copilot) */
+  baseUrl?: string;
+}
+
+export type AccountsConfig = Partial<Record<MultiAccountProviderId, ProviderAccountConfig[]>>;
+
+/** Retry and circuit breaker settings for provider HTTP calls (see http.ts). */
+export interface HttpConfig {
+  /** Timeout per attempt */
+  timeoutMs: number;
+  /** Extra attempts after a network error, timeout, 408, 429 or 5xx (0 = no retries) */
+  retries: number;
+  /** First retry delay; doubles on each attempt, with jitter */
+  retryBaseDelayMs: number;
+  /** Longest wait between attempts; a longer Retry-After is not waited out */
+  retryMaxDelayMs: number;
+  /** Consecutive failed fetches before a provider is paused (0 = never pause) */
+  breakerThreshold: number;
+  /** How long a paused provider is skipped; doubles while it keeps failing */
+  breakerCooldownMs: number;
+  /** Total time for one provider fetch, across all its requests and retries (0 = no limit) */
+  fetchBudgetMs: number;
+}
+
+/**
+ * Proxy and CA settings for provider requests (see network.ts).
+ *
+ * HTTPS_PROXY / HTTP_PROXY are used when `proxy` is unset; NO_PROXY always applies.
+ */
+export interface NetworkConfig {
+  /** Proxy URL, e.g. "http://proxy.corp.example:3128" */
+  proxy?: string;
+  /** PEM file with extra root certificates (`~` expands to the home directory) */
+  caFile?: string;
+}
+
+/** Providers whose API host can be overridden */
+export type BaseUrlProviderId = "copilot" | "openai" | "zai" | "chutes" | "firmware" | "openrouter";
+
+/**
+ * API base URLs keyed by provider id (see base-urls.ts for the defaults).
+ *
+ * For Copilot, a GitHub Enterprise Server or GHE.com host is mapped to its API
+ * base (e.g. "github.corp.example" -> "https://github.corp.example/api/v3").
+ */
+export type BaseUrlsConfig = Partial<Record<BaseUrlProviderId, string>>;
+
 // =============================================================================
 // Auth Data Types (from ~/.local/share/opencode/auth.json)
 // =============================================================================
@@ -105,6 +316,8 @@ export interface CopilotAuthData {
   refresh?: string;
   access?: string;
   expires?: number;
+  /** Set by OpenCode for GitHub Enterprise logins, e.g. "octo.ghe.com" */
+  enterpriseUrl?: string;
 }
 
 /**
@@ -130,6 +343,25 @@ export interface CopilotQuotaConfig {
   username?: string;
   /** Copilot subscription tier (determines monthly quota limit) */
   tier: CopilotTier;
+  /** Optional org/enterprise seat usage (see CopilotOrgConfig) */
+  org?: CopilotOrgConfig;
+}
+
+/**
+ * Organization or enterprise premium request reporting (`org` in copilot-quota-token.json).
+ *
+ * The token must be able to read the org's billing usage and Copilot seats
+ * (an org owner / billing manager PAT, or an enterprise admin for enterprises).
+ */
+export interface CopilotOrgConfig {
+  /** Organization login or enterprise slug */
+  slug: string;
+  /** Default: "organization" */
+  scope: "organization" | "enterprise";
+  /** Admin PAT (default: the top-level token) */
+  token: string;
+  /** Seat type, which sets the per-seat monthly allowance (default: business for orgs) */
+  tier: Extract<CopilotTier, "business" | "enterprise">;
 }
 
 /** Full auth.json structure (partial - only what we need) */
@@ -177,6 +409,10 @@ export interface AuthData {
     type: string;
     key?: string;
   };
+  openrouter?: {
+    type: string;
+    key?: string;
+  };
   "opencode-qwencode-auth"?: {
     type: string;
     access?: string;
@@ -310,15 +546,26 @@ export interface ZaiQuotaResponse {
   success: boolean;
 }
 
+/** One Z.ai limit window (one entry of `data.limits`) */
+export interface ZaiLimitWindow {
+  /** API limit type, e.g. "TOKENS_LIMIT" or "TIME_LIMIT" (MCP tools) */
+  type: string;
+  /** Period from unit/number, e.g. "5-Hour", "Daily", "Weekly", "Monthly" */
+  period: string;
+  /** Row label: the period for token limits, "MCP <period>" for time limits */
+  name: string;
+  percentRemaining: number;
+  resetTimeIso?: string;
+  /** Usage per model (or MCP tool) in this window, most used first */
+  models?: Array<{ model: string; usage: number }>;
+}
+
 /** Result from fetching Z.ai quota */
 export interface ZaiQuotaResult {
   success: true;
   label: string;
-  windows: {
-    hourly?: { percentRemaining: number; resetTimeIso?: string };
-    weekly?: { percentRemaining: number; resetTimeIso?: string };
-    mcp?: { percentRemaining: number; resetTimeIso?: string };
-  };
+  /** In API order */
+  windows: ZaiLimitWindow[];
 }
 
 // =============================================================================
@@ -332,6 +579,35 @@ export interface CopilotQuotaResult {
   total: number;
   percentRemaining: number;
   resetTimeIso?: string;
+  /** Per-model premium requests, most used first (billing API only) */
+  models?: CopilotModelUsage[];
+  /** How resetTimeIso was chosen (see resolveCopilotResetDate) */
+  reset?: CopilotResetResolution;
+}
+
+/**
+ * Where a Copilot reset date came from, most trusted first:
+ * - quota_reset_date: GitHub's own date from the internal quota API
+ * - assigned_date: next monthly anniversary of the seat/plan assignment
+ * - calendar_month: first of next month (UTC), when nothing better is known
+ */
+export type CopilotResetSource = "quota_reset_date" | "assigned_date" | "calendar_month";
+
+export interface CopilotResetResolution {
+  resetTimeIso: string;
+  source: CopilotResetSource;
+  /** Lower-priority sources that disagreed with the winner by more than a day */
+  conflicts: Array<{ source: CopilotResetSource; resetTimeIso: string }>;
+}
+
+/** Premium requests charged for one model this month */
+export interface CopilotModelUsage {
+  /** Model name as reported by the billing API, e.g. "Claude Opus 4" */
+  model: string;
+  /** Premium requests charged (the multiplier is already applied) */
+  used: number;
+  /** Estimated premium request multiplier, when known (see COPILOT_MODEL_MULTIPLIERS) */
+  multiplier?: number;
 }
 
 /** Result from fetching Google quota for a single model */
@@ -375,6 +651,43 @@ export type ChutesResult =
   | QuotaError
   | null;
 
+/** Spending limit set on an OpenRouter API key */
+export interface OpenRouterKeyLimit {
+  limitUsd: number;
+  remainingUsd: number;
+  percentRemaining: number;
+  /** Next reset for daily/weekly/monthly limits (absent for one-off limits) */
+  resetTimeIso?: string;
+}
+
+export type OpenRouterResult =
+  | {
+      success: true;
+      /** Account credits left (purchased minus used) */
+      creditsRemainingUsd?: number;
+      /** Why credits are missing, e.g. the key cannot read /credits */
+      creditsError?: string;
+      /** Present only when the key has a limit */
+      limit?: OpenRouterKeyLimit;
+    }
+  | QuotaError
+  | null;
+
+/** Entry extracted by a custom provider rule */
+export type CustomProviderEntry =
+  | { kind: "percent"; name: string; percentRemaining: number; resetTimeIso?: string }
+  | { kind: "value"; name: string; value: string; resetTimeIso?: string };
+
+export type CustomProviderResult =
+  | {
+      success: true;
+      entries: CustomProviderEntry[];
+      /** Rules whose paths did not resolve */
+      missing: string[];
+    }
+  | QuotaError
+  | null;
+
 /** Cached toast data */
 export interface CachedToast {
   message: string;
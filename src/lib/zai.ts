@@ -6,13 +6,18 @@
  */
 
 import { clampPercent } from "./format-utils.js";
-import { fetchWithTimeout } from "./http.js";
+import { getBaseUrl } from "./base-urls.js";
+import { fetchWithRetry } from "./http.js";
 import { readAuthFile } from "./opencode-auth.js";
 import type {
+  ProviderAccountConfig,
   ZaiResult,
   ZaiAuthData,
+  ZaiLimitWindow,
+  ZaiQuotaLimit,
   ZaiQuotaResponse,
 } from "./types.js";
+import { queryAccounts, type AccountCredential, type AccountQueryResult } from "./accounts.js";
 
 async function readZaiAuth(): Promise<ZaiAuthData | null> {
   const auth = await readAuthFile();
@@ -21,12 +26,80 @@ async function readZaiAuth(): Promise<ZaiAuthData | null> {
   return zai as ZaiAuthData;
 }
 
-const ZAI_QUOTA_URL = "https://api.z.ai/api/monitor/usage/quota/limit";
+const ZAI_QUOTA_PATH = "/api/monitor/usage/quota/limit";
+
+function toZaiAuth(credential: AccountCredential): ZaiAuthData | null {
+  if (credential.kind === "token") return { type: "api", key: credential.token };
+  const entry = credential.entry;
+  if (entry.type !== "api" || typeof entry.key !== "string" || !entry.key) return null;
+  return { type: "api", key: entry.key };
+}
 
 export async function queryZaiQuota(): Promise<ZaiResult> {
   const auth = await readZaiAuth();
   if (!auth) return null;
+  return await queryZaiQuotaWithAuth(auth, "Z.ai");
+}
+
+/** Query each configured account; bare tokens are used as the Z.ai API key. */
+export async function queryZaiAccountsQuota(
+  accounts: ProviderAccountConfig[],
+): Promise<AccountQueryResult<ZaiResult>[]> {
+  return await queryAccounts<ZaiResult>(
+    accounts,
+    async (credential, account) => {
+      const auth = toZaiAuth(credential);
+      if (!auth) return { success: false, error: "Not a Z.ai API key credential" };
+      return await queryZaiQuotaWithAuth(auth, `Z.ai (${account.label})`);
+    },
+    (error) => ({ success: false, error }),
+  );
+}
 
+/** Z.ai `unit` codes: 3 = hours, 4 = days, 5 = months, 6 = weeks. */
+const ZAI_UNITS: Record<number, { unit: string; every: string }> = {
+  3: { unit: "Hour", every: "Hourly" },
+  4: { unit: "Day", every: "Daily" },
+  5: { unit: "Month", every: "Monthly" },
+  6: { unit: "Week", every: "Weekly" },
+};
+
+/** "Daily" for one day, "5-Hour" for five hours. */
+export function zaiPeriodName(unit: number, count: number | undefined): string {
+  const names = ZAI_UNITS[unit];
+  if (!names) return `Unit ${unit}`;
+  return !count || count === 1 ? names.every : `${count}-${names.unit}`;
+}
+
+function toLimitWindow(limit: ZaiQuotaLimit): ZaiLimitWindow {
+  let resetTimeIso: string | undefined;
+  if (limit.nextResetTime) {
+    const ms = Math.round(limit.nextResetTime);
+    if (Number.isFinite(ms) && ms > 0) {
+      resetTimeIso = new Date(ms).toISOString();
+    }
+  }
+
+  const period = zaiPeriodName(limit.unit, limit.number);
+  const window: ZaiLimitWindow = {
+    type: limit.type,
+    period,
+    // TIME_LIMIT counts MCP tool calls (web search, reader, ...).
+    name: limit.type === "TIME_LIMIT" ? `MCP ${period}` : period,
+    percentRemaining: clampPercent(100 - limit.percentage),
+    resetTimeIso,
+  };
+
+  const models = (Array.isArray(limit.usageDetails) ? limit.usageDetails : [])
+    .filter((d) => d && typeof d.modelCode === "string" && d.modelCode && d.usage > 0)
+    .map((d) => ({ model: d.modelCode, usage: d.usage }))
+    .sort((a, b) => b.usage - a.usage || a.model.localeCompare(b.model));
+  if (models.length > 0) window.models = models;
+
+  return window;
+}
+
+async function queryZaiQuotaWithAuth(auth: ZaiAuthData, label: string): Promise<ZaiResult> {
   try {
     const headers: Record<string, string> = {
       Authorization: auth.key,
@@ -34,7 +107,7 @@ export async function queryZaiQuota(): Promise<ZaiResult> {
       "Content-Type": "application/json",
     };
 
-    const resp = await fetchWithTimeout(ZAI_QUOTA_URL, { headers });
+    const resp = await fetchWithRetry(`${getBaseUrl("zai")}${ZAI_QUOTA_PATH}`, { headers });
     if (!resp.ok) {
       const text = await resp.text();
       return {
@@ -50,45 +123,10 @@ export async function queryZaiQuota(): Promise<ZaiResult> {
       return { success: false, error: "Invalid quota data" };
     }
 
-    let hourlyWindow: { percentRemaining: number; resetTimeIso?: string } | undefined;
-    let weeklyWindow: { percentRemaining: number; resetTimeIso?: string } | undefined;
-    let mcpWindow: { percentRemaining: number; resetTimeIso?: string } | undefined;
-
-    for (const limit of limits) {
-      const percentRemaining = clampPercent(100 - limit.percentage);
-      let resetTimeIso: string | undefined;
-
-      if (limit.nextResetTime) {
-        const ms = Math.round(limit.nextResetTime);
-        if (Number.isFinite(ms) && ms > 0) {
-          resetTimeIso = new Date(ms).toISOString();
-        }
-      }
-
-      const window = { percentRemaining, resetTimeIso };
-
-      if (limit.type === "TOKENS_LIMIT") {
-        if (limit.unit === 3) {
-          // unit 3 is 5-hourly (Standard Lite/Pro/Max window)
-          hourlyWindow = window;
-        } else if (limit.unit === 4 || limit.unit === 6) {
-          // unit 6 is weekly, unit 4 is daily. We prioritize the longer one as Weekly for display parity.
-          weeklyWindow = window;
-        }
-      } else if (limit.type === "TIME_LIMIT") {
-        // TIME_LIMIT (unit 5) is typically the Monthly MCP limit
-        mcpWindow = window;
-      }
-    }
-
     return {
       success: true,
-      label: "Z.ai",
-      windows: {
-        hourly: hourlyWindow,
-        weekly: weeklyWindow,
-        mcp: mcpWindow,
-      },
+      label,
+      windows: limits.map(toLimitWindow),
     };
   } catch (err) {
     return {
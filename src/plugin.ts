@@ -2,7 +2,8 @@
  * OpenCode Quota Toast Plugin
  *
  * Shows a minimal quota status toast without LLM invocation.
- * Triggers on session.idle, session.compacted, and question tool completion.
+ * Triggers on session.idle, session.compacted, and question tool completion,
+ * plus optional background polling while a session is busy (pollIntervalMs).
  * Supports GitHub Copilot and Google (via opencode-antigravity-auth).
  */
 
@@ -14,31 +15,78 @@ import { getOrFetchWithCacheControl } from "./lib/cache.js";
 import { formatQuotaRows } from "./lib/format.js";
 import { formatQuotaCommand } from "./lib/quota-command-format.js";
 import { getProviders } from "./providers/registry.js";
-import type {
-  QuotaProvider,
-  QuotaProviderContext,
-  QuotaProviderResult,
-  QuotaToastEntry,
-  QuotaToastError,
-  SessionTokensData,
+import {
+  makeProviderFetchCacheKey,
+  type QuotaProvider,
+  type QuotaProviderContext,
+  type QuotaProviderResult,
+  type QuotaToastEntry,
+  type QuotaToastError,
+  type SessionTokensData,
 } from "./lib/entries.js";
 import { tool } from "@opencode-ai/plugin";
 import { aggregateUsage } from "./lib/quota-stats.js";
 import { fetchSessionTokensForDisplay } from "./lib/session-tokens.js";
 import { formatQuotaStatsReport } from "./lib/quota-stats-format.js";
+import {
+  hasBudgets,
+  queryBudgetStatuses,
+  startOfLocalMonthMs,
+  type BudgetStatus,
+} from "./lib/budgets.js";
+import { ledgerProviderId } from "./lib/ledger.js";
 import { buildQuotaStatusReport, type SessionTokenError } from "./lib/quota-status.js";
 import { refreshGoogleTokensForAllAccounts } from "./lib/google.js";
 import { readAuthFileCached } from "./lib/opencode-auth.js";
 import { recordQwenCompletion } from "./lib/qwen-local-quota.js";
+import {
+  groupQuotaHistory,
+  readQuotaHistory,
+  recordQuotaHistory,
+} from "./lib/quota-history.js";
+import { forecastEntries } from "./lib/quota-forecast.js";
+import { checkQuotaAlerts, formatQuotaAlerts, type QuotaAlert } from "./lib/quota-alerts.js";
 import {
   parseOptionalJsonArgs,
+  parsePricingRefreshArgs,
   parseQuotaBetweenArgs,
+  parseTokenExportArgs,
+  parseTokenTimelineArgs,
   startOfLocalDayMs,
   startOfNextLocalDayMs,
   formatYmd,
   type Ymd,
 } from "./lib/command-parsing.js";
+import {
+  exportAggregateResult,
+  resolveExportPath,
+  type TokenReportExportRequest,
+} from "./lib/quota-stats-export.js";
+import { formatPricingRefreshResult, refreshPricing } from "./lib/pricing-refresh.js";
+import {
+  formatBestAccountToastLine,
+  formatQuotaBestReport,
+  recommendAntigravityAccounts,
+  rankAntigravityAccounts,
+} from "./lib/quota-best.js";
+import { formatCopilotOrgReport, queryCopilotOrgReport } from "./lib/copilot-org.js";
+import { timelineStartMs, type TimeBucketUnit } from "./lib/time-buckets.js";
 import { handled } from "./lib/command-handled.js";
+import { createQuotaPoller, hasMeaningfulChange, type QuotaPoller } from "./lib/quota-poller.js";
+import { runWithFetchBudget, setHttpRetryDefaults } from "./lib/http.js";
+import { setNetworkConfig } from "./lib/network.js";
+import { setBaseUrlOverrides } from "./lib/base-urls.js";
+import {
+  createCircuitBreaker,
+  isFailedProviderResult,
+  type CircuitBreaker,
+} from "./lib/circuit-breaker.js";
+import {
+  lastGoodKey,
+  recordLastGoodEntries,
+  withLastGoodEntries,
+} from "./lib/last-good-entries.js";
+import { formatResetCountdown } from "./lib/format-utils.js";
 
 // =============================================================================
 // Types
@@ -144,6 +192,7 @@ type TokenReportCommandId =
   | "tokens_monthly"
   | "tokens_all"
   | "tokens_session"
+  | "tokens_timeline"
   | "tokens_between";
 
 /** Specification for a token report command */
@@ -154,10 +203,12 @@ type TokenReportCommandSpec =
       description: string;
       title: string;
       metadataTitle: string;
-      kind: "rolling" | "today" | "all" | "session";
+      kind: "rolling" | "today" | "all" | "session" | "timeline";
       windowMs?: number;
       topModels?: number;
       topSessions?: number;
+      /** Append the month-to-date budget section (when budgets are configured) */
+      showBudgets?: boolean;
     }
   | {
       id: "tokens_between";
@@ -204,6 +255,7 @@ const TOKEN_REPORT_COMMANDS: readonly TokenReportCommandSpec[] = [
     metadataTitle: "Tokens used (Last 30 Days)",
     kind: "rolling",
     windowMs: 30 * 24 * 60 * 60 * 1000,
+    showBudgets: true,
   },
   {
     id: "tokens_all",
@@ -223,6 +275,15 @@ const TOKEN_REPORT_COMMANDS: readonly TokenReportCommandSpec[] = [
     metadataTitle: "Tokens used (Current Session)",
     kind: "session",
   },
+  {
+    id: "tokens_timeline",
+    template: "/tokens_timeline",
+    description:
+      'Token + cost timeline by hour/day/week (default: last 14 days by day, e.g. {"groupBy":"hour"}).',
+    title: "Tokens used (Timeline) (/tokens_timeline)",
+    metadataTitle: "Tokens used (Timeline)",
+    kind: "timeline",
+  },
   {
     id: "tokens_between",
     template: "/tokens_between",
@@ -235,6 +296,9 @@ const TOKEN_REPORT_COMMANDS: readonly TokenReportCommandSpec[] = [
   },
 ] as const;
 
+/** Default /tokens_timeline window per bucket size (overridable with {"days": N}) */
+const TIMELINE_DEFAULT_DAYS: Record<TimeBucketUnit, number> = { hour: 2, day: 14, week: 84 };
+
 /** Build a lookup map from command ID to spec */
 const TOKEN_REPORT_COMMANDS_BY_ID: ReadonlyMap<TokenReportCommandId, TokenReportCommandSpec> =
   (() => {
@@ -257,7 +321,7 @@ function isTokenReportCommand(cmd: string): cmd is TokenReportCommandId {
 /**
  * Main plugin export
  */
-export const QuotaToastPlugin: Plugin = async ({ client }) => {
+export const QuotaToastPlugin: Plugin = async ({ client, directory }) => {
   const typedClient = client as unknown as OpencodeClient;
   const QWEN_AUTH_CACHE_MAX_AGE_MS = 5_000;
   const TOOL_FAILURE_STATUSES = new Set(["error", "failed", "failure", "cancelled", "canceled"]);
@@ -279,8 +343,16 @@ export const QuotaToastPlugin: Plugin = async ({ client }) => {
         return "Qwen";
       case "zai":
         return "Z.ai";
+      case "openrouter":
+        return "OpenRouter";
+      case "budget":
+        return "Budget";
       default:
-        return id;
+        return (
+          config.customProviders.find((p) => p.id === id)?.name ??
+          config.ledgers.find((l) => ledgerProviderId(l) === id)?.name ??
+          id
+        );
     }
   }
 
@@ -322,6 +394,13 @@ export const QuotaToastPlugin: Plugin = async ({ client }) => {
   // Track last session token error for /quota_status diagnostics
   let lastSessionTokenError: SessionTokenError | undefined;
 
+  type ProviderFailure = {
+    errors: QuotaToastError[];
+    timestamp: number;
+    /** Consecutive failures, including this one */
+    failures: number;
+  };
+
   type ProviderFetchCacheEntry = {
     timestamp: number;
     result?: QuotaProviderResult;
@@ -330,6 +409,20 @@ export const QuotaToastPlugin: Plugin = async ({ client }) => {
 
   const providerFetchCache = new Map<string, ProviderFetchCacheEntry>();
 
+  // Circuit breaker state per provider id, and the latest real failure per provider
+  // (shown in /quota_status while the toast shows last-known entries).
+  let breaker: { instance: CircuitBreaker; threshold: number; cooldownMs: number } | null = null;
+  const providerFailures = new Map<string, ProviderFailure>();
+
+  function getBreaker(): CircuitBreaker {
+    const { breakerThreshold: threshold, breakerCooldownMs: cooldownMs } = config.http;
+    // Rebuilt when http.breakerThreshold/breakerCooldownMs change (failure counts restart).
+    if (!breaker || breaker.threshold !== threshold || breaker.cooldownMs !== cooldownMs) {
+      breaker = { instance: createCircuitBreaker({ threshold, cooldownMs }), threshold, cooldownMs };
+    }
+    return breaker.instance;
+  }
+
   function isQwenModel(model?: string): boolean {
     return typeof model === "string" && model.toLowerCase().startsWith("qwen-code/");
   }
@@ -386,24 +479,145 @@ export const QuotaToastPlugin: Plugin = async ({ client }) => {
     return true;
   }
 
-  function makeProviderFetchCacheKey(providerId: string, ctx: QuotaProviderContext): string {
-    const style = ctx.config.toastStyle ?? "classic";
-    const googleModels = ctx.config.googleModels.join(",");
-    const onlyCurrentModel = ctx.config.onlyCurrentModel ? "yes" : "no";
-    const currentModel = ctx.config.currentModel ?? "";
-    return `${providerId}|style=${style}|googleModels=${googleModels}|onlyCurrentModel=${onlyCurrentModel}|currentModel=${currentModel}`;
+  // Threshold alerts raised by fresh fetches, shown after the next toast/command.
+  let pendingAlerts: QuotaAlert[] = [];
+  // Provider results up to this old are reused for alert checks between throttled toasts.
+  const ALERT_CHECK_TTL_MS = 30_000;
+
+  /**
+   * Side effects for freshly fetched provider results (cached results are skipped):
+   * - remember the entries for stale-while-error (last-good-entries.ts)
+   * - persist a history snapshot for /quota trends
+   * - evaluate threshold alerts
+   *
+   * Failures are logged and never block the fetch.
+   */
+  async function handleFreshProviderResult(
+    providerId: string,
+    ctx: QuotaProviderContext,
+    result: QuotaProviderResult,
+  ): Promise<void> {
+    if (result.entries.length === 0) return;
+    try {
+      await recordLastGoodEntries(
+        lastGoodKey(providerId, ctx),
+        result.entries,
+      );
+    } catch (err) {
+      await log("Failed to record last good entries", {
+        providerId,
+        error: err instanceof Error ? err.message : String(err),
+      });
+    }
+    try {
+      await recordQuotaHistory(providerId, result.entries);
+    } catch (err) {
+      await log("Failed to record quota history", {
+        providerId,
+        error: err instanceof Error ? err.message : String(err),
+      });
+    }
+
+    // Entry names differ between toast styles; only evaluate the style the toast
+    // uses so the same window does not alert twice under two names.
+    if ((ctx.config.toastStyle ?? "classic") !== config.toastStyle) return;
+    try {
+      const alerts = await checkQuotaAlerts({
+        providerId,
+        entries: result.entries,
+        alerts: config.alerts,
+      });
+      pendingAlerts.push(...alerts);
+    } catch (err) {
+      await log("Failed to evaluate quota alerts", {
+        providerId,
+        error: err instanceof Error ? err.message : String(err),
+      });
+    }
+  }
+
+  /**
+   * Show pending threshold alerts as a separate warning/error toast.
+   * Not throttled by minIntervalMs: each alert is already deduped per reset window.
+   */
+  async function flushAlertToasts(): Promise<void> {
+    if (pendingAlerts.length === 0) return;
+    const alerts = pendingAlerts;
+    pendingAlerts = [];
+
+    if (!config.enableToast) {
+      await log("Alert toast suppressed (enableToast=false)", { count: alerts.length });
+      return;
+    }
+
+    const variant = alerts.some((a) => a.variant === "error") ? "error" : "warning";
+    try {
+      await typedClient.tui.showToast({
+        body: {
+          message: formatQuotaAlerts(alerts),
+          variant,
+          duration: config.toastDurationMs,
+        },
+      });
+      await log("Displayed quota alert toast", { count: alerts.length, variant });
+    } catch (err) {
+      await log("Failed to show alert toast", {
+        error: err instanceof Error ? err.message : String(err),
+      });
+    }
   }
 
+  /**
+   * Stale-while-error: when a provider fails outright (or is paused by the breaker),
+   * or one of its configured accounts fails, show the entries from the last good
+   * fetch with an age marker instead of the error. The error itself is kept for
+   * /quota_status.
+   */
   async function fetchProviderWithCache(params: {
     provider: QuotaProvider;
     ctx: QuotaProviderContext;
     ttlMs: number;
+  }): Promise<QuotaProviderResult> {
+    const key = lastGoodKey(params.provider.id, params.ctx);
+    let result: QuotaProviderResult;
+    try {
+      result = await fetchProviderResult(params);
+    } catch (err) {
+      const stale = await readLastGoodResult(key, null);
+      if (stale) return withProviderId(params.provider.id, stale);
+      throw err;
+    }
+    return withProviderId(params.provider.id, (await readLastGoodResult(key, result)) ?? result);
+  }
+
+  /** Tag entries with their provider so history series stay apart when names collide. */
+  function withProviderId(providerId: string, result: QuotaProviderResult): QuotaProviderResult {
+    return { ...result, entries: result.entries.map((e) => ({ ...e, providerId })) };
+  }
+
+  async function readLastGoodResult(
+    key: string,
+    result: QuotaProviderResult | null,
+  ): Promise<QuotaProviderResult | null> {
+    try {
+      return await withLastGoodEntries(key, result);
+    } catch {
+      return null;
+    }
+  }
+
+  async function fetchProviderResult(params: {
+    provider: QuotaProvider;
+    ctx: QuotaProviderContext;
+    ttlMs: number;
   }): Promise<QuotaProviderResult> {
     const { provider, ctx, ttlMs } = params;
 
     // Qwen is local-only and should update per completion for accurate RPM.
     if (provider.id === "qwen-code") {
-      return await provider.fetch(ctx);
+      const result = await provider.fetch(ctx);
+      await handleFreshProviderResult(provider.id, ctx, result);
+      return result;
     }
 
     const cacheKey = makeProviderFetchCacheKey(provider.id, ctx);
@@ -423,17 +637,44 @@ export const QuotaToastPlugin: Plugin = async ({ client }) => {
       return existing.inFlight;
     }
 
+    const pausedForMs = getBreaker().pausedForMs(provider.id, now);
+    if (pausedForMs > 0) return pausedProviderResult(provider.id, pausedForMs);
+
     const promise = (async () => {
       try {
-        const result = await provider.fetch(ctx);
+        const result = await runWithFetchBudget(config.http.fetchBudgetMs, () =>
+          provider.fetch(ctx),
+        );
         if (result.attempted) {
           providerFetchCache.set(cacheKey, { timestamp: Date.now(), result });
+          await handleFreshProviderResult(provider.id, ctx, result);
         } else {
           providerFetchCache.delete(cacheKey);
         }
+        if (isFailedProviderResult(result)) {
+          recordProviderFailure(provider.id, result.errors);
+        } else if (result.attempted) {
+          getBreaker().recordSuccess(provider.id);
+          // Failed accounts of a partial result show last-known values; keep their errors.
+          if (result.errors.length > 0) {
+            providerFailures.set(provider.id, {
+              errors: result.errors,
+              timestamp: Date.now(),
+              failures: 0,
+            });
+          } else {
+            providerFailures.delete(provider.id);
+          }
+        }
         return result;
       } catch (err) {
         providerFetchCache.delete(cacheKey);
+        recordProviderFailure(provider.id, [
+          {
+            label: getProviderDisplayLabel(provider.id),
+            message: err instanceof Error ? err.message : String(err),
+          },
+        ]);
         throw err;
       }
     })();
@@ -447,6 +688,30 @@ export const QuotaToastPlugin: Plugin = async ({ client }) => {
     return promise;
   }
 
+  function recordProviderFailure(providerId: string, errors: QuotaToastError[]): void {
+    getBreaker().recordFailure(providerId);
+    providerFailures.set(providerId, {
+      errors,
+      timestamp: Date.now(),
+      failures: getBreaker().failureCount(providerId),
+    });
+  }
+
+  /** Pause notice for a provider the breaker is skipping (replaced by last-known entries when any). */
+  function pausedProviderResult(providerId: string, pausedForMs: number): QuotaProviderResult {
+    const retryIn = formatResetCountdown(new Date(Date.now() + pausedForMs).toISOString());
+    return {
+      attempted: true,
+      entries: [],
+      errors: [
+        {
+          label: getProviderDisplayLabel(providerId),
+          message: `Paused after ${getBreaker().failureCount(providerId)} failures; retrying in ${retryIn}`,
+        },
+      ],
+    };
+  }
+
   async function shouldBypassToastCacheForQwen(trigger: string, sessionID: string): Promise<boolean> {
     if (trigger !== "question") return false;
     if (config.enabledProviders !== "auto" && !config.enabledProviders.includes("qwen-code")) return false;
@@ -464,6 +729,9 @@ export const QuotaToastPlugin: Plugin = async ({ client }) => {
       try {
         configMeta = createLoadConfigMeta();
         config = await loadConfig(typedClient, configMeta);
+        setHttpRetryDefaults(config.http);
+        setNetworkConfig(config.network);
+        setBaseUrlOverrides(config.baseUrls);
         configLoaded = true;
       } catch {
         // Leave configLoaded=false so we can retry on next trigger.
@@ -588,7 +856,18 @@ export const QuotaToastPlugin: Plugin = async ({ client }) => {
     ].join("\n");
   }
 
-  async function fetchQuotaMessage(trigger: string, sessionID?: string): Promise<string | null> {
+  async function fetchQuotaMessage(
+    trigger: string,
+    sessionID?: string,
+    opts?: {
+      /** Provider cache TTL (default: minIntervalMs) */
+      providerTtlMs?: number;
+      /** Receives the entries the message was built from */
+      onEntries?: (entries: QuotaToastEntry[]) => void;
+      /** Only fetch providers (so fresh results raise alerts); no message is built */
+      alertsOnly?: boolean;
+    },
+  ): Promise<string | null> {
     // Ensure we have loaded config at least once. If load fails, we keep trying
     // on subsequent triggers.
     if (!configLoaded) {
@@ -601,7 +880,11 @@ export const QuotaToastPlugin: Plugin = async ({ client }) => {
         : null;
     }
 
-    const allProviders = getProviders();
+    const allProviders = getProviders({
+      customProviders: config.customProviders,
+      budgets: config.budgets,
+      ledgers: config.ledgers,
+    });
     const isAutoMode = config.enabledProviders === "auto";
     const enabledProviderIds = isAutoMode ? [] : config.enabledProviders;
 
@@ -630,6 +913,8 @@ export const QuotaToastPlugin: Plugin = async ({ client }) => {
         toastStyle: config.toastStyle,
         onlyCurrentModel: config.onlyCurrentModel,
         currentModel,
+        accounts: config.accounts,
+        showCopilotOrg: config.showCopilotOrg,
       },
     };
 
@@ -663,14 +948,17 @@ export const QuotaToastPlugin: Plugin = async ({ client }) => {
         fetchProviderWithCache({
           provider: p,
           ctx,
-          ttlMs: config.minIntervalMs,
+          ttlMs: opts?.providerTtlMs ?? config.minIntervalMs,
         }),
       ),
     );
 
+    if (opts?.alertsOnly) return null;
+
     const entries: QuotaToastEntry[] = results.flatMap((r) => r.entries);
     const errors: QuotaToastError[] = results.flatMap((r) => r.errors);
     const attemptedAny = results.some((r) => r.attempted);
+    opts?.onEntries?.(entries);
 
     let hasExplicitProviderIssues = false;
 
@@ -731,6 +1019,7 @@ export const QuotaToastPlugin: Plugin = async ({ client }) => {
     }
 
     if (entries.length > 0) {
+      const history = groupQuotaHistory((await readQuotaHistory()).samples);
       const formatted = formatQuotaRows({
         version: "1.0.0",
         layout: config.layout,
@@ -738,15 +1027,26 @@ export const QuotaToastPlugin: Plugin = async ({ client }) => {
         errors,
         style: config.toastStyle,
         sessionTokens,
+        forecasts: forecastEntries({ entries, history }),
       });
 
-      if (!config.debug) return formatted;
+      let bestLine: string | null = null;
+      const antigravityAccounts = config.showBestAccount
+        ? results[active.findIndex((p) => p.id === "google-antigravity")]?.antigravityAccounts
+        : undefined;
+      if (antigravityAccounts) {
+        // Ranks the same Antigravity result as the rows above; no extra quota calls.
+        bestLine = formatBestAccountToastLine(rankAntigravityAccounts(antigravityAccounts));
+      }
+      const withBest = bestLine ? `${formatted}\n${bestLine}` : formatted;
+
+      if (!config.debug) return withBest;
 
       const debugFooter = `\n\n[debug] src=${configMeta.source} providers=${config.enabledProviders === "auto" ? "(auto)" : config.enabledProviders.join(",") || "(none)"} avail=${avail
         .map((x) => `${x.p.id}:${x.ok ? "ok" : "no"}`)
         .join(" ")}`;
 
-      return formatted + debugFooter;
+      return withBest + debugFooter;
     }
 
     // Show errors even without entries when:
@@ -817,13 +1117,25 @@ export const QuotaToastPlugin: Plugin = async ({ client }) => {
           return { message: msg, cache };
         }, config.minIntervalMs);
 
+    // The message and provider results are throttled by minIntervalMs, but alerts
+    // must not wait for it: recheck providers whose results are older than the
+    // alert TTL (a fresh fetch above is reused, so this costs nothing extra).
+    if (Object.keys(config.alerts).length > 0) {
+      await fetchQuotaMessage(trigger, sessionID, {
+        providerTtlMs: Math.min(ALERT_CHECK_TTL_MS, config.minIntervalMs),
+        alertsOnly: true,
+      });
+    }
+
     if (!message) {
       await log("No quota message to display", { trigger });
+      await flushAlertToasts();
       return;
     }
 
     if (!config.enableToast) {
       await log("Toast disabled (enableToast=false)", { trigger });
+      await flushAlertToasts();
       return;
     }
 
@@ -842,6 +1154,62 @@ export const QuotaToastPlugin: Plugin = async ({ client }) => {
         error: err instanceof Error ? err.message : String(err),
       });
     }
+
+    // Alerts go last so they are not replaced by the regular toast.
+    await flushAlertToasts();
+  }
+
+  // Background polling (pollIntervalMs > 0). The baseline is what the last poll
+  // toast showed, so slow drift still re-toasts once it adds up.
+  let poller: { instance: QuotaPoller; intervalMs: number } | null = null;
+  let pollBaseline: { providers: string; entries: QuotaToastEntry[] } | null = null;
+
+  function getPoller(): QuotaPoller | null {
+    const intervalMs = config.pollIntervalMs;
+    // Rebuilt when pollIntervalMs changes and stopped when it drops to 0; busy
+    // sessions register with the new poller on their next status event.
+    if (poller && poller.intervalMs !== intervalMs) {
+      poller.instance.stop();
+      poller = null;
+    }
+    if (intervalMs <= 0) return null;
+    poller ??= { instance: createQuotaPoller({ intervalMs, poll: pollQuota }), intervalMs };
+    return poller.instance;
+  }
+
+  async function pollQuota(sessionID: string): Promise<void> {
+    if (!config.enabled || !getPoller()) return;
+    if (await isSubagentSession(sessionID)) return;
+
+    let entries: QuotaToastEntry[] = [];
+    // Provider results younger than the poll interval are reused, and concurrent
+    // toast/command fetches share the same in-flight request.
+    const message = await fetchQuotaMessage("poll", sessionID, {
+      providerTtlMs: Math.min(config.pollIntervalMs, config.minIntervalMs),
+      onEntries: (e) => (entries = e),
+    });
+
+    // A different provider set is a new baseline, not a change worth a toast.
+    const providers =
+      config.enabledProviders === "auto" ? "auto" : config.enabledProviders.join(",");
+    if (pollBaseline?.providers !== providers) pollBaseline = null;
+    const changed = hasMeaningfulChange(pollBaseline?.entries ?? null, entries);
+    if (!pollBaseline || changed) pollBaseline = { providers, entries };
+
+    if (message && changed && config.enableToast) {
+      try {
+        await typedClient.tui.showToast({
+          body: { message, variant: "info", duration: config.toastDurationMs },
+        });
+        await log("Displayed quota toast", { message, trigger: "poll" });
+      } catch (err) {
+        await log("Failed to show toast", {
+          error: err instanceof Error ? err.message : String(err),
+        });
+      }
+    }
+
+    await flushAlertToasts();
   }
 
   async function fetchQuotaCommandMessage(
@@ -851,7 +1219,11 @@ export const QuotaToastPlugin: Plugin = async ({ client }) => {
     if (!configLoaded) await refreshConfig();
     if (!config.enabled) return null;
 
-    const allProviders = getProviders();
+    const allProviders = getProviders({
+      customProviders: config.customProviders,
+      budgets: config.budgets,
+      ledgers: config.ledgers,
+    });
     const isAutoMode = config.enabledProviders === "auto";
     const providers = isAutoMode
       ? allProviders
@@ -871,6 +1243,8 @@ export const QuotaToastPlugin: Plugin = async ({ client }) => {
         toastStyle: "grouped" as const,
         onlyCurrentModel: config.onlyCurrentModel,
         currentModel,
+        accounts: config.accounts,
+        showCopilotOrg: config.showCopilotOrg,
       },
     };
 
@@ -904,7 +1278,10 @@ export const QuotaToastPlugin: Plugin = async ({ client }) => {
       lastSessionTokenError = stResult.error;
     }
 
-    return formatQuotaCommand({ entries, errors, sessionTokens });
+    const history = groupQuotaHistory((await readQuotaHistory()).samples);
+    const forecasts = forecastEntries({ entries, history });
+
+    return formatQuotaCommand({ entries, errors, sessionTokens, history, forecasts });
   }
 
   async function buildQuotaReport(params: {
@@ -917,12 +1294,55 @@ export const QuotaToastPlugin: Plugin = async ({ client }) => {
     filterSessionID?: string;
     /** When true, hides Window/Sessions columns and Top Sessions section */
     sessionOnly?: boolean;
+    showBudgets?: boolean;
+    /** Write the raw aggregate to disk instead of rendering markdown tables */
+    exportRequest?: TokenReportExportRequest | null;
+    commandId?: string;
+    groupBy?: TimeBucketUnit;
   }): Promise<string> {
     const result = await aggregateUsage({
       sinceMs: params.sinceMs,
       untilMs: params.untilMs,
       sessionID: params.filterSessionID,
+      includeChildSessions: config.rollupSubagents,
+      rollupSubagents: config.rollupSubagents,
+      groupBy: params.groupBy,
     });
+
+    if (params.exportRequest) {
+      const path = resolveExportPath({
+        request: params.exportRequest,
+        command: params.commandId ?? "tokens",
+        baseDir: directory || process.cwd(),
+      });
+      try {
+        const written = await exportAggregateResult({
+          result,
+          format: params.exportRequest.format,
+          path,
+          title: params.title,
+        });
+        return [
+          `# ${params.title}`,
+          "",
+          `Exported ${params.exportRequest.format.toUpperCase()} (${result.totals.messageCount} messages):`,
+          ...written.map((p) => `- ${p}`),
+        ].join("\n");
+      } catch (err) {
+        const message = err instanceof Error ? err.message : String(err);
+        return `Export failed for ${params.title}\n\n${message}`;
+      }
+    }
+
+    let budgets: { sinceMs: number; statuses: BudgetStatus[] } | undefined;
+    if (params.showBudgets && hasBudgets(config.budgets)) {
+      const nowMs = Date.now();
+      budgets = {
+        sinceMs: startOfLocalMonthMs(nowMs),
+        statuses: await queryBudgetStatuses(config.budgets, nowMs),
+      };
+    }
+
     return formatQuotaStatsReport({
       title: params.title,
       result,
@@ -930,6 +1350,7 @@ export const QuotaToastPlugin: Plugin = async ({ client }) => {
       topSessions: params.topSessions,
       focusSessionID: params.sessionID,
       sessionOnly: params.sessionOnly,
+      budgets,
     });
   }
 
@@ -950,14 +1371,22 @@ export const QuotaToastPlugin: Plugin = async ({ client }) => {
 
     const isAutoMode = config.enabledProviders === "auto";
 
-    const providers = getProviders();
+    const providers = getProviders({
+      customProviders: config.customProviders,
+      budgets: config.budgets,
+      ledgers: config.ledgers,
+    });
     const availability = await Promise.all(
       providers.map(async (p) => {
         let ok = false;
         try {
           ok = await p.isAvailable({
             client: typedClient,
-            config: { googleModels: config.googleModels },
+            config: {
+              googleModels: config.googleModels,
+              accounts: config.accounts,
+              showCopilotOrg: config.showCopilotOrg,
+            },
           });
         } catch {
           ok = false;
@@ -996,6 +1425,14 @@ export const QuotaToastPlugin: Plugin = async ({ client }) => {
           }
         : { attempted: false },
       sessionTokenError: lastSessionTokenError,
+      accounts: config.accounts,
+      baseUrls: config.baseUrls,
+      ledgers: config.ledgers,
+      providerFailures: [...providerFailures].map(([id, f]) => ({
+        id,
+        ...f,
+        pausedForMs: getBreaker().pausedForMs(id),
+      })),
     });
   }
 
@@ -1016,6 +1453,23 @@ export const QuotaToastPlugin: Plugin = async ({ client }) => {
           "Diagnostics for toast + pricing + local storage (includes unknown pricing report).",
       };
 
+      cfg.command["quota_best"] = {
+        template: "/quota_best",
+        description: "Rank Antigravity accounts per model family and name the best one to use next.",
+      };
+
+      cfg.command["quota_copilot_org"] = {
+        template: "/quota_copilot_org",
+        description:
+          "Copilot organization/enterprise premium requests: team totals and top consumers.",
+      };
+
+      cfg.command["quota_pricing_refresh"] = {
+        template: "/quota_pricing_refresh",
+        description:
+          "Import models.dev-format pricing from a file path or URL (default: models.dev) and cache it.",
+      };
+
       // Register token report commands (/tokens_*)
       for (const spec of TOKEN_REPORT_COMMANDS) {
         cfg.command[spec.id] = {
@@ -1069,10 +1523,18 @@ export const QuotaToastPlugin: Plugin = async ({ client }) => {
             await injectRawOutput(sessionID, "Quota disabled in config (enabled: false)");
           } else {
             // Check what providers are available for a more specific hint.
-            const allProvs = getProviders();
+            const allProvs = getProviders({
+              customProviders: config.customProviders,
+              budgets: config.budgets,
+              ledgers: config.ledgers,
+            });
             const ctx = {
               client: typedClient,
-              config: { googleModels: config.googleModels },
+              config: {
+                googleModels: config.googleModels,
+                accounts: config.accounts,
+                showCopilotOrg: config.showCopilotOrg,
+              },
             };
             const avail = await Promise.all(
               allProvs.map(async (p) => {
@@ -1101,6 +1563,7 @@ export const QuotaToastPlugin: Plugin = async ({ client }) => {
         }
 
         await injectRawOutput(sessionID, msg);
+        await flushAlertToasts();
         handled();
       }
 
@@ -1110,6 +1573,24 @@ export const QuotaToastPlugin: Plugin = async ({ client }) => {
       if (isTokenReportCommand(cmd)) {
         const spec = TOKEN_REPORT_COMMANDS_BY_ID.get(cmd)!;
 
+        const exportArgs = parseTokenExportArgs(input.arguments);
+        if (!exportArgs.ok) {
+          await injectRawOutput(
+            sessionID,
+            `Invalid arguments for /${spec.id}\n\n${exportArgs.error}\n\nExample:\n/${spec.id} {"format":"csv","out":"~/usage.csv"}`,
+          );
+          handled();
+        }
+
+        const timelineArgs = parseTokenTimelineArgs(input.arguments);
+        if (!timelineArgs.ok) {
+          await injectRawOutput(
+            sessionID,
+            `Invalid arguments for /${spec.id}\n\n${timelineArgs.error}\n\nExample:\n/${spec.id} {"groupBy":"day"}`,
+          );
+          handled();
+        }
+
         if (spec.kind === "between") {
           // Special handling for date range command
           const parsed = parseQuotaBetweenArgs(input.arguments);
@@ -1127,6 +1608,9 @@ export const QuotaToastPlugin: Plugin = async ({ client }) => {
             sinceMs,
             untilMs: rangeUntilMs,
             sessionID,
+            exportRequest: exportArgs.value,
+            commandId: spec.id,
+            groupBy: timelineArgs.groupBy,
           });
           await injectRawOutput(sessionID, out);
           handled();
@@ -1138,6 +1622,7 @@ export const QuotaToastPlugin: Plugin = async ({ client }) => {
         let sessionOnly: boolean | undefined;
         let topModels: number | undefined;
         let topSessions: number | undefined;
+        let groupBy = timelineArgs.groupBy;
 
         switch (spec.kind) {
           case "rolling":
@@ -1157,22 +1642,66 @@ export const QuotaToastPlugin: Plugin = async ({ client }) => {
             topModels = spec.topModels;
             topSessions = spec.topSessions;
             break;
+          case "timeline": {
+            groupBy = groupBy ?? "day";
+            const days = timelineArgs.days ?? TIMELINE_DEFAULT_DAYS[groupBy];
+            sinceMs = timelineStartMs(untilMs, days, groupBy);
+            break;
+          }
         }
 
         const out = await buildQuotaReport({
           title: spec.title,
           sinceMs,
-          untilMs: spec.kind === "rolling" || spec.kind === "today" ? untilMs : undefined,
+          untilMs:
+            spec.kind === "rolling" || spec.kind === "today" || spec.kind === "timeline"
+              ? untilMs
+              : undefined,
           sessionID,
           filterSessionID,
           sessionOnly,
           topModels,
           topSessions,
+          showBudgets: spec.showBudgets,
+          exportRequest: exportArgs.value,
+          commandId: spec.id,
+          groupBy,
         });
         await injectRawOutput(sessionID, out);
         handled();
       }
 
+      if (cmd === "quota_best") {
+        const out = formatQuotaBestReport(await recommendAntigravityAccounts());
+        await injectRawOutput(sessionID, out);
+        handled();
+      }
+
+      if (cmd === "quota_copilot_org") {
+        const out = formatCopilotOrgReport(await queryCopilotOrgReport());
+        await injectRawOutput(sessionID, out);
+        handled();
+      }
+
+      if (cmd === "quota_pricing_refresh") {
+        const parsed = parsePricingRefreshArgs(input.arguments);
+        if (!parsed.ok) {
+          await injectRawOutput(
+            sessionID,
+            `Invalid arguments for /quota_pricing_refresh\n\n${parsed.error}\n\nExamples:\n/quota_pricing_refresh\n/quota_pricing_refresh ~/negotiated-pricing.json\n/quota_pricing_refresh {"source":"https://models.dev/api.json","providers":["anthropic","openai"]}`,
+          );
+          handled();
+        }
+
+        const result = await refreshPricing({
+          source: parsed.source,
+          providers: parsed.providers,
+          baseDir: directory || process.cwd(),
+        });
+        await injectRawOutput(sessionID, formatPricingRefreshResult(result));
+        handled();
+      }
+
       // Handle /quota_status (diagnostics - not a token report)
       if (cmd === "quota_status") {
         const parsed = parseOptionalJsonArgs(input.arguments);
@@ -1239,6 +1768,15 @@ export const QuotaToastPlugin: Plugin = async ({ client }) => {
       const sessionID = event.properties.sessionID;
       if (!sessionID) return;
 
+      if (event.type === "session.status" || event.type === "session.idle") {
+        if (!configLoaded) await refreshConfig();
+        const status = (event.properties.status as { type?: string } | undefined)?.type;
+        getPoller()?.setSessionBusy(
+          sessionID,
+          event.type === "session.status" && (status === "busy" || status === "retry"),
+        );
+      }
+
       if (event.type === "session.idle" && config.showOnIdle) {
         await showQuotaToast(sessionID, "session.idle");
       } else if (event.type === "session.compacted" && config.showOnCompact) {
@@ -0,0 +1,71 @@
+/**
+ * Budget provider wrapper.
+ *
+ * Shows month-to-date spend against config.budgets as value entries.
+ * Uses local OpenCode history only (no network).
+ */
+
+import type { QuotaProvider, QuotaProviderContext, QuotaProviderResult } from "../lib/entries.js";
+import type { BudgetsConfig } from "../lib/types.js";
+import type { ToastGroupEntry } from "../lib/toast-format-grouped.js";
+import {
+  formatBudgetLabel,
+  formatBudgetValue,
+  hasBudgets,
+  queryBudgetStatuses,
+  startOfNextLocalMonthMs,
+} from "../lib/budgets.js";
+
+export function createBudgetProvider(budgets: BudgetsConfig): QuotaProvider {
+  return {
+    id: "budget",
+
+    async isAvailable(_ctx: QuotaProviderContext): Promise<boolean> {
+      return hasBudgets(budgets);
+    },
+
+    async fetch(ctx: QuotaProviderContext): Promise<QuotaProviderResult> {
+      if (!hasBudgets(budgets)) {
+        return { attempted: false, entries: [], errors: [] };
+      }
+
+      const nowMs = Date.now();
+      let statuses;
+      try {
+        statuses = await queryBudgetStatuses(budgets, nowMs);
+      } catch (err) {
+        return {
+          attempted: true,
+          entries: [],
+          errors: [{ label: "Budget", message: err instanceof Error ? err.message : String(err) }],
+        };
+      }
+
+      const resetTimeIso = new Date(startOfNextLocalMonthMs(nowMs)).toISOString();
+      const style = ctx.config.toastStyle ?? "classic";
+
+      const entries: ToastGroupEntry[] = statuses.map((status) => {
+        const label = formatBudgetLabel(status);
+        const value = formatBudgetValue(status);
+        if (style === "grouped") {
+          return {
+            kind: "value" as const,
+            name: `Budget ${label}`,
+            group: "Budget",
+            label: `${label}:`,
+            value,
+            resetTimeIso,
+          };
+        }
+        return {
+          kind: "value" as const,
+          name: status.scope === "total" ? "Budget" : `Budget (${label})`,
+          value,
+          resetTimeIso,
+        };
+      });
+
+      return { attempted: true, entries, errors: [] };
+    },
+  };
+}
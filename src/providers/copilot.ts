@@ -5,16 +5,34 @@
  */
 
 import type { QuotaProvider, QuotaProviderContext, QuotaProviderResult } from "../lib/entries.js";
-import { queryCopilotQuota } from "../lib/copilot.js";
+import type { CopilotQuotaResult } from "../lib/types.js";
+import type { ToastGroupEntry } from "../lib/toast-format-grouped.js";
+import {
+  formatPremiumRequests,
+  queryCopilotAccountsQuota,
+  queryCopilotQuota,
+  readCopilotOrgConfig,
+} from "../lib/copilot.js";
+import { copilotOrgEntryName, queryCopilotOrgUsage } from "../lib/copilot-org.js";
+
+/** Per-model rows shown under a Copilot group; the rest are folded into "Other". */
+const MAX_MODEL_ROWS = 4;
 
 export const copilotProvider: QuotaProvider = {
   id: "copilot",
 
   async isAvailable(ctx: QuotaProviderContext): Promise<boolean> {
+    if ((ctx.config.accounts?.copilot ?? []).length > 0) return true;
+    if (ctx.config.showCopilotOrg && readCopilotOrgConfig()) return true;
     try {
       const resp = await ctx.client.config.providers();
       const ids = new Set((resp.data?.providers ?? []).map((p) => p.id));
-      return ids.has("github-copilot") || ids.has("copilot") || ids.has("copilot-chat");
+      return (
+        ids.has("github-copilot") ||
+        ids.has("copilot") ||
+        ids.has("copilot-chat") ||
+        ids.has("github-copilot-enterprise")
+      );
     } catch {
       return false;
     }
@@ -32,31 +50,111 @@ export const copilotProvider: QuotaProvider = {
     return lower.includes("copilot") || lower.includes("github-copilot");
   },
 
-  async fetch(_ctx: QuotaProviderContext): Promise<QuotaProviderResult> {
-    const result = await queryCopilotQuota();
+  async fetch(ctx: QuotaProviderContext): Promise<QuotaProviderResult> {
+    const out = await fetchUserQuota(ctx);
+    if (ctx.config?.showCopilotOrg) await appendOrgEntry(out);
+    return out;
+  },
+};
 
-    if (!result) {
-      return { attempted: false, entries: [], errors: [] };
-    }
+/** Shared org/enterprise pool as one more entry (percent when the seat count is known). */
+async function appendOrgEntry(out: QuotaProviderResult): Promise<void> {
+  const result = await queryCopilotOrgUsage();
+  if (!result) return;
+
+  out.attempted = true;
+  if (!result.success) {
+    out.errors.push({ label: "Copilot Org", message: result.error });
+    return;
+  }
+
+  const name = copilotOrgEntryName(result);
+  if (result.percentRemaining === null) {
+    out.entries.push({
+      kind: "value",
+      name,
+      value: `${formatPremiumRequests(result.used)} req`,
+      resetTimeIso: result.resetTimeIso,
+    });
+    return;
+  }
+  out.entries.push({
+    name,
+    percentRemaining: result.percentRemaining,
+    resetTimeIso: result.resetTimeIso,
+  });
+}
+
+/**
+ * The premium request entry, plus (grouped style) one value row per model such as
+ * "Claude Opus 4: 120 req (x10 est.)" so it is clear which model used the allowance.
+ * The multiplier comes from a static table, hence "est.".
+ */
+function copilotEntries(
+  name: string,
+  result: CopilotQuotaResult,
+  style: "classic" | "grouped",
+): ToastGroupEntry[] {
+  const entries: ToastGroupEntry[] = [
+    { name, percentRemaining: result.percentRemaining, resetTimeIso: result.resetTimeIso },
+  ];
+  if (style !== "grouped" || !result.models?.length) return entries;
+
+  const shown = result.models.slice(0, MAX_MODEL_ROWS);
+  const other = result.models.slice(MAX_MODEL_ROWS).reduce((sum, m) => sum + m.used, 0);
+  const rows = shown.map((m) => ({
+    label: m.model,
+    value: `${formatPremiumRequests(m.used)} req${m.multiplier === undefined ? "" : ` (x${m.multiplier} est.)`}`,
+  }));
+  if (other > 0) rows.push({ label: "Other", value: `${formatPremiumRequests(other)} req` });
 
-    if (!result.success) {
-      return {
-        attempted: true,
-        entries: [],
-        errors: [{ label: "Copilot", message: result.error }],
-      };
+  for (const row of rows) {
+    entries.push({
+      kind: "value",
+      name: `${name} ${row.label}`,
+      group: name,
+      label: `${row.label}:`,
+      value: row.value,
+    });
+  }
+  return entries;
+}
+
+async function fetchUserQuota(ctx: QuotaProviderContext): Promise<QuotaProviderResult> {
+  const style = ctx.config?.toastStyle ?? "classic";
+  const accounts = ctx.config?.accounts?.copilot ?? [];
+  if (accounts.length > 0) {
+    const results = await queryCopilotAccountsQuota(accounts);
+    const out: QuotaProviderResult = { attempted: true, entries: [], errors: [] };
+    for (const { account, result } of results) {
+      if (!result) continue;
+      const name = `Copilot (${account})`;
+      if (!result.success) {
+        out.errors.push({ label: name, message: result.error, account });
+        continue;
+      }
+      out.entries.push(...copilotEntries(name, result, style).map((e) => ({ ...e, account })));
     }
+    return out;
+  }
+
+  const result = await queryCopilotQuota();
 
+  if (!result) {
+    return { attempted: false, entries: [], errors: [] };
+  }
+
+  if (!result.success) {
     return {
       attempted: true,
-      entries: [
-        {
-          name: "Copilot",
-          percentRemaining: result.percentRemaining,
-          resetTimeIso: result.resetTimeIso,
-        },
-      ],
-      errors: [],
+      entries: [],
+      errors: [{ label: "Copilot", message: result.error }],
     };
-  },
-};
+  }
+
+  return {
+    attempted: true,
+    entries: copilotEntries("Copilot", result, style),
+    errors: [],
+  };
+}
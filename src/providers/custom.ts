@@ -0,0 +1,64 @@
+/**
+ * Custom (config-declared) provider wrapper.
+ *
+ * One provider instance is created per `customProviders` entry.
+ */
+
+import type { QuotaProvider, QuotaProviderContext, QuotaProviderResult } from "../lib/entries.js";
+import type { CustomProviderConfig } from "../lib/types.js";
+import type { ToastGroupEntry } from "../lib/toast-format-grouped.js";
+import { queryCustomProviderQuota, resolveCustomProviderRequest } from "../lib/custom-provider.js";
+
+export function createCustomProvider(def: CustomProviderConfig): QuotaProvider {
+  return {
+    id: def.id,
+
+    async isAvailable(_ctx: QuotaProviderContext): Promise<boolean> {
+      // Declared in config, so only missing env vars make it unavailable.
+      return resolveCustomProviderRequest(def) !== null;
+    },
+
+    matchesCurrentModel(model: string): boolean {
+      const provider = model.split("/")[0]?.toLowerCase();
+      return !!provider && provider === def.id;
+    },
+
+    async fetch(_ctx: QuotaProviderContext): Promise<QuotaProviderResult> {
+      const result = await queryCustomProviderQuota(def);
+
+      if (!result) {
+        return { attempted: false, entries: [], errors: [] };
+      }
+
+      if (!result.success) {
+        return {
+          attempted: true,
+          entries: [],
+          errors: [{ label: def.name, message: result.error }],
+        };
+      }
+
+      const group = def.name;
+      const entries: ToastGroupEntry[] = result.entries.map((e) => {
+        const base = {
+          name: `${group} ${e.name}`,
+          group,
+          label: `${e.name}:`,
+          resetTimeIso: e.resetTimeIso,
+        };
+        return e.kind === "value"
+          ? { ...base, kind: "value" as const, value: e.value }
+          : { ...base, percentRemaining: e.percentRemaining };
+      });
+
+      return {
+        attempted: true,
+        entries,
+        errors: result.missing.map((name) => ({
+          label: def.name,
+          message: `${name}: no value at configured path`,
+        })),
+      };
+    },
+  };
+}
@@ -9,7 +9,12 @@ import type {
   QuotaToastError,
 } from "../lib/entries.js";
 import type { GoogleModelId, GoogleResult } from "../lib/types.js";
-import { hasAntigravityAccountsConfigured, queryGoogleQuota } from "../lib/google.js";
+import {
+  ALL_GOOGLE_MODEL_IDS,
+  hasAntigravityAccountsConfigured,
+  queryGoogleQuotaByAccount,
+  summarizeGoogleQuota,
+} from "../lib/google.js";
 
 function truncateEmail(email?: string): string {
   if (!email) return "Unknown";
@@ -60,12 +65,15 @@ export const googleAntigravityProvider: QuotaProvider = {
 
   async fetch(ctx: QuotaProviderContext): Promise<QuotaProviderResult> {
     const modelIds = ctx.config.googleModels as GoogleModelId[];
-    const result = await queryGoogleQuota(modelIds);
+    // One request per account returns every model; keep them all for account ranking.
+    const byAccount = await queryGoogleQuotaByAccount(ALL_GOOGLE_MODEL_IDS);
 
-    if (!result) {
+    if (!byAccount) {
       return { attempted: false, entries: [], errors: [] };
     }
 
+    const result = summarizeGoogleQuota(byAccount, modelIds);
+
     if (!result.success) {
       return {
         attempted: true,
@@ -87,6 +95,7 @@ export const googleAntigravityProvider: QuotaProvider = {
       attempted: true,
       entries,
       errors: normalizeGoogleErrors(result),
+      antigravityAccounts: byAccount,
     };
   },
 };
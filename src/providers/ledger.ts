@@ -0,0 +1,59 @@
+/**
+ * Local ledger provider wrapper.
+ *
+ * One provider instance is created per `ledgers` entry. Uses local OpenCode
+ * history only (no network), so it is always available once configured.
+ */
+
+import type { QuotaProvider, QuotaProviderContext, QuotaProviderResult } from "../lib/entries.js";
+import type { LedgerConfig } from "../lib/types.js";
+import type { ToastGroupEntry } from "../lib/toast-format-grouped.js";
+import { ledgerProviderId, queryLedgerStatus, type LedgerLimitStatus } from "../lib/ledger.js";
+
+function limitLabel(limit: LedgerLimitStatus): string {
+  return limit.kind === "usd" ? "Cost" : "Tokens";
+}
+
+export function createLedgerProvider(def: LedgerConfig): QuotaProvider {
+  return {
+    id: ledgerProviderId(def),
+
+    async isAvailable(_ctx: QuotaProviderContext): Promise<boolean> {
+      return true;
+    },
+
+    matchesCurrentModel(model: string): boolean {
+      const provider = model.split("/")[0]?.toLowerCase();
+      return !!provider && def.providerIDs.includes(provider);
+    },
+
+    async fetch(ctx: QuotaProviderContext): Promise<QuotaProviderResult> {
+      let status;
+      try {
+        status = await queryLedgerStatus(def);
+      } catch (err) {
+        return {
+          attempted: true,
+          entries: [],
+          errors: [{ label: def.name, message: err instanceof Error ? err.message : String(err) }],
+        };
+      }
+
+      const style = ctx.config?.toastStyle ?? "classic";
+      const single = status.limits.length === 1;
+      const entries: ToastGroupEntry[] = status.limits.map((limit) => {
+        const label = limitLabel(limit);
+        const base = {
+          percentRemaining: limit.percentRemaining,
+          resetTimeIso: status.resetTimeIso,
+        };
+        if (style === "grouped") {
+          return { ...base, name: `${def.name} ${label}`, group: def.name, label: `${label}:` };
+        }
+        return { ...base, name: single ? def.name : `${def.name} ${label}` };
+      });
+
+      return { attempted: true, entries, errors: [] };
+    },
+  };
+}
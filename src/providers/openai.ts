@@ -3,16 +3,91 @@
  */
 
 import type { QuotaProvider, QuotaProviderContext, QuotaProviderResult } from "../lib/entries.js";
-import { queryOpenAIQuota } from "../lib/openai.js";
-
-type GroupedToastEntry = {
-  name: string;
-  percentRemaining: number;
-  resetTimeIso?: string;
-  group?: string;
-  label?: string;
-  right?: string;
-};
+import { formatResetClock } from "../lib/format-utils.js";
+import {
+  queryOpenAIAccountsQuota,
+  queryOpenAIQuota,
+  type OpenAICredits,
+  type OpenAIResult,
+  type OpenAIWindow,
+} from "../lib/openai.js";
+import type { ToastGroupEntry } from "../lib/toast-format-grouped.js";
+
+/**
+ * "BLOCKED until 14:32": the exact reset time, since the countdown rounds.
+ * Shown as the row's `right` text; the entry itself stays a 0% percent entry so
+ * alerts, history and forecasts still see the exhausted window.
+ */
+function blockedValue(window: OpenAIWindow): string {
+  const clock = window.resetTimeIso ? formatResetClock(window.resetTimeIso) : "";
+  return clock ? `BLOCKED until ${clock}` : "BLOCKED";
+}
+
+/** "Unlimited", "1,250 credits" or "0 credits"; null without credits data. */
+function creditsValue(credits: OpenAICredits | undefined): string | null {
+  if (!credits) return null;
+  if (credits.unlimited) return "Unlimited";
+  const balance = credits.balance === null ? NaN : Number(credits.balance);
+  if (Number.isFinite(balance)) {
+    return `${balance.toLocaleString("en-US", { maximumFractionDigits: 2 })} credits`;
+  }
+  return credits.hasCredits ? "available" : "0 credits";
+}
+
+function toEntries(
+  result: Extract<OpenAIResult, { success: true }>,
+  style: "classic" | "grouped",
+): ToastGroupEntry[] {
+  const windows = [
+    result.windows.hourly && { name: "Hourly", ...result.windows.hourly },
+    result.windows.weekly && { name: "Weekly", ...result.windows.weekly },
+    result.windows.codeReview && { name: "Code Review", ...result.windows.codeReview },
+  ].filter(Boolean) as Array<OpenAIWindow & { name: string }>;
+  const credits = creditsValue(result.credits);
+
+  // Keep the classic toast behavior: show a single entry based on the worst remaining window.
+  if (style === "classic") {
+    if (windows.length === 0) {
+      return [{ name: result.label, percentRemaining: 0 }];
+    }
+
+    windows.sort((a, b) => a.percentRemaining - b.percentRemaining);
+    const worst = windows.find((w) => w.blocked) ?? windows[0]!;
+
+    const entries: ToastGroupEntry[] = [
+      {
+        name: result.label,
+        percentRemaining: worst.percentRemaining,
+        resetTimeIso: worst.resetTimeIso,
+        ...(worst.blocked ? { right: blockedValue(worst) } : {}),
+      },
+    ];
+    if (credits) entries.push({ kind: "value", name: `${result.label} Credits`, value: credits });
+    return entries;
+  }
+
+  // Grouped style: expose all windows, then the credits balance.
+  const group = result.label;
+  const entries: ToastGroupEntry[] = windows.map((w) => ({
+    name: `${group} ${w.name}`,
+    group,
+    label: `${w.name}:`,
+    percentRemaining: w.percentRemaining,
+    resetTimeIso: w.resetTimeIso,
+    ...(w.blocked ? { right: blockedValue(w) } : {}),
+  }));
+  if (credits) {
+    entries.push({
+      kind: "value",
+      name: `${group} Credits`,
+      group,
+      label: "Credits:",
+      value: credits,
+    });
+  }
+
+  return entries;
+}
 
 export const openaiProvider: QuotaProvider = {
   id: "openai",
@@ -20,6 +95,7 @@ export const openaiProvider: QuotaProvider = {
   async isAvailable(ctx: QuotaProviderContext): Promise<boolean> {
     // Best-effort: if OpenCode exposes an openai provider, prefer that.
     // Otherwise, this provider will still work if auth.json has openai oauth.
+    if ((ctx.config.accounts?.openai ?? []).length > 0) return true;
     try {
       const resp = await ctx.client.config.providers();
       const ids = new Set((resp.data?.providers ?? []).map((p) => p.id));
@@ -37,7 +113,23 @@ export const openaiProvider: QuotaProvider = {
     );
   },
 
-  async fetch(_ctx: QuotaProviderContext): Promise<QuotaProviderResult> {
+  async fetch(ctx: QuotaProviderContext): Promise<QuotaProviderResult> {
+    const accounts = ctx.config?.accounts?.openai ?? [];
+    if (accounts.length > 0) {
+      const style = ctx.config.toastStyle ?? "classic";
+      const results = await queryOpenAIAccountsQuota(accounts);
+      const out: QuotaProviderResult = { attempted: true, entries: [], errors: [] };
+      for (const { account, result } of results) {
+        if (!result) continue;
+        if (!result.success) {
+          out.errors.push({ label: `OpenAI (${account})`, message: result.error, account });
+          continue;
+        }
+        out.entries.push(...toEntries(result, style).map((e) => ({ ...e, account })));
+      }
+      return out;
+    }
+
     const result = await queryOpenAIQuota();
 
     if (!result) {
@@ -52,80 +144,11 @@ export const openaiProvider: QuotaProvider = {
       };
     }
 
-    const style = _ctx.config.toastStyle ?? "classic";
-
-    // Keep the classic toast behavior: show a single entry based on the worst remaining window.
-    if (style === "classic") {
-      const windows = [
-        result.windows.hourly && { name: "Hourly", ...result.windows.hourly },
-        result.windows.weekly && { name: "Weekly", ...result.windows.weekly },
-        result.windows.codeReview && { name: "Code Review", ...result.windows.codeReview },
-      ].filter(Boolean) as Array<{ name: string; percentRemaining: number; resetTimeIso?: string }>;
-
-      if (windows.length === 0) {
-        return {
-          attempted: true,
-          entries: [{ name: result.label, percentRemaining: 0 }],
-          errors: [],
-        };
-      }
-
-      windows.sort((a, b) => a.percentRemaining - b.percentRemaining);
-      const worst = windows[0]!;
-
-      return {
-        attempted: true,
-        entries: [
-          {
-            name: result.label,
-            percentRemaining: worst.percentRemaining,
-            resetTimeIso: worst.resetTimeIso,
-          },
-        ],
-        errors: [],
-      };
-    }
-
-    // Grouped style: expose all windows.
-    const entries: GroupedToastEntry[] = [];
-    const group = result.label;
-
-    const hourly = result.windows.hourly;
-    if (hourly) {
-      entries.push({
-        name: `${group} Hourly`,
-        group,
-        label: "Hourly:",
-        percentRemaining: hourly.percentRemaining,
-        resetTimeIso: hourly.resetTimeIso,
-      });
-    }
-
-    const weekly = result.windows.weekly;
-    if (weekly) {
-      entries.push({
-        name: `${group} Weekly`,
-        group,
-        label: "Weekly:",
-        percentRemaining: weekly.percentRemaining,
-        resetTimeIso: weekly.resetTimeIso,
-      });
-    }
-
-    const codeReview = result.windows.codeReview;
-    if (codeReview) {
-      entries.push({
-        name: `${group} Code Review`,
-        group,
-        label: "Code Review:",
-        percentRemaining: codeReview.percentRemaining,
-        resetTimeIso: codeReview.resetTimeIso,
-      });
-    }
+    const style = ctx.config.toastStyle ?? "classic";
 
     return {
       attempted: true,
-      entries,
+      entries: toEntries(result, style),
       errors: [],
     };
   },
@@ -0,0 +1,89 @@
+/**
+ * OpenRouter provider wrapper.
+ *
+ * Shows the account credit balance as a value entry and, when the API key has a
+ * spending limit, the limit as a percent entry.
+ */
+
+import type { QuotaProvider, QuotaProviderContext, QuotaProviderResult } from "../lib/entries.js";
+import type { ToastGroupEntry } from "../lib/toast-format-grouped.js";
+import { fmtUsdAmount } from "../lib/format-utils.js";
+import { hasOpenRouterApiKeyConfigured, queryOpenRouterQuota } from "../lib/openrouter.js";
+
+export const openrouterProvider: QuotaProvider = {
+  id: "openrouter",
+
+  async isAvailable(ctx: QuotaProviderContext): Promise<boolean> {
+    // Best-effort: if OpenCode exposes an openrouter provider, prefer that.
+    try {
+      const resp = await ctx.client.config.providers();
+      const ids = new Set((resp.data?.providers ?? []).map((p) => p.id));
+      if (ids.has("openrouter")) return true;
+    } catch {
+      // ignore
+    }
+
+    return await hasOpenRouterApiKeyConfigured();
+  },
+
+  matchesCurrentModel(model: string): boolean {
+    const provider = model.split("/")[0]?.toLowerCase();
+    if (!provider) return false;
+    return provider.includes("openrouter");
+  },
+
+  async fetch(ctx: QuotaProviderContext): Promise<QuotaProviderResult> {
+    const result = await queryOpenRouterQuota();
+
+    if (!result) {
+      return { attempted: false, entries: [], errors: [] };
+    }
+
+    if (!result.success) {
+      return {
+        attempted: true,
+        entries: [],
+        errors: [{ label: "OpenRouter", message: result.error }],
+      };
+    }
+
+    const grouped = (ctx.config?.toastStyle ?? "classic") === "grouped";
+    const group = "OpenRouter";
+    const entries: ToastGroupEntry[] = [];
+
+    if (result.creditsRemainingUsd !== undefined) {
+      const value = fmtUsdAmount(result.creditsRemainingUsd);
+      entries.push(
+        grouped
+          ? { kind: "value", name: `${group} Credits`, group, label: "Credits:", value }
+          : { kind: "value", name: group, value },
+      );
+    }
+
+    if (result.limit) {
+      const { percentRemaining, resetTimeIso } = result.limit;
+      entries.push(
+        grouped
+          ? {
+              name: `${group} Key limit`,
+              group,
+              label: "Key limit:",
+              percentRemaining,
+              resetTimeIso,
+            }
+          : { name: `${group} Key`, percentRemaining, resetTimeIso },
+      );
+    }
+
+    // Credits are optional (some keys cannot read them); only fail when nothing is left.
+    if (entries.length === 0 && result.creditsError) {
+      return {
+        attempted: true,
+        entries: [],
+        errors: [{ label: "OpenRouter", message: result.creditsError }],
+      };
+    }
+
+    return { attempted: true, entries, errors: [] };
+  },
+};
@@ -5,6 +5,7 @@
  */
 
 import type { QuotaProvider } from "../lib/entries.js";
+import type { BudgetsConfig, CustomProviderConfig, LedgerConfig } from "../lib/types.js";
 import { copilotProvider } from "./copilot.js";
 import { openaiProvider } from "./openai.js";
 import { googleAntigravityProvider } from "./google-antigravity.js";
@@ -12,10 +13,18 @@ import { firmwareProvider } from "./firmware.js";
 import { chutesProvider } from "./chutes.js";
 import { qwenCodeProvider } from "./qwen-code.js";
 import { zaiProvider } from "./zai.js";
+import { openrouterProvider } from "./openrouter.js";
+import { createCustomProvider } from "./custom.js";
+import { createBudgetProvider } from "./budget.js";
+import { createLedgerProvider } from "./ledger.js";
 
-export function getProviders(): QuotaProvider[] {
+export function getProviders(params?: {
+  customProviders?: CustomProviderConfig[];
+  budgets?: BudgetsConfig;
+  ledgers?: LedgerConfig[];
+}): QuotaProvider[] {
   // Order here defines display ordering in the toast.
-  return [
+  const providers: QuotaProvider[] = [
     copilotProvider,
     openaiProvider,
     qwenCodeProvider,
@@ -23,5 +32,24 @@ export function getProviders(): QuotaProvider[] {
     chutesProvider,
     googleAntigravityProvider,
     zaiProvider,
+    openrouterProvider,
   ];
+
+  // Config-declared providers go last; built-in ids (including "budget", added below)
+  // cannot be shadowed, and ":" is left to namespaced ids such as "ledger:<id>".
+  const ids = new Set([...providers.map((p) => p.id), "budget"]);
+  for (const def of params?.customProviders ?? []) {
+    if (ids.has(def.id) || def.id.includes(":")) continue;
+    ids.add(def.id);
+    providers.push(createCustomProvider(def));
+  }
+  // Ledger ids are namespaced ("ledger:<id>"), so they cannot collide with the above.
+  for (const def of params?.ledgers ?? []) {
+    providers.push(createLedgerProvider(def));
+  }
+
+  // Budgets come from local history; unavailable unless a cap is configured.
+  if (params?.budgets) providers.push(createBudgetProvider(params.budgets));
+
+  return providers;
 }
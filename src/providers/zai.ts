@@ -5,12 +5,82 @@
  */
 
 import type { QuotaProvider, QuotaProviderContext, QuotaProviderResult } from "../lib/entries.js";
-import { queryZaiQuota } from "../lib/zai.js";
+import { formatTokenCount } from "../lib/format-utils.js";
+import type { ToastGroupEntry } from "../lib/toast-format-grouped.js";
+import type { ZaiLimitWindow, ZaiResult } from "../lib/types.js";
+import { queryZaiAccountsQuota, queryZaiQuota } from "../lib/zai.js";
+
+/** Per-model rows shown under each window; the rest are folded into "other". */
+const MAX_MODEL_ROWS = 3;
+
+/** "glm-4.6 (5-Hour): 1.2M tok 62%" style rows for a window's usage breakdown. */
+function modelRows(group: string, window: ZaiLimitWindow): ToastGroupEntry[] {
+  const models = window.models ?? [];
+  const total = models.reduce((sum, m) => sum + m.usage, 0);
+  if (total <= 0) return [];
+
+  const shown = models.slice(0, MAX_MODEL_ROWS);
+  const other = models.slice(MAX_MODEL_ROWS).reduce((sum, m) => sum + m.usage, 0);
+  const rows = shown.map((m) => ({ model: m.model, usage: m.usage }));
+  if (other > 0) rows.push({ model: "other", usage: other });
+
+  const amount = (usage: number) =>
+    window.type === "TOKENS_LIMIT"
+      ? `${formatTokenCount(usage)} tok`
+      : usage.toLocaleString("en-US");
+
+  return rows.map((row) => ({
+    kind: "value" as const,
+    name: `${group} ${window.name} ${row.model}`,
+    group,
+    label: `${row.model} (${window.name}):`,
+    value: `${amount(row.usage)} ${Math.round((row.usage / total) * 100)}%`,
+  }));
+}
+
+function toEntries(
+  result: Extract<ZaiResult, { success: true }>,
+  style: "classic" | "grouped",
+): ToastGroupEntry[] {
+  // Classic toast: show a single entry based on the worst remaining window
+  if (style === "classic") {
+    if (result.windows.length === 0) {
+      return [{ name: result.label, percentRemaining: 0 }];
+    }
+
+    const worst = [...result.windows].sort((a, b) => a.percentRemaining - b.percentRemaining)[0]!;
+
+    return [
+      {
+        name: result.label,
+        percentRemaining: worst.percentRemaining,
+        resetTimeIso: worst.resetTimeIso,
+      },
+    ];
+  }
+
+  // Grouped style: one row per limit window, each followed by its per-model usage
+  const group = result.label;
+  const entries: ToastGroupEntry[] = [];
+  for (const window of result.windows) {
+    entries.push({
+      name: `${group} ${window.name}`,
+      group,
+      label: `${window.name}:`,
+      percentRemaining: window.percentRemaining,
+      resetTimeIso: window.resetTimeIso,
+    });
+    entries.push(...modelRows(group, window));
+  }
+
+  return entries;
+}
 
 export const zaiProvider: QuotaProvider = {
   id: "zai",
 
   async isAvailable(ctx: QuotaProviderContext): Promise<boolean> {
+    if ((ctx.config.accounts?.zai ?? []).length > 0) return true;
     try {
       const resp = await ctx.client.config.providers();
       const ids = new Set((resp.data?.providers ?? []).map((p) => p.id));
@@ -31,6 +101,22 @@ export const zaiProvider: QuotaProvider = {
   },
 
   async fetch(ctx: QuotaProviderContext): Promise<QuotaProviderResult> {
+    const accounts = ctx.config?.accounts?.zai ?? [];
+    if (accounts.length > 0) {
+      const style = ctx.config.toastStyle ?? "classic";
+      const results = await queryZaiAccountsQuota(accounts);
+      const out: QuotaProviderResult = { attempted: true, entries: [], errors: [] };
+      for (const { account, result } of results) {
+        if (!result) continue;
+        if (!result.success) {
+          out.errors.push({ label: `Z.ai (${account})`, message: result.error, account });
+          continue;
+        }
+        out.entries.push(...toEntries(result, style).map((e) => ({ ...e, account })));
+      }
+      return out;
+    }
+
     const result = await queryZaiQuota();
 
     if (!result) {
@@ -47,84 +133,9 @@ export const zaiProvider: QuotaProvider = {
 
     const style = ctx.config.toastStyle ?? "classic";
 
-    // Classic toast: show a single entry based on the worst remaining window
-    if (style === "classic") {
-      const windows: Array<{ name: string; percentRemaining: number; resetTimeIso?: string }> = [];
-
-      if (result.windows.hourly) {
-        windows.push({ name: "Hourly", ...result.windows.hourly });
-      }
-      if (result.windows.weekly) {
-        windows.push({ name: "Weekly", ...result.windows.weekly });
-      }
-      if (result.windows.mcp) {
-        windows.push({ name: "MCP", ...result.windows.mcp });
-      }
-
-      if (windows.length === 0) {
-        return {
-          attempted: true,
-          entries: [{ name: result.label, percentRemaining: 0 }],
-          errors: [],
-        };
-      }
-
-      windows.sort((a, b) => a.percentRemaining - b.percentRemaining);
-      const worst = windows[0]!;
-
-      return {
-        attempted: true,
-        entries: [
-          {
-            name: result.label,
-            percentRemaining: worst.percentRemaining,
-            resetTimeIso: worst.resetTimeIso,
-          },
-        ],
-        errors: [],
-      };
-    }
-
-    // Grouped style: expose all windows
-    const entries: Array<{ name: string; percentRemaining: number; group?: string; label?: string; resetTimeIso?: string }> = [];
-    const group = result.label;
-
-    const hourly = result.windows.hourly;
-    if (hourly) {
-      entries.push({
-        name: `${group} Hourly`,
-        group,
-        label: "Hourly:",
-        percentRemaining: hourly.percentRemaining,
-        resetTimeIso: hourly.resetTimeIso,
-      });
-    }
-
-    const weekly = result.windows.weekly;
-    if (weekly) {
-      entries.push({
-        name: `${group} Weekly`,
-        group,
-        label: "Weekly:",
-        percentRemaining: weekly.percentRemaining,
-        resetTimeIso: weekly.resetTimeIso,
-      });
-    }
-
-    const mcp = result.windows.mcp;
-    if (mcp) {
-      entries.push({
-        name: `${group} MCP`,
-        group,
-        label: "MCP:",
-        percentRemaining: mcp.percentRemaining,
-        resetTimeIso: mcp.resetTimeIso,
-      });
-    }
-
     return {
       attempted: true,
-      entries,
+      entries: toEntries(result, style),
       errors: [],
     };
   },
@@ -1,6 +1,7 @@
 import { describe, expect, it } from "vitest";
 
 import { formatQuotaRows } from "../src/lib/format.js";
+import { formatResetClock } from "../src/lib/format-utils.js";
 
 describe("formatQuotaRows", () => {
   it("renders a Copilot row", () => {
@@ -70,4 +71,31 @@ describe("formatQuotaRows", () => {
 
     expect(out).not.toMatch(/\d+[dhms]/);
   });
+
+  it("shows right-side text such as a blocked window next to the name", () => {
+    const out = formatQuotaRows({
+      version: "1.0.0",
+      layout: { maxWidth: 50, narrowAt: 42, tinyAt: 32 },
+      entries: [
+        {
+          name: "OpenAI",
+          percentRemaining: 0,
+          resetTimeIso: "2099-01-01T00:00:00.000Z",
+          right: "BLOCKED until 14:32",
+        } as any,
+      ],
+    });
+
+    expect(out).toContain("OpenAI BLOCKED until 14:32");
+    expect(out).toContain("0%");
+  });
+});
+
+describe("formatResetClock", () => {
+  it("shows the local time today and adds the date otherwise", () => {
+    const now = new Date(2026, 0, 15, 9, 0).getTime();
+    expect(formatResetClock(new Date(2026, 0, 15, 14, 5).toISOString(), now)).toBe("14:05");
+    expect(formatResetClock(new Date(2026, 0, 16, 0, 30).toISOString(), now)).toBe("Jan 16 00:30");
+    expect(formatResetClock("not a date", now)).toBe("");
+  });
 });
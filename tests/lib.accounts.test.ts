@@ -0,0 +1,166 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+const files = new Map<string, string>();
+
+vi.mock("fs/promises", () => ({
+  readFile: vi.fn(async (path: string) => {
+    const content = files.get(path);
+    if (content === undefined) throw new Error("ENOENT");
+    return content;
+  }),
+}));
+
+vi.mock("../src/lib/opencode-auth.js", () => ({
+  readAuthFile: vi.fn(),
+}));
+
+import { describeAccountSource, resolveAccountCredential } from "../src/lib/accounts.js";
+import { openaiProvider } from "../src/providers/openai.js";
+import { zaiProvider } from "../src/providers/zai.js";
+
+const realEnv = process.env;
+
+function usageResponse(plan: string, usedPercent: number): Response {
+  return new Response(
+    JSON.stringify({
+      plan_type: plan,
+      rate_limit: {
+        limit_reached: false,
+        primary_window: {
+          used_percent: usedPercent,
+          limit_window_seconds: 18000,
+          reset_after_seconds: 3600,
+        },
+        secondary_window: null,
+      },
+    }),
+    { status: 200 },
+  );
+}
+
+describe("account credentials", () => {
+  beforeEach(() => {
+    files.clear();
+    process.env = { ...realEnv };
+  });
+
+  afterEach(() => {
+    process.env = realEnv;
+    vi.unstubAllGlobals();
+  });
+
+  it("reads tokens from files, env vars and auth.json keys", async () => {
+    const { readAuthFile } = await import("../src/lib/opencode-auth.js");
+    (readAuthFile as any).mockResolvedValue({
+      "openai-work": { type: "oauth", access: "tok_auth" },
+    });
+    files.set("/keys/plain.txt", "tok_file\n");
+    files.set("/keys/entry.json", '{"type":"api","key":"zk"}');
+    process.env.WORK_TOKEN = " tok_env ";
+
+    await expect(
+      resolveAccountCredential({ label: "a", file: "/keys/plain.txt" }),
+    ).resolves.toEqual({ ok: true, credential: { kind: "token", token: "tok_file" } });
+    await expect(
+      resolveAccountCredential({ label: "b", file: "/keys/entry.json" }),
+    ).resolves.toEqual({
+      ok: true,
+      credential: { kind: "auth", entry: { type: "api", key: "zk" } },
+    });
+    await expect(resolveAccountCredential({ label: "c", env: "WORK_TOKEN" })).resolves.toEqual({
+      ok: true,
+      credential: { kind: "token", token: "tok_env" },
+    });
+    await expect(resolveAccountCredential({ label: "d", authKey: "openai-work" })).resolves.toEqual(
+      { ok: true, credential: { kind: "auth", entry: { type: "oauth", access: "tok_auth" } } },
+    );
+  });
+
+  it("reports missing sources without exposing tokens", async () => {
+    const { readAuthFile } = await import("../src/lib/opencode-auth.js");
+    (readAuthFile as any).mockResolvedValue({});
+
+    expect(await resolveAccountCredential({ label: "a", env: "NOPE" })).toEqual({
+      ok: false,
+      error: "NOPE is not set",
+    });
+    expect(await resolveAccountCredential({ label: "b", authKey: "missing" })).toMatchObject({
+      ok: false,
+    });
+    expect(await resolveAccountCredential({ label: "c", file: "/nope" })).toMatchObject({
+      ok: false,
+    });
+    expect(describeAccountSource({ label: "x", env: "WORK_TOKEN" })).toBe("env:WORK_TOKEN");
+  });
+
+  it("returns one OpenAI entry per account", async () => {
+    process.env.OPENAI_PERSONAL = "tok_personal";
+    process.env.OPENAI_WORK = "tok_work";
+
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async (_url: any, opts: any) =>
+        opts.headers.Authorization === "Bearer tok_work"
+          ? usageResponse("pro", 70)
+          : usageResponse("plus", 20),
+      ) as any,
+    );
+
+    const out = await openaiProvider.fetch({
+      config: {
+        googleModels: [],
+        accounts: {
+          openai: [
+            { label: "personal", env: "OPENAI_PERSONAL" },
+            { label: "work", env: "OPENAI_WORK" },
+            { label: "spare", env: "OPENAI_SPARE" },
+          ],
+        },
+      },
+    } as any);
+
+    expect(out.attempted).toBe(true);
+    expect(out.entries.map((e) => [e.name, (e as any).percentRemaining])).toEqual([
+      ["OpenAI Plus (personal)", 80],
+      ["OpenAI Pro (work)", 30],
+    ]);
+    expect(out.errors).toEqual([
+      { label: "OpenAI (spare)", message: "OPENAI_SPARE is not set", account: "spare" },
+    ]);
+  });
+
+  it("groups Z.ai windows per account", async () => {
+    process.env.ZAI_WORK = "zk_work";
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(
+        async () =>
+          new Response(
+            JSON.stringify({
+              data: { limits: [{ type: "TOKENS_LIMIT", unit: 3, percentage: 40 }] },
+            }),
+            { status: 200 },
+          ),
+      ) as any,
+    );
+
+    const out = await zaiProvider.fetch({
+      config: {
+        googleModels: [],
+        toastStyle: "grouped",
+        accounts: { zai: [{ label: "work", env: "ZAI_WORK" }] },
+      },
+    } as any);
+
+    expect(out.entries).toEqual([
+      {
+        name: "Z.ai (work) Hourly",
+        group: "Z.ai (work)",
+        label: "Hourly:",
+        percentRemaining: 60,
+        resetTimeIso: undefined,
+        account: "work",
+      },
+    ]);
+  });
+});
@@ -0,0 +1,105 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  computeBudgetStatuses,
+  formatBudgetValue,
+  hasBudgets,
+  startOfLocalMonthMs,
+  startOfNextLocalMonthMs,
+} from "../src/lib/budgets.js";
+import { formatQuotaStatsReport } from "../src/lib/quota-stats-format.js";
+import type { AggregateResult, TokenBuckets } from "../src/lib/quota-stats.js";
+
+const zero: TokenBuckets = { input: 0, output: 0, reasoning: 0, cache_read: 0, cache_write: 0 };
+
+function makeResult(): AggregateResult {
+  return {
+    window: { sinceMs: 0, untilMs: 1 },
+    totals: {
+      priced: zero,
+      unknown: zero,
+      unpriced: zero,
+      costUsd: 70,
+      messageCount: 3,
+      sessionCount: 1,
+    },
+    bySourceProvider: [
+      { providerID: "anthropic", tokens: zero, costUsd: 60, messageCount: 2 },
+      { providerID: "openai", tokens: zero, costUsd: 10, messageCount: 1 },
+    ],
+    bySourceModel: [
+      {
+        sourceProviderID: "anthropic",
+        sourceModelID: "claude-sonnet-4-5",
+        tokens: zero,
+        costUsd: 60,
+        messageCount: 2,
+      },
+      {
+        sourceProviderID: "openai",
+        sourceModelID: "gpt-5",
+        tokens: zero,
+        costUsd: 10,
+        messageCount: 1,
+      },
+    ],
+    byModel: [],
+    bySession: [],
+    byAgent: [],
+    byMode: [],
+    unknown: [],
+    unpriced: [],
+  };
+}
+
+describe("budgets", () => {
+  it("detects configured budgets", () => {
+    expect(hasBudgets({ providers: {}, models: {} })).toBe(false);
+    expect(hasBudgets({ monthlyUsd: 100, providers: {}, models: {} })).toBe(true);
+    expect(hasBudgets({ providers: {}, models: { "gpt-5": 5 } })).toBe(true);
+  });
+
+  it("uses local calendar month boundaries", () => {
+    const now = new Date(2026, 2, 15, 10, 30).getTime();
+    expect(startOfLocalMonthMs(now)).toBe(new Date(2026, 2, 1).getTime());
+    expect(startOfNextLocalMonthMs(now)).toBe(new Date(2026, 3, 1).getTime());
+    expect(startOfNextLocalMonthMs(new Date(2026, 11, 31).getTime())).toBe(
+      new Date(2027, 0, 1).getTime(),
+    );
+  });
+
+  it("computes total, provider and model spend", () => {
+    const statuses = computeBudgetStatuses(
+      {
+        monthlyUsd: 100,
+        providers: { anthropic: 50 },
+        models: { "openai/gpt-5": 40, "claude-sonnet-4-5": 120 },
+      },
+      makeResult(),
+    );
+
+    expect(statuses.map((s) => [s.scope, s.key, s.spentUsd, s.percentUsed])).toEqual([
+      ["total", "total", 70, 70],
+      ["provider", "anthropic", 60, 120],
+      ["model", "openai/gpt-5", 10, 25],
+      ["model", "claude-sonnet-4-5", 60, 50],
+    ]);
+    expect(formatBudgetValue(statuses[0]!)).toBe("spent $70.00 of $100.00 (70%)");
+  });
+
+  it("adds a budget section to the token report", () => {
+    const statuses = computeBudgetStatuses(
+      { providers: { anthropic: 50 }, models: {} },
+      makeResult(),
+    );
+    const out = formatQuotaStatsReport({
+      title: "Tokens used (Last 30 Days) (/tokens_monthly)",
+      result: makeResult(),
+      budgets: { sinceMs: new Date(2026, 2, 1).getTime(), statuses },
+    });
+
+    expect(out).toContain("## Budget (Month to Date)");
+    expect(out).toMatch(/anthropic.*\$60\.00.*\$50\.00.*120%.*over \$10\.00/);
+    expect(out).toContain("Since 00:00 2026-03-01");
+  });
+});
@@ -0,0 +1,55 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  MAX_COOLDOWN_MS,
+  createCircuitBreaker,
+  isFailedProviderResult,
+} from "../src/lib/circuit-breaker.js";
+
+const NOW = 1_000_000;
+
+describe("circuit breaker", () => {
+  it("pauses a provider after consecutive failures", () => {
+    const breaker = createCircuitBreaker({ threshold: 3, cooldownMs: 60_000 });
+
+    breaker.recordFailure("zai", NOW);
+    breaker.recordFailure("zai", NOW);
+    expect(breaker.pausedForMs("zai", NOW)).toBe(0);
+
+    breaker.recordFailure("zai", NOW);
+    expect(breaker.pausedForMs("zai", NOW)).toBe(60_000);
+    expect(breaker.pausedForMs("openai", NOW)).toBe(0);
+    expect(breaker.pausedForMs("zai", NOW + 60_000)).toBe(0);
+  });
+
+  it("doubles the cooldown while trial fetches fail, and resets on success", () => {
+    const breaker = createCircuitBreaker({ threshold: 1, cooldownMs: 10 * 60_000 });
+
+    breaker.recordFailure("copilot", NOW);
+    breaker.recordFailure("copilot", NOW);
+    expect(breaker.pausedForMs("copilot", NOW)).toBe(20 * 60_000);
+    breaker.recordFailure("copilot", NOW);
+    expect(breaker.pausedForMs("copilot", NOW)).toBe(MAX_COOLDOWN_MS);
+
+    breaker.recordSuccess("copilot");
+    expect(breaker.pausedForMs("copilot", NOW)).toBe(0);
+    expect(breaker.failureCount("copilot")).toBe(0);
+  });
+
+  it("never pauses when the threshold is 0", () => {
+    const breaker = createCircuitBreaker({ threshold: 0, cooldownMs: 60_000 });
+    for (let i = 0; i < 5; i++) breaker.recordFailure("chutes", NOW);
+    expect(breaker.pausedForMs("chutes", NOW)).toBe(0);
+  });
+
+  it("counts only results with errors and nothing to show as failures", () => {
+    expect(
+      isFailedProviderResult({
+        attempted: true,
+        entries: [],
+        errors: [{ label: "Z", message: "x" }],
+      }),
+    ).toBe(true);
+    expect(isFailedProviderResult({ attempted: false, entries: [], errors: [] })).toBe(false);
+  });
+});
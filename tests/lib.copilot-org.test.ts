@@ -0,0 +1,175 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("fs", async (importOriginal) => {
+  const mod = await importOriginal<typeof import("fs")>();
+  return {
+    ...mod,
+    // Prevent test environment from accidentally using a real local PAT config.
+    existsSync: vi.fn(() => false),
+  };
+});
+
+vi.mock("../src/lib/opencode-auth.js", () => ({
+  readAuthFile: vi.fn(),
+}));
+
+import { parseOrgConfig } from "../src/lib/copilot.js";
+import {
+  formatCopilotOrgReport,
+  queryCopilotOrgReport,
+  queryCopilotOrgUsage,
+} from "../src/lib/copilot-org.js";
+import type { CopilotOrgConfig } from "../src/lib/types.js";
+
+const ORG: CopilotOrgConfig = {
+  slug: "acme",
+  scope: "organization",
+  token: "github_pat_admin",
+  tier: "business",
+};
+
+function usage(...quantities: number[]) {
+  return {
+    timePeriod: { year: 2026, month: 1 },
+    organization: "acme",
+    usageItems: quantities.map((grossQuantity) => ({
+      product: "Copilot",
+      sku: "Copilot Premium Request",
+      unitType: "requests",
+      grossQuantity,
+      netQuantity: grossQuantity,
+    })),
+  };
+}
+
+function json(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), { status });
+}
+
+describe("parseOrgConfig", () => {
+  it("defaults the token, scope and tier", () => {
+    expect(parseOrgConfig({ token: "ghp_user", tier: "pro", org: { slug: "acme" } })).toEqual({
+      slug: "acme",
+      scope: "organization",
+      token: "ghp_user",
+      tier: "business",
+    });
+    expect(
+      parseOrgConfig({ org: { slug: "big-co", scope: "enterprise", token: "github_pat_x" } }),
+    ).toEqual({ slug: "big-co", scope: "enterprise", token: "github_pat_x", tier: "enterprise" });
+  });
+
+  it("rejects missing tokens, bad slugs and non-seat tiers", () => {
+    expect(parseOrgConfig({ org: { slug: "acme" } })).toBeNull();
+    expect(parseOrgConfig({ token: "t", org: { slug: "a/b" } })).toBeNull();
+    expect(parseOrgConfig({ token: "t", org: { slug: "acme", tier: "pro" } })).toBeNull();
+    expect(parseOrgConfig({ token: "t" })).toBeNull();
+  });
+});
+
+describe("copilot org usage", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2026-01-15T12:00:00.000Z"));
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.useRealTimers();
+  });
+
+  it("computes the shared pool from seats and the per-seat allowance", async () => {
+    const fetchMock = vi.fn(async (url: any) => {
+      const s = String(url);
+      if (s.includes("/copilot/billing/seats")) return json({ total_seats: 10, seats: [] });
+      return json(usage(500, 250));
+    });
+    vi.stubGlobal("fetch", fetchMock as any);
+
+    const result = await queryCopilotOrgUsage(ORG);
+    expect(result).toMatchObject({
+      success: true,
+      used: 750,
+      seats: 10,
+      included: 3000,
+      percentRemaining: 75,
+      resetTimeIso: "2026-02-01T00:00:00.000Z",
+    });
+
+    const urls = fetchMock.mock.calls.map((c) => String(c[0]));
+    expect(urls).toContain(
+      "https://api.github.com/organizations/acme/settings/billing/premium_request/usage",
+    );
+    expect(urls).toContain(
+      "https://api.github.com/orgs/acme/copilot/billing/seats?per_page=1&page=1",
+    );
+  });
+
+  it("uses enterprise endpoints and reports usage without a pool when seats are unreadable", async () => {
+    const fetchMock = vi.fn(async (url: any) => {
+      const s = String(url);
+      if (s.includes("/copilot/billing/seats")) {
+        return json({ message: "Resource not accessible by personal access token" }, 403);
+      }
+      return json(usage(42.5));
+    });
+    vi.stubGlobal("fetch", fetchMock as any);
+
+    const result = await queryCopilotOrgUsage({ ...ORG, scope: "enterprise", tier: "enterprise" });
+    expect(result).toMatchObject({
+      success: true,
+      used: 42.5,
+      seats: null,
+      percentRemaining: null,
+    });
+    expect(result && result.success && result.seatsError).toContain("403");
+    expect(String(fetchMock.mock.calls[0]?.[0])).toContain("/enterprises/acme/settings/billing");
+  });
+
+  it("fails when the usage report is not readable", async () => {
+    vi.stubGlobal("fetch", vi.fn(async () => json({ message: "Not Found" }, 404)) as any);
+
+    await expect(queryCopilotOrgUsage(ORG)).resolves.toEqual({
+      success: false,
+      error: "GitHub API error 404: Not Found",
+    });
+  });
+
+  it("ranks top consumers from per-member usage", async () => {
+    const perUser: Record<string, number> = { alice: 120, bob: 300, carol: 0 };
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async (url: any) => {
+        const s = String(url);
+        if (s.includes("/copilot/billing/seats")) {
+          return json({
+            total_seats: 3,
+            seats: Object.keys(perUser).map((login) => ({ assignee: { login } })),
+          });
+        }
+        const user = new URL(s).searchParams.get("user");
+        return json(user ? usage(perUser[user] ?? 0) : usage(420));
+      }) as any,
+    );
+
+    const result = await queryCopilotOrgReport({ config: ORG });
+    expect(result).toMatchObject({
+      success: true,
+      queried: 3,
+      consumers: [
+        { login: "bob", used: 300 },
+        { login: "alice", used: 120 },
+      ],
+    });
+
+    const out = formatCopilotOrgReport(result);
+    expect(out).toContain("Organization: acme (business, 3 seats)");
+    expect(out).toContain("Premium requests: 420 / 900 included (53% left");
+    expect(out).toMatch(/bob\s*\|\s*300\s*\|\s*71%/);
+    expect(out).not.toContain("carol");
+  });
+
+  it("explains how to configure an org when none is set", () => {
+    expect(formatCopilotOrgReport(null)).toContain('"org" section');
+  });
+});
@@ -6,6 +6,7 @@ vi.mock("fs", async (importOriginal) => {
     ...mod,
     // Prevent test environment from accidentally using a real local PAT config.
     existsSync: vi.fn(() => false),
+    readFileSync: vi.fn(mod.readFileSync),
   };
 });
 
@@ -111,4 +112,209 @@ describe("queryCopilotQuota", () => {
     expect(out && out.success ? out.total : -1).toBe(300);
     expect(out && out.success ? out.used : -1).toBe(100);
   });
+
+  it("queries the GitHub Enterprise API host stored with the login", async () => {
+    const { queryCopilotQuota } = await import("../src/lib/copilot.js");
+    const { readAuthFile } = await import("../src/lib/opencode-auth.js");
+    (readAuthFile as any).mockResolvedValueOnce({
+      "github-copilot-enterprise": {
+        type: "oauth",
+        refresh: "gho_ent",
+        enterpriseUrl: "octo.ghe.com",
+      },
+    });
+
+    const fetchMock = vi.fn(
+      async (_url: any, _opts: any) =>
+        new Response(
+          JSON.stringify({
+            copilot_plan: "enterprise",
+            quota_reset_date: "2026-02-01T00:00:00.000Z",
+            quota_snapshots: {
+              premium_interactions: {
+                entitlement: 1000,
+                remaining: 900,
+                percent_remaining: 90,
+                unlimited: false,
+              },
+            },
+          }),
+          { status: 200 },
+        ),
+    );
+    vi.stubGlobal("fetch", fetchMock as any);
+
+    const out = await queryCopilotQuota();
+    expect(out && out.success ? out.percentRemaining : -1).toBe(90);
+    expect(String(fetchMock.mock.calls[0]![0])).toBe(
+      "https://api.octo.ghe.com/copilot_internal/user",
+    );
+  });
+
+  it("prefers baseUrls.copilot over the stored enterprise host", async () => {
+    const { queryCopilotQuota } = await import("../src/lib/copilot.js");
+    const { setBaseUrlOverrides } = await import("../src/lib/base-urls.js");
+    const { readAuthFile } = await import("../src/lib/opencode-auth.js");
+    (readAuthFile as any).mockResolvedValueOnce({
+      "github-copilot": { type: "oauth", refresh: "gho_abc", enterpriseUrl: "octo.ghe.com" },
+    });
+    setBaseUrlOverrides({ copilot: "https://github.corp.example/api/v3" });
+
+    const fetchMock = vi.fn(async () => new Response("nope", { status: 404 }));
+    vi.stubGlobal("fetch", fetchMock as any);
+
+    await queryCopilotQuota();
+    expect(String((fetchMock.mock.calls[0] as any[])[0])).toBe(
+      "https://github.corp.example/api/v3/copilot_internal/user",
+    );
+  });
+});
+
+describe("Copilot reset date", () => {
+  const nowMs = Date.parse("2026-01-15T12:00:00.000Z");
+
+  it("prefers quota_reset_date and reports a disagreeing assigned_date", async () => {
+    const { resolveCopilotResetDate } = await import("../src/lib/copilot.js");
+    expect(
+      resolveCopilotResetDate({
+        quotaResetDate: "2026-01-20",
+        assignedDate: "2025-06-28T09:30:00Z",
+        nowMs,
+      }),
+    ).toEqual({
+      resetTimeIso: "2026-01-20T00:00:00.000Z",
+      source: "quota_reset_date",
+      conflicts: [{ source: "assigned_date", resetTimeIso: "2026-01-28T00:00:00.000Z" }],
+    });
+  });
+
+  it("falls back to the assignment anniversary, then the calendar month", async () => {
+    const { resolveCopilotResetDate } = await import("../src/lib/copilot.js");
+    // A past quota_reset_date is stale; day 31 clamps to February's last day.
+    expect(
+      resolveCopilotResetDate({
+        quotaResetDate: "2026-01-01T00:00:00Z",
+        assignedDate: "2025-10-31T00:00:00Z",
+        nowMs: Date.parse("2026-02-03T00:00:00Z"),
+      }),
+    ).toEqual({ resetTimeIso: "2026-02-28T00:00:00.000Z", source: "assigned_date", conflicts: [] });
+    expect(resolveCopilotResetDate({ assignedDate: "2025-03-14", nowMs })).toMatchObject({
+      resetTimeIso: "2026-02-14T00:00:00.000Z",
+      source: "assigned_date",
+    });
+    expect(resolveCopilotResetDate({ nowMs })).toEqual({
+      resetTimeIso: "2026-02-01T00:00:00.000Z",
+      source: "calendar_month",
+      conflicts: [],
+    });
+  });
+
+  it("carries the internal API dates through and lists them in diagnostics", async () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date(nowMs));
+    vi.resetModules();
+    const { getCopilotResetDiagnostics, queryCopilotQuota } = await import("../src/lib/copilot.js");
+    const { readAuthFile } = await import("../src/lib/opencode-auth.js");
+    (readAuthFile as any).mockResolvedValueOnce({
+      "github-copilot": { type: "oauth", refresh: "gho_abc" },
+    });
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(
+        async () =>
+          new Response(
+            JSON.stringify({
+              assigned_date: "2025-08-22T10:00:00Z",
+              quota_reset_date: "2026-01-22",
+              quota_snapshots: {
+                premium_interactions: {
+                  entitlement: 300,
+                  remaining: 150,
+                  percent_remaining: 50,
+                  unlimited: false,
+                },
+              },
+            }),
+            { status: 200 },
+          ),
+      ) as any,
+    );
+
+    const out = await queryCopilotQuota();
+    expect(out && out.success ? out.resetTimeIso : null).toBe("2026-01-22T00:00:00.000Z");
+    expect(getCopilotResetDiagnostics()).toEqual([
+      "- default: 2026-01-22T00:00:00.000Z (source=quota_reset_date)",
+    ]);
+
+    vi.unstubAllGlobals();
+    vi.useRealTimers();
+  });
+  it("retries a failed reset lookup after a minute instead of six hours", async () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date(nowMs));
+    vi.resetModules();
+    const fs = await import("fs");
+    const { queryCopilotQuota } = await import("../src/lib/copilot.js");
+    const { readAuthFile } = await import("../src/lib/opencode-auth.js");
+    (fs.existsSync as any).mockReturnValue(true);
+    (fs.readFileSync as any).mockReturnValue(
+      JSON.stringify({ token: "github_pat_x", tier: "pro" }),
+    );
+    (readAuthFile as any).mockResolvedValue({
+      "github-copilot": { type: "oauth", refresh: "gho_abc" },
+    });
+    let internalUp = false;
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async (url: any) => {
+        const s = String(url);
+        if (s.includes("/copilot_internal/user") && internalUp) {
+          return new Response(
+            JSON.stringify({ quota_reset_date: "2026-01-22", quota_snapshots: {} }),
+            { status: 200 },
+          );
+        }
+        if (s.includes("/premium_request/usage")) {
+          return new Response(JSON.stringify({ timePeriod: { year: 2026 }, usageItems: [] }), {
+            status: 200,
+          });
+        }
+        return new Response("not found", { status: 404 });
+      }) as any,
+    );
+
+    try {
+      const first = await queryCopilotQuota();
+      expect(first && first.success ? first.reset?.source : null).toBe("calendar_month");
+
+      internalUp = true;
+      vi.setSystemTime(new Date(nowMs + 61_000));
+      const second = await queryCopilotQuota();
+      expect(second && second.success ? second.resetTimeIso : null).toBe(
+        "2026-01-22T00:00:00.000Z",
+      );
+    } finally {
+      (fs.existsSync as any).mockReturnValue(false);
+      (fs.readFileSync as any).mockImplementation(
+        (await vi.importActual<typeof import("fs")>("fs")).readFileSync,
+      );
+      (readAuthFile as any).mockReset();
+      vi.unstubAllGlobals();
+      vi.useRealTimers();
+    }
+  });
+});
+
+describe("toGitHubApiBaseUrl", () => {
+  it("maps GitHub hosts to their REST API base", async () => {
+    const { toGitHubApiBaseUrl } = await import("../src/lib/base-urls.js");
+    expect(toGitHubApiBaseUrl("github.com")).toBe("https://api.github.com");
+    expect(toGitHubApiBaseUrl("octo.ghe.com")).toBe("https://api.octo.ghe.com");
+    expect(toGitHubApiBaseUrl("https://github.corp.example/")).toBe(
+      "https://github.corp.example/api/v3",
+    );
+    expect(toGitHubApiBaseUrl("https://github.corp.example/api/v3/")).toBe(
+      "https://github.corp.example/api/v3",
+    );
+  });
 });
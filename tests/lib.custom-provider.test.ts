@@ -0,0 +1,150 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { evaluateJsonPath } from "../src/lib/json-path.js";
+import {
+  extractCustomProviderEntries,
+  queryCustomProviderQuota,
+} from "../src/lib/custom-provider.js";
+import { createCustomProvider } from "../src/providers/custom.js";
+import { getProviders } from "../src/providers/registry.js";
+import type { CustomProviderConfig } from "../src/lib/types.js";
+
+function makeDef(overrides: Partial<CustomProviderConfig> = {}): CustomProviderConfig {
+  return {
+    id: "gateway",
+    name: "Gateway",
+    url: "https://gateway.example.com/quota",
+    method: "GET",
+    headers: { Authorization: "Bearer {env:GATEWAY_TOKEN}" },
+    entries: [
+      {
+        name: "Daily",
+        used: "$.data.daily.used",
+        limit: "$.data.daily.limit",
+        resetAt: "$.data.daily.reset",
+      },
+      { name: "Balance", value: "$.data.balance", format: "usd" },
+    ],
+    ...overrides,
+  };
+}
+
+describe("json-path", () => {
+  it("resolves dotted keys, bracket keys and indexes", () => {
+    const data = { a: { "x-y": [{ b: 1 }, { b: 2 }] } };
+    expect(evaluateJsonPath(data, "$.a['x-y'][0].b")).toBe(1);
+    expect(evaluateJsonPath(data, 'a["x-y"][-1].b')).toBe(2);
+    expect(evaluateJsonPath(data, "$.a.missing.b")).toBeUndefined();
+    expect(evaluateJsonPath(data, "$.a[")).toBeUndefined();
+  });
+});
+
+describe("custom providers", () => {
+  const originalEnv = process.env;
+
+  beforeEach(() => {
+    process.env = { ...originalEnv };
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+    vi.unstubAllGlobals();
+  });
+
+  it("maps rules to percent and value entries", () => {
+    const out = extractCustomProviderEntries(
+      { data: { daily: { used: 25, limit: 100, reset: 1767268800 }, balance: "12.5" } },
+      makeDef().entries,
+    );
+
+    expect(out.missing).toEqual([]);
+    expect(out.entries).toEqual([
+      {
+        kind: "percent",
+        name: "Daily",
+        percentRemaining: 75,
+        resetTimeIso: "2026-01-01T12:00:00.000Z",
+      },
+      { kind: "value", name: "Balance", value: "$12.50", resetTimeIso: undefined },
+    ]);
+  });
+
+  it("returns null when a header env var is missing", async () => {
+    delete process.env.GATEWAY_TOKEN;
+    await expect(queryCustomProviderQuota(makeDef())).resolves.toBeNull();
+
+    const provider = createCustomProvider(makeDef());
+    await expect(provider.isAvailable({} as any)).resolves.toBe(false);
+  });
+
+  it("sends templated headers and builds grouped entries", async () => {
+    process.env.GATEWAY_TOKEN = "secret";
+    const fetchMock = vi.fn(
+      async () =>
+        new Response(JSON.stringify({ data: { daily: { used: 40, limit: 80 } } }), {
+          status: 200,
+        }),
+    );
+    vi.stubGlobal("fetch", fetchMock);
+
+    const provider = createCustomProvider(makeDef());
+    const out = await provider.fetch({ config: {} } as any);
+
+    const [, init] = fetchMock.mock.calls[0] as unknown as [string, RequestInit];
+    expect((init.headers as Record<string, string>).Authorization).toBe("Bearer secret");
+
+    expect(out.attempted).toBe(true);
+    expect(out.entries).toEqual([
+      {
+        name: "Gateway Daily",
+        group: "Gateway",
+        label: "Daily:",
+        percentRemaining: 50,
+        resetTimeIso: undefined,
+      },
+    ]);
+    expect(out.errors).toEqual([
+      { label: "Gateway", message: "Balance: no value at configured path" },
+    ]);
+  });
+
+  it("surfaces HTTP errors", async () => {
+    process.env.GATEWAY_TOKEN = "secret";
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async () => new Response("nope", { status: 401 })),
+    );
+
+    await expect(queryCustomProviderQuota(makeDef())).resolves.toEqual({
+      success: false,
+      error: "API error 401: nope",
+    });
+  });
+
+  it("does not retry POST requests", async () => {
+    process.env.GATEWAY_TOKEN = "secret";
+    const fetchMock = vi.fn(async () => new Response("busy", { status: 503 }));
+    vi.stubGlobal("fetch", fetchMock);
+
+    await expect(
+      queryCustomProviderQuota(makeDef({ method: "POST", body: "{}" })),
+    ).resolves.toEqual({ success: false, error: "API error 503: busy" });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it("never lets a custom id take a built-in, budget or namespaced id", () => {
+    const ids = getProviders({
+      customProviders: [
+        makeDef({ id: "copilot" }),
+        makeDef({ id: "budget" }),
+        makeDef({ id: "ledger:openai" }),
+        makeDef({ id: "gateway" }),
+      ],
+      budgets: { monthlyUsd: 10, providers: {}, models: {} },
+    }).map((p) => p.id);
+
+    expect(ids.filter((id) => id === "copilot" || id === "budget")).toEqual(["copilot", "budget"]);
+    expect(ids).not.toContain("ledger:openai");
+    expect(ids).toContain("gateway");
+  });
+});
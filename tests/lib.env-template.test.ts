@@ -0,0 +1,77 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { mkdtemp, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+
+import {
+  clearSecretTemplateCache,
+  describeSecretTemplate,
+  getSecretTemplateDiagnostics,
+  parseCommandArgs,
+  resolveSecretTemplate,
+} from "../src/lib/env-template.js";
+
+describe("resolveSecretTemplate", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    clearSecretTemplateCache();
+    dir = await mkdtemp(join(tmpdir(), "quota-secret-"));
+  });
+
+  afterEach(async () => {
+    vi.useRealTimers();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("keeps literals and resolves {env:}", async () => {
+    process.env.QUOTA_TEST_SECRET = " from-env ";
+    expect(await resolveSecretTemplate("literal-key")).toBe("literal-key");
+    expect(await resolveSecretTemplate("{env:QUOTA_TEST_SECRET}")).toBe("from-env");
+    expect(await resolveSecretTemplate("{env:QUOTA_TEST_MISSING}")).toBeNull();
+    delete process.env.QUOTA_TEST_SECRET;
+  });
+
+  it("reads {file:} once and reuses it until the cache expires", async () => {
+    const file = join(dir, "key");
+    await writeFile(file, "first-key\n");
+
+    expect(await resolveSecretTemplate(`{file:${file}}`)).toBe("first-key");
+    await writeFile(file, "second-key\n");
+    expect(await resolveSecretTemplate(`{file:${file}}`)).toBe("first-key");
+
+    vi.useFakeTimers({ now: Date.now() + 6 * 60 * 1000 });
+    expect(await resolveSecretTemplate(`{file:${file}}`)).toBe("second-key");
+  });
+
+  it("runs {cmd:} and uses its trimmed stdout", async () => {
+    expect(await resolveSecretTemplate("{cmd:echo cmd-secret}")).toBe("cmd-secret");
+    expect(await resolveSecretTemplate("{cmd:false}")).toBeNull();
+  });
+
+  it("runs {cmd:} without a shell", async () => {
+    expect(await resolveSecretTemplate("{cmd:echo a; echo $HOME}")).toBe("a; echo $HOME");
+    expect(parseCommandArgs(`pass show "team key" it\\'s`)).toEqual([
+      "pass",
+      "show",
+      "team key",
+      "it's",
+    ]);
+  });
+
+  it("reports references in diagnostics without the secret", async () => {
+    await resolveSecretTemplate("{cmd:echo cmd-secret}");
+    await resolveSecretTemplate(`{file:${join(dir, "missing")}}`);
+
+    const lines = getSecretTemplateDiagnostics().join("\n");
+    expect(lines).toContain("- cmd:echo: ok");
+    expect(lines).toContain("missing: error (cannot read file)");
+    expect(lines).not.toContain("cmd-secret");
+  });
+
+  it("describes references by kind, hiding command arguments", () => {
+    expect(describeSecretTemplate("{cmd:pass show chutes}")).toBe("cmd:pass");
+    expect(describeSecretTemplate("{file:~/.secrets/chutes}")).toBe("file:~/.secrets/chutes");
+    expect(describeSecretTemplate("sk-literal")).toBeNull();
+  });
+});
@@ -176,9 +176,53 @@ describe("firmware-config", () => {
       expect(result).toEqual({
         key: "resolved-from-env",
         source: "opencode.json",
+        via: "env:MY_FIRMWARE_KEY",
       });
     });
 
+    it("resolves {file:/path} references and reports them without the key", async () => {
+      const { existsSync } = await import("fs");
+      const { readFile } = await import("fs/promises");
+
+      (existsSync as any).mockImplementation((path: string) => path.endsWith("opencode.json"));
+      (readFile as any).mockImplementation(async (path: string) => {
+        if (path === "/run/secrets/firmware") return "file-secret-key\n";
+        return JSON.stringify({
+          provider: { firmware: { options: { apiKey: "{file:/run/secrets/firmware}" } } },
+        });
+      });
+
+      const { resolveFirmwareApiKey, getFirmwareKeyDiagnostics } =
+        await import("../src/lib/firmware-config.js");
+      expect(await resolveFirmwareApiKey()).toEqual({
+        key: "file-secret-key",
+        source: "opencode.json",
+        via: "file:/run/secrets/firmware",
+      });
+
+      const diag = await getFirmwareKeyDiagnostics();
+      expect(diag.via).toBe("file:/run/secrets/firmware");
+      expect(JSON.stringify(diag)).not.toContain("file-secret-key");
+    });
+
+    it("ignores {cmd:} and {file:} references from the workspace config", async () => {
+      const { existsSync } = await import("fs");
+      const { readFile } = await import("fs/promises");
+
+      const workspaceConfig = join(process.cwd(), "opencode.json");
+      (existsSync as any).mockImplementation((path: string) => path === workspaceConfig);
+      (readFile as any).mockResolvedValue(
+        JSON.stringify({ provider: { firmware: { options: { apiKey: "{cmd:echo pwned}" } } } }),
+      );
+
+      const { resolveFirmwareApiKey } = await import("../src/lib/firmware-config.js");
+      const { getSecretTemplateDiagnostics } = await import("../src/lib/env-template.js");
+      expect(await resolveFirmwareApiKey()).toBeNull();
+      expect(getSecretTemplateDiagnostics()).toEqual([
+        `- cmd:echo: skipped (workspace config ${workspaceConfig}; move it to the global config)`,
+      ]);
+    });
+
     it("returns null when {env:VAR_NAME} references unset variable", async () => {
       const { existsSync } = await import("fs");
       const { readFile } = await import("fs/promises");
@@ -1,6 +1,7 @@
 import { describe, expect, it, vi, beforeEach, afterEach } from "vitest";
 
 import { queryGoogleQuota } from "../src/lib/google.js";
+import { googleAntigravityProvider } from "../src/providers/google-antigravity.js";
 
 vi.mock("fs/promises", () => ({
   readFile: vi.fn(),
@@ -71,23 +72,25 @@ describe("google approach C", () => {
     const fetchSpy = vi.fn();
 
     // First call: token refresh
-    fetchSpy.mockResolvedValueOnce({
-      ok: true,
-      json: () => Promise.resolve({ access_token: "new_token", expires_in: 3600 }),
-    });
+    fetchSpy.mockResolvedValueOnce(
+      new Response(JSON.stringify({ access_token: "new_token", expires_in: 3600 }), {
+        status: 200,
+      }),
+    );
 
     // Second call: quota API
-    fetchSpy.mockResolvedValueOnce({
-      ok: true,
-      json: () =>
-        Promise.resolve({
+    fetchSpy.mockResolvedValueOnce(
+      new Response(
+        JSON.stringify({
           models: {
             "claude-opus-4-5-thinking": {
               quotaInfo: { remainingFraction: 0.75, resetTime: "2026-01-01T01:00:00Z" },
             },
           },
         }),
-    });
+        { status: 200 },
+      ),
+    );
 
     vi.stubGlobal("fetch", fetchSpy as any);
 
@@ -107,4 +110,47 @@ describe("google approach C", () => {
 
     vi.unstubAllGlobals();
   });
+
+  it("returns every model per account on the provider result for the best-account line", async () => {
+    const { readFile } = await import("fs/promises");
+    (readFile as any).mockResolvedValueOnce(
+      JSON.stringify({
+        version: 1,
+        activeIndex: 0,
+        accounts: [{ email: "a@b.com", refreshToken: "rtok", projectId: "proj" }],
+      }),
+    );
+
+    const fetchSpy = vi.fn();
+    fetchSpy.mockResolvedValueOnce(
+      new Response(JSON.stringify({ access_token: "new_token", expires_in: 3600 }), {
+        status: 200,
+      }),
+    );
+    fetchSpy.mockResolvedValueOnce(
+      new Response(
+        JSON.stringify({
+          models: {
+            "claude-opus-4-6-thinking": { quotaInfo: { remainingFraction: 0.5 } },
+            "gemini-3-flash": { quotaInfo: { remainingFraction: 0.25 } },
+          },
+        }),
+        { status: 200 },
+      ),
+    );
+    vi.stubGlobal("fetch", fetchSpy as any);
+
+    const out = await googleAntigravityProvider.fetch({
+      client: {} as any,
+      config: { googleModels: ["G3FLASH"] },
+    });
+    expect(out.entries.map((e) => e.name)).toEqual(["G3Flash (a@b..gmail)"]);
+    expect(fetchSpy).toHaveBeenCalledTimes(2);
+    expect(out.antigravityAccounts?.accounts[0].models.map((m) => m.modelId)).toEqual([
+      "G3FLASH",
+      "CLAUDE",
+    ]);
+
+    vi.unstubAllGlobals();
+  });
 });
@@ -0,0 +1,112 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+import { fetchWithRetry, parseRetryAfterMs, runWithFetchBudget } from "../src/lib/http.js";
+
+const NO_WAIT = { retries: 2, retryBaseDelayMs: 0, retryMaxDelayMs: 1000, timeoutMs: 1000 };
+
+function respond(status: number, headers?: Record<string, string>): Response {
+  return new Response(status === 200 ? "{}" : "error", { status, headers });
+}
+
+describe("fetchWithRetry", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("retries transient statuses and network errors", async () => {
+    const fetchMock = vi
+      .fn()
+      .mockResolvedValueOnce(respond(503))
+      .mockRejectedValueOnce(new TypeError("fetch failed"))
+      .mockResolvedValueOnce(respond(200));
+    vi.stubGlobal("fetch", fetchMock as any);
+
+    const resp = await fetchWithRetry("https://example.test", {}, NO_WAIT);
+    expect(resp.status).toBe(200);
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  it("does not retry client errors", async () => {
+    const fetchMock = vi.fn().mockResolvedValue(respond(401));
+    vi.stubGlobal("fetch", fetchMock as any);
+
+    expect((await fetchWithRetry("https://example.test", {}, NO_WAIT)).status).toBe(401);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it("gives up when Retry-After exceeds the max delay", async () => {
+    const fetchMock = vi.fn().mockResolvedValue(respond(429, { "Retry-After": "120" }));
+    vi.stubGlobal("fetch", fetchMock as any);
+
+    expect((await fetchWithRetry("https://example.test", {}, NO_WAIT)).status).toBe(429);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it("waits out a short Retry-After", async () => {
+    vi.useFakeTimers();
+    try {
+      const fetchMock = vi
+        .fn()
+        .mockResolvedValueOnce(respond(429, { "Retry-After": "1" }))
+        .mockResolvedValueOnce(respond(200));
+      vi.stubGlobal("fetch", fetchMock as any);
+
+      const pending = fetchWithRetry(
+        "https://example.test",
+        {},
+        { ...NO_WAIT, retryMaxDelayMs: 5000 },
+      );
+      await vi.advanceTimersByTimeAsync(999);
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+      await vi.advanceTimersByTimeAsync(1);
+      expect((await pending).status).toBe(200);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it("throws the last error once retries are exhausted", async () => {
+    const fetchMock = vi.fn().mockRejectedValue(new TypeError("fetch failed"));
+    vi.stubGlobal("fetch", fetchMock as any);
+
+    await expect(fetchWithRetry("https://example.test", {}, NO_WAIT)).rejects.toThrow(
+      "fetch failed",
+    );
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  it("stops retrying chained requests once the fetch budget is used up", async () => {
+    vi.useFakeTimers();
+    try {
+      const fetchMock = vi.fn(async () => respond(503, { "Retry-After": "2" }));
+      vi.stubGlobal("fetch", fetchMock as any);
+      const opts = { ...NO_WAIT, retryMaxDelayMs: 5000 };
+
+      const pending = runWithFetchBudget(3000, async () => {
+        // One 2s wait fits the 3s budget; the next one would pass the deadline.
+        const first = await fetchWithRetry("https://example.test/user", {}, opts);
+        // A fallback request gets the time left, without retries.
+        const fallback = await fetchWithRetry("https://example.test/users/x", {}, opts);
+        await new Promise((resolve) => setTimeout(resolve, 1000));
+        const late = await fetchWithRetry("https://example.test/org", {}, opts).catch(
+          (err: Error) => err.message,
+        );
+        return [first.status, fallback.status, late];
+      });
+      await vi.advanceTimersByTimeAsync(3000);
+
+      expect(await pending).toEqual([503, 503, "Request budget of 3s exceeded"]);
+      expect(fetchMock).toHaveBeenCalledTimes(3);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it("parses Retry-After seconds and dates", () => {
+    const now = Date.parse("2026-03-01T12:00:00.000Z");
+    expect(parseRetryAfterMs("30", now)).toBe(30_000);
+    expect(parseRetryAfterMs("Sun, 01 Mar 2026 12:01:00 GMT", now)).toBe(60_000);
+    expect(parseRetryAfterMs("soon", now)).toBeNull();
+    expect(parseRetryAfterMs(null, now)).toBeNull();
+  });
+});
@@ -0,0 +1,147 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const files = new Map<string, string>();
+
+vi.mock("../src/lib/opencode-runtime-paths.js", () => ({
+  getOpencodeRuntimeDirs: () => ({
+    dataDir: "/home/test/.local/share/opencode",
+    configDir: "/home/test/.config/opencode",
+    cacheDir: "/home/test/.cache/opencode",
+    stateDir: "/home/test/.local/state/opencode",
+  }),
+}));
+
+vi.mock("fs/promises", () => ({
+  mkdir: vi.fn(),
+  readFile: vi.fn(async (path: string) => {
+    const content = files.get(path);
+    if (content === undefined) throw new Error("ENOENT");
+    return content;
+  }),
+  writeFile: vi.fn(async (path: string, content: string) => {
+    files.set(path, content);
+  }),
+  rename: vi.fn(async (from: string, to: string) => {
+    files.set(to, files.get(from)!);
+    files.delete(from);
+  }),
+  rm: vi.fn(),
+}));
+
+import type { QuotaProviderContext } from "../src/lib/entries.js";
+import { formatQuotaRows } from "../src/lib/format.js";
+import {
+  formatEntryAge,
+  getLastGoodEntriesPath,
+  lastGoodKey,
+  markEntriesStale,
+  readLastGoodEntries,
+  recordLastGoodEntries,
+  withLastGoodEntries,
+} from "../src/lib/last-good-entries.js";
+
+const NOW = Date.parse("2026-03-01T12:00:00.000Z");
+
+describe("last good entries", () => {
+  beforeEach(() => {
+    files.clear();
+  });
+
+  it("persists entries per provider, toast style and model filter", async () => {
+    const ctx = (config: object) =>
+      ({ config: { googleModels: ["CLAUDE"], ...config } }) as QuotaProviderContext;
+    const entries = [{ name: "Copilot", percentRemaining: 42 }];
+    await recordLastGoodEntries(
+      lastGoodKey("copilot", ctx({ toastStyle: "grouped" })),
+      entries,
+      NOW,
+    );
+
+    expect(files.has(getLastGoodEntriesPath())).toBe(true);
+    expect(
+      await readLastGoodEntries(
+        lastGoodKey("copilot", ctx({ toastStyle: "grouped" })),
+        NOW + 60_000,
+      ),
+    ).toEqual({ timestamp: NOW, entries });
+    expect(await readLastGoodEntries(lastGoodKey("copilot", ctx({})), NOW)).toBeNull();
+    expect(
+      await readLastGoodEntries(
+        lastGoodKey(
+          "copilot",
+          ctx({ toastStyle: "grouped", onlyCurrentModel: true, currentModel: "openai/gpt-5" }),
+        ),
+        NOW,
+      ),
+    ).toBeNull();
+  });
+
+  it("drops records older than a week", async () => {
+    await recordLastGoodEntries("zai|classic", [{ name: "Z.ai", percentRemaining: 10 }], NOW);
+    expect(await readLastGoodEntries("zai|classic", NOW + 8 * 24 * 3_600_000)).toBeNull();
+  });
+
+  it("fills a failed account from its own record and keeps the others fresh", async () => {
+    const personal = { name: "Copilot (personal)", percentRemaining: 80, account: "personal" };
+    const work = { name: "Copilot (work)", percentRemaining: 30, account: "work" };
+    await recordLastGoodEntries("copilot", [personal, work], NOW);
+
+    // Next fetch: personal succeeds, work fails. Only personal's record is replaced.
+    const fresh = { ...personal, percentRemaining: 75 };
+    await recordLastGoodEntries("copilot", [fresh], NOW + 10 * 60_000);
+    const result = {
+      attempted: true,
+      entries: [fresh],
+      errors: [{ label: "Copilot (work)", message: "GitHub API error 502", account: "work" }],
+    };
+
+    expect(await withLastGoodEntries("copilot", result, NOW + 10 * 60_000)).toEqual({
+      attempted: true,
+      entries: [fresh, { ...work, staleAge: "10m ago" }],
+      errors: [],
+    });
+
+    // When every account fails, each shows its own age.
+    expect(
+      await withLastGoodEntries("copilot", { attempted: true, entries: [], errors: [] }, NOW),
+    ).toBeNull();
+    expect((await withLastGoodEntries("copilot", null, NOW + 20 * 60_000))?.entries).toEqual([
+      { ...fresh, staleAge: "10m ago" },
+      { ...work, staleAge: "20m ago" },
+    ]);
+  });
+
+  it("keeps errors of accounts that never succeeded", async () => {
+    const result = {
+      attempted: true,
+      entries: [{ name: "Z.ai (work)", percentRemaining: 50, account: "work" }],
+      errors: [{ label: "Z.ai (new)", message: "ZAI_NEW is not set", account: "new" }],
+    };
+    expect(await withLastGoodEntries("zai", result, NOW)).toBeNull();
+  });
+
+  it("formats ages", () => {
+    expect(formatEntryAge(30_000)).toBe("just now");
+    expect(formatEntryAge(5 * 60_000)).toBe("5m ago");
+    expect(formatEntryAge(3 * 3_600_000)).toBe("3h ago");
+    expect(formatEntryAge(50 * 3_600_000)).toBe("2d ago");
+  });
+
+  it("shows the age marker without renaming entries", () => {
+    const stale = markEntriesStale([{ name: "Copilot", percentRemaining: 42 }], "5m ago");
+    expect(stale[0]!.name).toBe("Copilot");
+
+    const classic = formatQuotaRows({ version: "1.0.0", entries: stale });
+    expect(classic.split("\n")[0]).toContain("Copilot (5m ago)");
+
+    const grouped = formatQuotaRows({
+      version: "1.0.0",
+      style: "grouped",
+      entries: markEntriesStale(
+        [{ name: "Z.ai Hourly", group: "Z.ai", label: "Hourly:", percentRemaining: 60 } as any],
+        "2h ago",
+      ),
+    });
+    expect(grouped.split("\n")[0]).toBe("→ Z.ai (2h ago)");
+  });
+});
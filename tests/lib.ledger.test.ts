@@ -0,0 +1,135 @@
+import { describe, expect, it, vi } from "vitest";
+
+vi.mock("../src/lib/quota-stats.js", () => ({
+  aggregateUsage: vi.fn(async () => makeResult()),
+}));
+
+import { aggregateUsage } from "../src/lib/quota-stats.js";
+import { computeLedgerLimits, ledgerWindow, queryLedgerStatus } from "../src/lib/ledger.js";
+import { getProviders } from "../src/providers/registry.js";
+import type { AggregateResult, TokenBuckets } from "../src/lib/quota-stats.js";
+import type { LedgerConfig } from "../src/lib/types.js";
+
+const zero: TokenBuckets = { input: 0, output: 0, reasoning: 0, cache_read: 0, cache_write: 0 };
+
+function tokens(input: number, output: number, cacheRead = 0): TokenBuckets {
+  return { ...zero, input, output, cache_read: cacheRead };
+}
+
+function makeResult(): AggregateResult {
+  return {
+    window: { sinceMs: 0, untilMs: 1 },
+    totals: {
+      priced: zero,
+      unknown: zero,
+      unpriced: zero,
+      costUsd: 0,
+      messageCount: 0,
+      sessionCount: 0,
+    },
+    bySourceProvider: [
+      { providerID: "DeepSeek", tokens: tokens(400_000, 100_000), costUsd: 1.5, messageCount: 4 },
+      { providerID: "anthropic", tokens: tokens(900_000, 0), costUsd: 20, messageCount: 2 },
+    ],
+    bySourceModel: [],
+    byModel: [],
+    bySession: [],
+    byAgent: [],
+    byMode: [],
+    unknown: [
+      {
+        key: { sourceProviderID: "deepseek", sourceModelID: "deepseek-v9" },
+        tokens: tokens(0, 0, 250_000),
+        messageCount: 1,
+      },
+    ],
+    unpriced: [],
+  };
+}
+
+const LEDGER: LedgerConfig = {
+  id: "deepseek",
+  name: "DeepSeek",
+  providerIDs: ["deepseek"],
+  tokens: 1_000_000,
+  usd: 5,
+  period: "day",
+};
+
+describe("ledgers", () => {
+  it("counts tokens across priced and unknown usage, cost from priced usage only", () => {
+    expect(computeLedgerLimits(LEDGER, makeResult())).toEqual([
+      { kind: "tokens", used: 750_000, limit: 1_000_000, percentRemaining: 25 },
+      { kind: "usd", used: 1.5, limit: 5, percentRemaining: 70 },
+    ]);
+  });
+
+  it("uses local calendar periods without an anchor", () => {
+    const now = new Date(2026, 0, 15, 10, 30).getTime();
+    expect(ledgerWindow({ period: "day" }, now)).toEqual({
+      startMs: new Date(2026, 0, 15).getTime(),
+      endMs: new Date(2026, 0, 16).getTime(),
+    });
+    // 2026-01-15 is a Thursday; weeks start on Monday.
+    expect(ledgerWindow({ period: "week" }, now)).toEqual({
+      startMs: new Date(2026, 0, 12).getTime(),
+      endMs: new Date(2026, 0, 19).getTime(),
+    });
+    expect(ledgerWindow({ period: "month" }, now)).toEqual({
+      startMs: new Date(2026, 0, 1).getTime(),
+      endMs: new Date(2026, 1, 1).getTime(),
+    });
+  });
+
+  it("repeats periods from the reset anchor", () => {
+    const anchor = new Date(2025, 10, 3, 9, 0).getTime();
+    expect(
+      ledgerWindow({ period: "week", resetAnchorMs: anchor }, new Date(2026, 0, 15).getTime()),
+    ).toEqual({
+      startMs: new Date(2026, 0, 12, 9, 0).getTime(),
+      endMs: new Date(2026, 0, 19, 9, 0).getTime(),
+    });
+    // Anchors in the future still find the period containing now.
+    expect(
+      ledgerWindow({ period: "day", resetAnchorMs: anchor }, new Date(2025, 10, 1, 8).getTime()),
+    ).toEqual({
+      startMs: new Date(2025, 9, 31, 9, 0).getTime(),
+      endMs: new Date(2025, 10, 1, 9, 0).getTime(),
+    });
+  });
+
+  it("clamps monthly anchors to short months", () => {
+    const anchor = new Date(2026, 0, 31).getTime();
+    expect(
+      ledgerWindow({ period: "month", resetAnchorMs: anchor }, new Date(2026, 2, 5).getTime()),
+    ).toEqual({
+      startMs: new Date(2026, 1, 28).getTime(),
+      endMs: new Date(2026, 2, 31).getTime(),
+    });
+  });
+
+  it("shares one history scan between ledgers with the same period start", async () => {
+    const now = new Date(2026, 0, 15, 10, 30).getTime();
+    (aggregateUsage as any).mockClear();
+
+    const [deepseek, anthropic] = await Promise.all([
+      queryLedgerStatus(LEDGER, now),
+      queryLedgerStatus({ ...LEDGER, id: "anthropic", providerIDs: ["anthropic"] }, now),
+    ]);
+
+    expect(aggregateUsage).toHaveBeenCalledTimes(1);
+    expect(deepseek.limits[0]?.used).toBe(750_000);
+    expect(anthropic.limits[0]?.used).toBe(900_000);
+  });
+
+  it("namespaces ledger provider ids so built-in providers are never shadowed", () => {
+    const ids = getProviders({
+      ledgers: [{ ...LEDGER, id: "openai", providerIDs: ["openai"] }],
+      budgets: { monthlyUsd: 10, providers: {}, models: {} },
+    }).map((p) => p.id);
+
+    expect(ids).toContain("openai");
+    expect(ids).toContain("ledger:openai");
+    expect(ids).toContain("budget");
+  });
+});
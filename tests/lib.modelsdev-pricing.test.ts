@@ -0,0 +1,136 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const files = new Map<string, string>();
+
+vi.mock("../src/lib/opencode-runtime-paths.js", () => ({
+  getOpencodeRuntimeDirs: () => ({
+    dataDir: "/home/test/.local/share/opencode",
+    configDir: "/home/test/.config/opencode",
+    cacheDir: "/home/test/.cache/opencode",
+    stateDir: "/home/test/.local/state/opencode",
+  }),
+}));
+
+vi.mock("fs", async (importOriginal) => {
+  const mod = await importOriginal<typeof import("fs")>();
+  return {
+    ...mod,
+    // Only the pricing layer files are faked; the bundled snapshot is read for real.
+    readFileSync: vi.fn((path: any, enc?: any) => {
+      if (typeof path === "string" && path.startsWith("/home/test/")) {
+        const content = files.get(path);
+        if (content === undefined) throw Object.assign(new Error("ENOENT"), { code: "ENOENT" });
+        return content;
+      }
+      return mod.readFileSync(path, enc);
+    }),
+    statSync: vi.fn((path: any) => {
+      const content = files.get(String(path));
+      if (content === undefined) throw Object.assign(new Error("ENOENT"), { code: "ENOENT" });
+      return { mtimeMs: content.length, size: content.length };
+    }),
+  };
+});
+
+vi.mock("fs/promises", () => ({
+  mkdir: vi.fn(),
+  readFile: vi.fn(async (path: string) => {
+    const content = files.get(path);
+    if (content === undefined) throw new Error("ENOENT");
+    return content;
+  }),
+  rename: vi.fn(async (from: string, to: string) => {
+    files.set(to, files.get(from)!);
+    files.delete(from);
+  }),
+  rm: vi.fn(),
+  writeFile: vi.fn(async (path: string, content: string) => {
+    files.set(path, content);
+  }),
+}));
+
+import {
+  getPricingLayers,
+  getPricingSource,
+  lookupCost,
+  parsePricingDocument,
+  reloadPricing,
+} from "../src/lib/modelsdev-pricing.js";
+import { refreshPricing } from "../src/lib/pricing-refresh.js";
+
+const OVERRIDE_PATH = "/home/test/.config/opencode/quota-pricing.json";
+
+describe("modelsdev-pricing layers", () => {
+  beforeEach(() => {
+    files.clear();
+    reloadPricing();
+  });
+
+  it("parses snapshot and models.dev documents", () => {
+    expect(
+      parsePricingDocument({ providers: { acme: { m1: { input: 1, output: "x" } } } }),
+    ).toEqual({ acme: { m1: { input: 1 } } });
+
+    const modelsDev = {
+      anthropic: { models: { "claude-x": { cost: { input: 3, output: 15 } }, free: {} } },
+      reseller: { models: { "claude-x": { cost: { input: 4, output: 20 } } } },
+    };
+    expect(parsePricingDocument(modelsDev, { providers: ["anthropic"] })).toEqual({
+      anthropic: { "claude-x": { input: 3, output: 15 } },
+    });
+    expect(parsePricingDocument({ nothing: true })).toBeNull();
+  });
+
+  it("merges the override file on top of the snapshot", () => {
+    const base = lookupCost("anthropic", "claude-3-5-haiku-20241022");
+    expect(base).not.toBeNull();
+    expect(getPricingSource("anthropic", "claude-3-5-haiku-20241022")).toBe("snapshot");
+
+    files.set(
+      OVERRIDE_PATH,
+      JSON.stringify({
+        providers: {
+          anthropic: { "claude-3-5-haiku-20241022": { input: 0.5 } },
+          acme: { "acme-1": { input: 1, output: 2 } },
+        },
+      }),
+    );
+    reloadPricing({ ifChanged: true });
+
+    expect(lookupCost("anthropic", "claude-3-5-haiku-20241022")).toEqual({
+      ...base,
+      input: 0.5,
+    });
+    expect(getPricingSource("anthropic", "claude-3-5-haiku-20241022")).toBe("override");
+    expect(lookupCost("acme", "acme-1")).toEqual({ input: 1, output: 2 });
+    expect(getPricingLayers().override).toMatchObject({ present: true, models: 2 });
+    expect(getPricingLayers().imported).toMatchObject({ present: false });
+  });
+
+  it("imports a models.dev file and ranks it below the override", async () => {
+    files.set(
+      "/work/api.json",
+      JSON.stringify({
+        anthropic: { models: { "claude-next": { cost: { input: 2, output: 10 } } } },
+        other: { models: { "claude-next": { cost: { input: 9, output: 9 } } } },
+      }),
+    );
+    files.set(
+      OVERRIDE_PATH,
+      JSON.stringify({ providers: { anthropic: { "claude-next": { output: 8 } } } }),
+    );
+
+    const result = await refreshPricing({ source: "api.json", baseDir: "/work" });
+    expect(result).toMatchObject({ ok: true, providers: ["anthropic"], models: 1 });
+
+    expect(lookupCost("anthropic", "claude-next")).toEqual({ input: 2, output: 8 });
+    expect(getPricingSource("anthropic", "claude-next")).toBe("override");
+    expect(lookupCost("other", "claude-next")).toBeNull();
+    expect(getPricingLayers().imported.meta?.source).toBe("api.json");
+  });
+
+  it("reports unreadable sources", async () => {
+    const result = await refreshPricing({ source: "/missing.json", baseDir: "/work" });
+    expect(result).toMatchObject({ ok: false, source: "/missing.json" });
+  });
+});
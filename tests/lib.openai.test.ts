@@ -150,4 +150,52 @@ describe("queryOpenAIQuota", () => {
     expect(out && out.success ? out.windows.hourly?.percentRemaining : -1).toBe(90);
     expect(out && out.success ? out.windows.weekly?.percentRemaining : -1).toBe(30);
   });
+
+  it("marks the most used window blocked when limit_reached is set", async () => {
+    const { readAuthFile } = await import("../src/lib/opencode-auth.js");
+    (readAuthFile as any).mockResolvedValueOnce({
+      openai: { type: "oauth", access: "a.b.c", expires: Date.now() + 60_000 },
+    });
+
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(
+        async () =>
+          new Response(
+            JSON.stringify({
+              plan_type: "plus",
+              rate_limit: {
+                limit_reached: true,
+                primary_window: {
+                  used_percent: 99.5,
+                  limit_window_seconds: 18000,
+                  reset_after_seconds: 5000,
+                  reset_at: 1767229932,
+                },
+                secondary_window: {
+                  used_percent: 40,
+                  limit_window_seconds: 604800,
+                  reset_after_seconds: 300000,
+                },
+              },
+              credits: { has_credits: true, unlimited: false, balance: "812.5" },
+            }),
+            { status: 200 },
+          ),
+      ) as any,
+    );
+
+    const out = await queryOpenAIQuota();
+    expect(out && out.success ? out.windows.hourly : null).toEqual({
+      percentRemaining: 1,
+      resetTimeIso: "2026-01-01T01:12:12.000Z",
+      blocked: true,
+    });
+    expect(out && out.success ? out.windows.weekly?.blocked : null).toBeUndefined();
+    expect(out && out.success ? out.credits : null).toEqual({
+      hasCredits: true,
+      unlimited: false,
+      balance: "812.5",
+    });
+  });
 });
@@ -0,0 +1,113 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import {
+  evaluateQuotaAlerts,
+  formatQuotaAlerts,
+  getAlertThresholds,
+  type QuotaAlertStateFileV1,
+} from "../src/lib/quota-alerts.js";
+
+function emptyState(): QuotaAlertStateFileV1 {
+  return { version: 1, entries: {}, updatedAt: 0 };
+}
+
+describe("quota-alerts", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2026-03-01T12:00:00.000Z"));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("uses provider thresholds before the wildcard", () => {
+    const alerts = { copilot: [5, 50, 20], "*": [10] };
+    expect(getAlertThresholds(alerts, "copilot")).toEqual([50, 20, 5]);
+    expect(getAlertThresholds(alerts, "openai")).toEqual([10]);
+    expect(getAlertThresholds({}, "openai")).toEqual([]);
+  });
+
+  it("alerts once per crossing and picks the lowest crossed threshold", () => {
+    const resetTimeIso = "2026-04-01T00:00:00.000Z";
+    const first = evaluateQuotaAlerts({
+      providerId: "copilot",
+      entries: [{ name: "Copilot", percentRemaining: 60, resetTimeIso }],
+      thresholds: [50, 20, 5],
+      state: emptyState(),
+    });
+    expect(first.alerts).toEqual([]);
+
+    const second = evaluateQuotaAlerts({
+      providerId: "copilot",
+      entries: [{ name: "Copilot", percentRemaining: 18, resetTimeIso }],
+      thresholds: [50, 20, 5],
+      state: first.state,
+    });
+    expect(second.alerts).toHaveLength(1);
+    expect(second.alerts[0]).toMatchObject({ threshold: 20, variant: "warning" });
+
+    const third = evaluateQuotaAlerts({
+      providerId: "copilot",
+      entries: [{ name: "Copilot", percentRemaining: 17, resetTimeIso }],
+      thresholds: [50, 20, 5],
+      state: second.state,
+    });
+    expect(third.alerts).toEqual([]);
+
+    const fourth = evaluateQuotaAlerts({
+      providerId: "copilot",
+      entries: [{ name: "Copilot", percentRemaining: 3, resetTimeIso }],
+      thresholds: [50, 20, 5],
+      state: third.state,
+    });
+    expect(fourth.alerts[0]).toMatchObject({ threshold: 5, variant: "error" });
+  });
+
+  it("re-arms thresholds when the window resets", () => {
+    const fired = evaluateQuotaAlerts({
+      providerId: "openai",
+      entries: [
+        { name: "OpenAI (Pro)", percentRemaining: 8, resetTimeIso: "2026-03-01T13:00:00.000Z" },
+      ],
+      thresholds: [10],
+      state: emptyState(),
+    });
+    expect(fired.alerts).toHaveLength(1);
+
+    // Small drift in a computed reset time is still the same window.
+    const sameWindow = evaluateQuotaAlerts({
+      providerId: "openai",
+      entries: [
+        { name: "OpenAI (Pro)", percentRemaining: 6, resetTimeIso: "2026-03-01T13:01:00.000Z" },
+      ],
+      thresholds: [10],
+      state: fired.state,
+    });
+    expect(sameWindow.alerts).toEqual([]);
+
+    const nextWindow = evaluateQuotaAlerts({
+      providerId: "openai",
+      entries: [
+        { name: "OpenAI (Pro)", percentRemaining: 9, resetTimeIso: "2026-03-01T18:00:00.000Z" },
+      ],
+      thresholds: [10],
+      state: sameWindow.state,
+    });
+    expect(nextWindow.alerts).toHaveLength(1);
+  });
+
+  it("formats alerts with the reset countdown", () => {
+    const out = formatQuotaAlerts([
+      {
+        providerId: "copilot",
+        name: "Copilot",
+        percentRemaining: 18,
+        threshold: 20,
+        resetTimeIso: "2026-03-04T16:00:00.000Z",
+        variant: "warning",
+      },
+    ]);
+    expect(out).toBe("⚠ Copilot: 18% left (below 20%, resets in 3d 4h)");
+  });
+});
@@ -0,0 +1,111 @@
+import { describe, expect, it } from "vitest";
+
+import type { GoogleAccountQuota } from "../src/lib/google.js";
+import {
+  formatBestAccountToastLine,
+  formatQuotaBestReport,
+  rankAccountsForFamily,
+} from "../src/lib/quota-best.js";
+
+const NOW = Date.parse("2026-03-01T12:00:00.000Z");
+const inHours = (h: number) => new Date(NOW + h * 3_600_000).toISOString();
+
+function account(
+  index: number,
+  email: string,
+  claude: number | null,
+  opts?: { resetHours?: number; limitedHours?: number; error?: string },
+): GoogleAccountQuota {
+  return {
+    index,
+    email,
+    rateLimitResetTimes: opts?.limitedHours
+      ? { claude: NOW + opts.limitedHours * 3_600_000 }
+      : undefined,
+    models:
+      claude === null
+        ? []
+        : [
+            {
+              modelId: "CLAUDE",
+              displayName: "Claude",
+              percentRemaining: claude,
+              resetTimeIso: inHours(opts?.resetHours ?? 5),
+              accountEmail: email,
+            },
+          ],
+    error: opts?.error,
+  };
+}
+
+describe("antigravity account ranking", () => {
+  it("prefers remaining quota, then the sooner reset", () => {
+    const rec = rankAccountsForFamily({
+      family: "claude",
+      accounts: [
+        account(0, "a@x.com", 40),
+        account(1, "b@x.com", 80, { resetHours: 6 }),
+        account(2, "c@x.com", 80, { resetHours: 2 }),
+      ],
+      activeIndex: 0,
+      nowMs: NOW,
+    });
+
+    expect(rec.ranked.map((c) => c.index)).toEqual([2, 1, 0]);
+    expect(rec.best?.email).toBe("c@x.com");
+    expect(rec.switchRecommended).toBe(true);
+  });
+
+  it("ranks rate-limited and exhausted accounts by when they free up", () => {
+    const rec = rankAccountsForFamily({
+      family: "claude",
+      accounts: [
+        account(0, "a@x.com", 90, { limitedHours: 3 }),
+        account(1, "b@x.com", 0, { resetHours: 1 }),
+        account(2, "c@x.com", null, { error: "Token revoked" }),
+        account(3, "d@x.com", 5),
+      ],
+      activeIndex: 3,
+      nowMs: NOW,
+    });
+
+    expect(rec.ranked.map((c) => c.index)).toEqual([3, 1, 0, 2]);
+    expect(rec.switchRecommended).toBe(false);
+  });
+
+  it("keeps the active account on ties", () => {
+    const rec = rankAccountsForFamily({
+      family: "claude",
+      accounts: [account(0, "a@x.com", 50), account(1, "b@x.com", 50)],
+      activeIndex: 1,
+      nowMs: NOW,
+    });
+    expect(rec.best?.index).toBe(1);
+    expect(rec.switchRecommended).toBe(false);
+  });
+
+  it("renders the report and toast line", () => {
+    const claude = rankAccountsForFamily({
+      family: "claude",
+      accounts: [account(0, "a@x.com", 10), account(1, "b@x.com", 70)],
+      activeIndex: 0,
+      nowMs: NOW,
+    });
+    const gemini = rankAccountsForFamily({
+      family: "gemini",
+      accounts: [account(0, "a@x.com", 10)],
+      nowMs: NOW,
+    });
+    const result = { generatedAtMs: NOW, families: [claude, gemini] };
+
+    const out = formatQuotaBestReport(result);
+    expect(out).toContain("## Claude");
+    expect(out).toContain("Best: #2 b@x.com (70% left");
+    expect(out).toContain("Active: #1 a@x.com is not the best choice; switch to #2.");
+    expect(out).toMatch(/#2 b@x\.com .*70%.*best/);
+    expect(out).toContain("No account has quota data for this family.");
+
+    expect(formatBestAccountToastLine(result)).toBe("Best: Claude #2 b (switch)");
+    expect(formatQuotaBestReport(null)).toContain("No Antigravity accounts configured");
+  });
+});
@@ -0,0 +1,111 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import {
+  forecastQuota,
+  formatForecastMarker,
+  type QuotaForecast,
+} from "../src/lib/quota-forecast.js";
+import { formatQuotaRows } from "../src/lib/format.js";
+
+const HOUR = 60 * 60 * 1000;
+
+describe("quota-forecast", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2026-03-01T12:00:00.000Z"));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("projects exhaustion before reset from the current window", () => {
+    const now = Date.now();
+    const forecast = forecastQuota({
+      entry: {
+        name: "OpenAI (Pro) Weekly",
+        percentRemaining: 40,
+        resetTimeIso: new Date(now + 5 * HOUR).toISOString(),
+      },
+      samples: [
+        {
+          ts: now - 2 * HOUR,
+          providerId: "openai",
+          name: "OpenAI (Pro) Weekly",
+          percentRemaining: 80,
+        },
+        { ts: now - HOUR, providerId: "openai", name: "OpenAI (Pro) Weekly", percentRemaining: 60 },
+        { ts: now, providerId: "openai", name: "OpenAI (Pro) Weekly", percentRemaining: 40 },
+      ],
+    });
+
+    expect(forecast).not.toBeNull();
+    expect(forecast!.burnPerHour).toBeCloseTo(20);
+    expect(forecast!.exhaustAtMs).toBe(now + 2 * HOUR);
+    expect(forecast!.runsOutBeforeReset).toBe(true);
+    expect(formatForecastMarker(forecast!)).toBe("⚠ empty in ~2h, resets in 5h");
+  });
+
+  it("ignores samples from before the last reset", () => {
+    const now = Date.now();
+    const forecast = forecastQuota({
+      entry: { name: "Z.ai 5h", percentRemaining: 90 },
+      samples: [
+        { ts: now - 3 * HOUR, providerId: "zai", name: "Z.ai 5h", percentRemaining: 5 },
+        { ts: now - HOUR, providerId: "zai", name: "Z.ai 5h", percentRemaining: 100 },
+        { ts: now, providerId: "zai", name: "Z.ai 5h", percentRemaining: 90 },
+      ],
+    });
+
+    expect(forecast!.burnPerHour).toBeCloseTo(10);
+  });
+
+  it("returns null without enough history", () => {
+    const now = Date.now();
+    expect(
+      forecastQuota({
+        entry: { name: "Copilot", percentRemaining: 50 },
+        samples: [{ ts: now, providerId: "copilot", name: "Copilot", percentRemaining: 50 }],
+      }),
+    ).toBeNull();
+  });
+
+  it("does not warn when the quota lasts until reset", () => {
+    const now = Date.now();
+    const forecast = forecastQuota({
+      entry: {
+        name: "Copilot",
+        percentRemaining: 90,
+        resetTimeIso: new Date(now + 2 * HOUR).toISOString(),
+      },
+      samples: [
+        { ts: now - HOUR, providerId: "copilot", name: "Copilot", percentRemaining: 91 },
+        { ts: now, providerId: "copilot", name: "Copilot", percentRemaining: 90 },
+      ],
+    });
+
+    expect(forecast!.runsOutBeforeReset).toBe(false);
+    expect(formatForecastMarker(forecast!)).toBeNull();
+  });
+
+  it("adds the marker under the entry in the classic toast", () => {
+    const now = Date.now();
+    const forecast: QuotaForecast = {
+      name: "OpenAI (Pro)",
+      percentRemaining: 30,
+      burnPerHour: 15,
+      exhaustAtMs: now + 2 * HOUR,
+      resetAtMs: now + 5 * HOUR,
+      runsOutBeforeReset: true,
+    };
+
+    const out = formatQuotaRows({
+      version: "1.0.0",
+      entries: [{ providerId: "openai", name: "OpenAI (Pro)", percentRemaining: 30 }],
+      forecasts: new Map([["openai:OpenAI (Pro)", forecast]]),
+    });
+
+    const lines = out.split("\n");
+    expect(lines[2]).toBe("⚠ empty in ~2h, resets in 5h");
+  });
+});
@@ -0,0 +1,204 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("../src/lib/opencode-runtime-paths.js", () => ({
+  getOpencodeRuntimeDirs: () => ({
+    dataDir: "/home/test/.local/share/opencode",
+    configDir: "/home/test/.config/opencode",
+    cacheDir: "/home/test/.cache/opencode",
+    stateDir: "/home/test/.local/state/opencode",
+  }),
+}));
+
+vi.mock("fs/promises", () => ({
+  mkdir: vi.fn(),
+  readFile: vi.fn(),
+  rename: vi.fn(),
+  rm: vi.fn(),
+  writeFile: vi.fn(),
+}));
+
+describe("quota-history", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.clearAllMocks();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("appends percent entries and skips value entries", async () => {
+    vi.setSystemTime(new Date("2026-03-01T12:00:00.000Z"));
+    const fs = await import("fs/promises");
+    (fs.readFile as any).mockRejectedValueOnce(new Error("missing"));
+
+    const { recordQuotaHistory, getQuotaHistoryPath } = await import("../src/lib/quota-history.js");
+    const next = await recordQuotaHistory("copilot", [
+      { name: "Copilot", percentRemaining: 80, resetTimeIso: "2026-04-01T00:00:00.000Z" },
+      { kind: "value", name: "Firmware", value: "$5.00" },
+    ]);
+
+    expect(next.samples).toEqual([
+      {
+        ts: Date.now(),
+        providerId: "copilot",
+        name: "Copilot",
+        percentRemaining: 80,
+        resetTimeIso: "2026-04-01T00:00:00.000Z",
+      },
+    ]);
+    expect(getQuotaHistoryPath()).toBe(
+      "/home/test/.local/state/opencode/opencode-quota/quota-history.json",
+    );
+    expect(fs.writeFile).toHaveBeenCalledTimes(1);
+    expect(fs.rename).toHaveBeenCalledTimes(1);
+  });
+
+  it("collapses identical samples taken minutes apart", async () => {
+    vi.setSystemTime(new Date("2026-03-01T12:00:00.000Z"));
+    const fs = await import("fs/promises");
+    const now = Date.now();
+
+    (fs.readFile as any).mockResolvedValueOnce(
+      JSON.stringify({
+        version: 1,
+        samples: [
+          { ts: now - 60_000, providerId: "copilot", name: "Copilot", percentRemaining: 80 },
+        ],
+        updatedAt: now - 60_000,
+      }),
+    );
+
+    const { recordQuotaHistory } = await import("../src/lib/quota-history.js");
+    const next = await recordQuotaHistory("copilot", [{ name: "Copilot", percentRemaining: 80 }]);
+
+    expect(next.samples).toHaveLength(1);
+    expect(fs.writeFile).not.toHaveBeenCalled();
+  });
+
+  it("prunes samples older than the retention window", async () => {
+    vi.setSystemTime(new Date("2026-03-01T12:00:00.000Z"));
+    const fs = await import("fs/promises");
+    const now = Date.now();
+    const day = 24 * 60 * 60 * 1000;
+
+    (fs.readFile as any).mockResolvedValueOnce(
+      JSON.stringify({
+        version: 1,
+        samples: [
+          { ts: now - 30 * day, providerId: "copilot", name: "Copilot", percentRemaining: 100 },
+          { ts: now - day, providerId: "copilot", name: "Copilot", percentRemaining: 90 },
+          { ts: "bad", providerId: "copilot", name: "Copilot", percentRemaining: 50 },
+        ],
+        updatedAt: now - day,
+      }),
+    );
+
+    const { readQuotaHistory } = await import("../src/lib/quota-history.js");
+    const state = await readQuotaHistory();
+
+    expect(state.samples.map((s) => s.percentRemaining)).toEqual([90]);
+  });
+
+  it("groups samples per provider and entry in chronological order", async () => {
+    const { groupQuotaHistory } = await import("../src/lib/quota-history.js");
+    const grouped = groupQuotaHistory([
+      { ts: 3, providerId: "a", name: "A", percentRemaining: 70 },
+      { ts: 1, providerId: "a", name: "A", percentRemaining: 90 },
+      { ts: 2, providerId: "b", name: "B", percentRemaining: 50 },
+    ]);
+
+    expect(grouped.get("a:A")!.map((s) => s.percentRemaining)).toEqual([90, 70]);
+    expect(grouped.get("b:B")!).toHaveLength(1);
+  });
+
+  it("keeps same-named entries from two providers in separate series", async () => {
+    vi.setSystemTime(new Date("2026-03-01T12:00:00.000Z"));
+    const fs = await import("fs/promises");
+    const now = Date.now();
+
+    (fs.readFile as any).mockResolvedValueOnce(
+      JSON.stringify({
+        version: 1,
+        samples: [
+          { ts: now - 60_000, providerId: "acme", name: "Daily", percentRemaining: 80 },
+          { ts: now - 60_000, name: "Daily", percentRemaining: 10 },
+        ],
+        updatedAt: now - 60_000,
+      }),
+    );
+
+    const { recordQuotaHistory, groupQuotaHistory } = await import("../src/lib/quota-history.js");
+    // Same value as acme's last sample, but another provider: not collapsed into it.
+    const next = await recordQuotaHistory("other", [{ name: "Daily", percentRemaining: 80 }]);
+    const grouped = groupQuotaHistory(next.samples);
+
+    expect(grouped.get("acme:Daily")!.map((s) => s.percentRemaining)).toEqual([80]);
+    expect(grouped.get("other:Daily")!.map((s) => s.ts)).toEqual([now]);
+    // Samples without a provider id predate the split and are dropped.
+    expect(next.samples).toHaveLength(2);
+  });
+});
+
+describe("formatQuotaCommand history", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2026-03-01T12:00:00.000Z"));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("renders a sparkline and the change since the previous snapshot", async () => {
+    const { formatQuotaCommand } = await import("../src/lib/quota-command-format.js");
+    const now = Date.now();
+    const hour = 60 * 60 * 1000;
+
+    const out = formatQuotaCommand({
+      entries: [
+        {
+          providerId: "openai",
+          name: "OpenAI (Pro) Hourly",
+          group: "OpenAI (Pro)",
+          label: "Hourly:",
+          percentRemaining: 60,
+        },
+      ],
+      errors: [],
+      history: new Map([
+        [
+          "openai:OpenAI (Pro) Hourly",
+          [
+            {
+              ts: now - 3 * hour,
+              providerId: "openai",
+              name: "OpenAI (Pro) Hourly",
+              percentRemaining: 100,
+            },
+            {
+              ts: now - 2 * hour,
+              providerId: "openai",
+              name: "OpenAI (Pro) Hourly",
+              percentRemaining: 68,
+            },
+            { ts: now, providerId: "openai", name: "OpenAI (Pro) Hourly", percentRemaining: 60 },
+          ],
+        ],
+      ]),
+    });
+
+    expect(out).toContain("60% left  █▆▅ -8% vs 2h ago");
+  });
+
+  it("omits the trend when there is no history", async () => {
+    const { formatQuotaCommand } = await import("../src/lib/quota-command-format.js");
+    const out = formatQuotaCommand({
+      entries: [{ name: "Copilot", percentRemaining: 50 }],
+      errors: [],
+    });
+
+    expect(out).toContain("50% left");
+    expect(out).not.toContain("ago");
+  });
+});
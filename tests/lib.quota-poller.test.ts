@@ -0,0 +1,77 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { createQuotaPoller, hasMeaningfulChange } from "../src/lib/quota-poller.js";
+
+describe("quota poller", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("polls while busy and backs off then stops when idle", async () => {
+    const poll = vi.fn(async () => {});
+    const poller = createQuotaPoller({ intervalMs: 60_000, poll });
+
+    expect(poller.nextDelayMs()).toBeNull();
+    poller.setSessionBusy("ses_a", true);
+    expect(poller.nextDelayMs()).toBe(60_000);
+
+    await vi.advanceTimersByTimeAsync(120_000);
+    expect(poll).toHaveBeenCalledTimes(2);
+    expect(poll).toHaveBeenLastCalledWith("ses_a");
+
+    poller.setSessionBusy("ses_a", false);
+    await vi.advanceTimersByTimeAsync(60_000);
+    expect(poll).toHaveBeenCalledTimes(3);
+    expect(poller.nextDelayMs()).toBe(120_000);
+
+    await vi.advanceTimersByTimeAsync(120_000 + 240_000 + 480_000);
+    expect(poll).toHaveBeenCalledTimes(6);
+    expect(poller.nextDelayMs()).toBeNull();
+
+    // A busy session restarts polling at the base interval.
+    poller.setSessionBusy("ses_b", true);
+    expect(poller.nextDelayMs()).toBe(60_000);
+    poller.stop();
+    await vi.advanceTimersByTimeAsync(60_000);
+    expect(poll).toHaveBeenCalledTimes(6);
+  });
+
+  it("enforces a minimum interval and survives poll errors", async () => {
+    const poll = vi.fn(async () => {
+      throw new Error("boom");
+    });
+    const poller = createQuotaPoller({ intervalMs: 1_000, poll });
+    poller.setSessionBusy("ses_a", true);
+    expect(poller.nextDelayMs()).toBe(60_000);
+
+    await vi.advanceTimersByTimeAsync(60_000);
+    expect(poll).toHaveBeenCalledTimes(1);
+    expect(poller.nextDelayMs()).toBe(60_000);
+    poller.stop();
+  });
+});
+
+describe("hasMeaningfulChange", () => {
+  const entry = (name: string, percentRemaining: number) => ({ name, percentRemaining });
+
+  it("ignores small moves and the first poll", () => {
+    expect(hasMeaningfulChange(null, [entry("Copilot", 50)])).toBe(false);
+    expect(hasMeaningfulChange([entry("Copilot", 50)], [entry("Copilot", 47)])).toBe(false);
+  });
+
+  it("flags big moves, value changes and new or missing entries", () => {
+    expect(hasMeaningfulChange([entry("Copilot", 50)], [entry("Copilot", 45)])).toBe(true);
+    expect(
+      hasMeaningfulChange(
+        [{ kind: "value", name: "Firmware", value: "$10.00" }],
+        [{ kind: "value", name: "Firmware", value: "$9.00" }],
+      ),
+    ).toBe(true);
+    expect(hasMeaningfulChange([entry("Copilot", 50)], [entry("OpenAI", 50)])).toBe(true);
+    expect(hasMeaningfulChange([entry("Copilot", 50)], [])).toBe(true);
+  });
+});
@@ -0,0 +1,158 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("fs/promises", () => ({
+  mkdir: vi.fn(),
+  readFile: vi.fn(),
+  rename: vi.fn(),
+  rm: vi.fn(),
+  writeFile: vi.fn(),
+}));
+
+import { parseTokenExportArgs } from "../src/lib/command-parsing.js";
+import {
+  aggregateResultToCsvTables,
+  exportAggregateResult,
+  resolveExportPath,
+  toCsv,
+} from "../src/lib/quota-stats-export.js";
+import type { AggregateResult } from "../src/lib/quota-stats.js";
+
+const tokens = { input: 10, output: 20, reasoning: 0, cache_read: 5, cache_write: 0 };
+
+function makeResult(): AggregateResult {
+  return {
+    window: { sinceMs: 0, untilMs: 1 },
+    totals: {
+      priced: tokens,
+      unknown: { input: 0, output: 0, reasoning: 0, cache_read: 0, cache_write: 0 },
+      unpriced: { input: 0, output: 0, reasoning: 0, cache_read: 0, cache_write: 0 },
+      costUsd: 0.5,
+      messageCount: 1,
+      sessionCount: 1,
+    },
+    bySourceProvider: [{ providerID: "anthropic", tokens, costUsd: 0.5, messageCount: 1 }],
+    bySourceModel: [],
+    byModel: [
+      {
+        key: { provider: "anthropic", model: "claude-sonnet-4-5" },
+        tokens,
+        costUsd: 0.5,
+        messageCount: 1,
+      },
+    ],
+    bySession: [
+      { sessionID: "ses_1", title: 'Fix "auth", again', tokens, costUsd: 0.5, messageCount: 1 },
+    ],
+    byAgent: [{ agent: "build", tokens, costUsd: 0.5, messageCount: 1 }],
+    byMode: [{ mode: "build", tokens, costUsd: 0.5, messageCount: 1 }],
+    unknown: [],
+    unpriced: [],
+  };
+}
+
+describe("parseTokenExportArgs", () => {
+  it("ignores empty and positional arguments", () => {
+    expect(parseTokenExportArgs(undefined)).toEqual({ ok: true, value: null });
+    expect(parseTokenExportArgs("2026-01-01 2026-01-31")).toEqual({ ok: true, value: null });
+    expect(parseTokenExportArgs('{"starting_date":"2026-01-01"}')).toEqual({
+      ok: true,
+      value: null,
+    });
+  });
+
+  it("parses format and infers it from the output extension", () => {
+    expect(parseTokenExportArgs('{"format":"csv","out":"~/usage.csv"}')).toEqual({
+      ok: true,
+      value: { format: "csv", out: "~/usage.csv" },
+    });
+    expect(parseTokenExportArgs('{"out":"report.JSON"}')).toEqual({
+      ok: true,
+      value: { format: "json", out: "report.JSON" },
+    });
+    expect(parseTokenExportArgs('{"format":"xlsx"}').ok).toBe(false);
+    expect(parseTokenExportArgs('{"out":""}').ok).toBe(false);
+  });
+});
+
+describe("quota-stats-export", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("escapes CSV cells and neutralizes formulas", () => {
+    expect(toCsv(["a", "b", "c"], [["x,y", "=SUM(A1)", 3]])).toBe('a,b,c\n"x,y",\'=SUM(A1),3\n');
+
+    const tables = aggregateResultToCsvTables(makeResult());
+    expect(tables["by-model"]).toBe(
+      "provider,model,input,output,reasoning,cache_read,cache_write,total,cost_usd,messages\n" +
+        "anthropic,claude-sonnet-4-5,10,20,0,5,0,35,0.5,1\n",
+    );
+    expect(tables["by-session"]).toContain('ses_1,"Fix ""auth"", again",10,20,0,5,0,35,0.5,1');
+    expect(Object.keys(tables)).toEqual([
+      "by-model",
+      "by-source-model",
+      "by-source-provider",
+      "by-session",
+      "by-agent",
+      "by-mode",
+      "unknown",
+      "unpriced",
+    ]);
+  });
+
+  it("resolves home, relative and default paths", () => {
+    const base = { command: "tokens_monthly", baseDir: "/work/project", homeDir: "/home/test" };
+    expect(resolveExportPath({ ...base, request: { format: "csv", out: "~/usage.csv" } })).toBe(
+      "/home/test/usage.csv",
+    );
+    expect(resolveExportPath({ ...base, request: { format: "csv", out: "out/usage.csv" } })).toBe(
+      "/work/project/out/usage.csv",
+    );
+    expect(
+      resolveExportPath({
+        ...base,
+        request: { format: "json" },
+        nowMs: new Date(2026, 2, 5, 12).getTime(),
+      }),
+    ).toBe("/home/test/opencode-tokens_monthly-2026-03-05.json");
+  });
+
+  it("writes one CSV per table next to the requested path", async () => {
+    const fs = await import("fs/promises");
+    const written = await exportAggregateResult({
+      result: makeResult(),
+      format: "csv",
+      path: "/home/test/usage.csv",
+      title: "Tokens used",
+    });
+
+    expect(written).toEqual([
+      "/home/test/usage.by-model.csv",
+      "/home/test/usage.by-source-model.csv",
+      "/home/test/usage.by-source-provider.csv",
+      "/home/test/usage.by-session.csv",
+      "/home/test/usage.by-agent.csv",
+      "/home/test/usage.by-mode.csv",
+      "/home/test/usage.unknown.csv",
+      "/home/test/usage.unpriced.csv",
+    ]);
+    expect((fs.rename as any).mock.calls.map((c: string[]) => c[1])).toEqual(written);
+  });
+
+  it("writes the full result as one JSON document", async () => {
+    const fs = await import("fs/promises");
+    await exportAggregateResult({
+      result: makeResult(),
+      format: "json",
+      path: "/home/test/usage.json",
+      title: "Tokens used",
+      nowMs: Date.UTC(2026, 2, 1),
+    });
+
+    const doc = JSON.parse((fs.writeFile as any).mock.calls[0][1]);
+    expect(doc.title).toBe("Tokens used");
+    expect(doc.generatedAt).toBe("2026-03-01T00:00:00.000Z");
+    expect(doc.byModel[0].key.model).toBe("claude-sonnet-4-5");
+    expect(doc.bySession[0].sessionID).toBe("ses_1");
+  });
+});
@@ -0,0 +1,210 @@
+import { describe, expect, it } from "vitest";
+
+import type { OpenCodeSessionInfo } from "../src/lib/opencode-storage.js";
+import { parseTokenTimelineArgs } from "../src/lib/command-parsing.js";
+import {
+  formatTimeBucketLabel,
+  nextTimeBucketMs,
+  startOfTimeBucketMs,
+  timelineStartMs,
+} from "../src/lib/time-buckets.js";
+import {
+  fillTimelineGaps,
+  getDescendantSessionIDs,
+  rollupSubagentSessions,
+  type AggregateResult,
+  type SessionRow,
+} from "../src/lib/quota-stats.js";
+import { formatQuotaStatsReport } from "../src/lib/quota-stats-format.js";
+
+const zero = { input: 0, output: 0, reasoning: 0, cache_read: 0, cache_write: 0 };
+
+function session(id: string, parentID?: string, title?: string): OpenCodeSessionInfo {
+  return { id, parentID, title, time: {} };
+}
+
+function row(sessionID: string, costUsd: number, title?: string): SessionRow {
+  return {
+    sessionID,
+    title,
+    tokens: { ...zero, input: costUsd * 100 },
+    costUsd,
+    messageCount: 1,
+  };
+}
+
+// ses_root
+// ├─ ses_plan        (no priced usage of its own)
+// │  └─ ses_review
+// └─ ses_build
+const idx: Record<string, OpenCodeSessionInfo> = {
+  ses_root: session("ses_root", undefined, "Fix auth flow"),
+  ses_plan: session("ses_plan", "ses_root"),
+  ses_review: session("ses_review", "ses_plan"),
+  ses_build: session("ses_build", "ses_root"),
+  ses_other: session("ses_other", undefined, "Other"),
+  ses_orphan: session("ses_orphan", "ses_missing"),
+};
+
+describe("subagent session rollup", () => {
+  it("finds nested descendants", () => {
+    expect(getDescendantSessionIDs(idx, "ses_root").sort()).toEqual([
+      "ses_build",
+      "ses_plan",
+      "ses_review",
+    ]);
+    expect(getDescendantSessionIDs(idx, "ses_other")).toEqual([]);
+  });
+
+  it("folds children into the root and keeps intermediate sessions", () => {
+    const rows = rollupSubagentSessions(
+      [row("ses_root", 1), row("ses_review", 2), row("ses_build", 3), row("ses_other", 0.5)],
+      idx,
+    );
+
+    expect(rows.map((r) => [r.sessionID, r.costUsd, r.messageCount])).toEqual([
+      ["ses_root", 6, 3],
+      ["ses_other", 0.5, 1],
+    ]);
+    expect(rows[0]!.title).toBe("Fix auth flow");
+    expect(rows[0]!.children!.map((c) => [c.sessionID, c.depth, c.costUsd])).toEqual([
+      ["ses_build", 1, 3],
+      ["ses_plan", 1, 0],
+      ["ses_review", 2, 2],
+    ]);
+    expect(rows[1]!.children).toBeUndefined();
+  });
+
+  it("treats sessions with an unknown parent as roots", () => {
+    const rows = rollupSubagentSessions([row("ses_orphan", 1)], idx);
+    expect(rows).toEqual([row("ses_orphan", 1)]);
+  });
+
+  it("renders a subagent tree for the focus session", () => {
+    const bySession = rollupSubagentSessions(
+      [row("ses_root", 1), row("ses_review", 2), row("ses_build", 3)],
+      idx,
+    );
+    const result: AggregateResult = {
+      window: {},
+      totals: {
+        priced: zero,
+        unknown: zero,
+        unpriced: zero,
+        costUsd: 6,
+        messageCount: 3,
+        sessionCount: 3,
+      },
+      bySourceProvider: [],
+      bySourceModel: [],
+      byModel: [],
+      bySession,
+      byAgent: [],
+      byMode: [],
+      unknown: [],
+      unpriced: [],
+    };
+
+    const out = formatQuotaStatsReport({
+      title: "Tokens used (Current Session) (/tokens_session)",
+      result,
+      focusSessionID: "ses_root",
+      sessionOnly: true,
+    });
+
+    expect(out).toContain("## Subagents");
+    expect(out).toMatch(/ses_root .*Fix auth flow.*\$1\.00.*17%/);
+    expect(out).toMatch(/├─ ses_build .*\$3\.00.*50%/);
+    expect(out).toMatch(/└─ ses_plan .*\$0\.00.*0%/);
+    expect(out).toMatch(/ {3}└─ ses_review .*\$2\.00.*33%/);
+  });
+});
+
+describe("token timeline", () => {
+  it("buckets by local hour, day and Monday-based week", () => {
+    const ms = new Date(2026, 2, 5, 14, 37).getTime(); // Thursday
+    expect(startOfTimeBucketMs(ms, "hour")).toBe(new Date(2026, 2, 5, 14).getTime());
+    expect(startOfTimeBucketMs(ms, "day")).toBe(new Date(2026, 2, 5).getTime());
+    expect(startOfTimeBucketMs(ms, "week")).toBe(new Date(2026, 2, 2).getTime());
+    expect(startOfTimeBucketMs(new Date(2026, 2, 8, 23).getTime(), "week")).toBe(
+      new Date(2026, 2, 2).getTime(),
+    );
+    expect(nextTimeBucketMs(new Date(2026, 2, 2).getTime(), "week")).toBe(
+      new Date(2026, 2, 9).getTime(),
+    );
+    expect(formatTimeBucketLabel(new Date(2026, 2, 5).getTime(), "day")).toBe("2026-03-05 Thu");
+    expect(formatTimeBucketLabel(new Date(2026, 2, 5, 9).getTime(), "hour")).toBe(
+      "2026-03-05 09:00",
+    );
+  });
+
+  it("starts the timeline on a bucket boundary, at most at the current bucket", () => {
+    const until = new Date(2026, 2, 5, 14, 37).getTime(); // Thursday
+    expect(timelineStartMs(until, 14, "day")).toBe(new Date(2026, 1, 20).getTime());
+    // Three days is shorter than a week: show the current week instead of nothing.
+    expect(timelineStartMs(until, 3, "week")).toBe(new Date(2026, 2, 2).getTime());
+    expect(timelineStartMs(until, 28, "week")).toBe(new Date(2026, 1, 9).getTime());
+  });
+
+  it("fills empty buckets across the window", () => {
+    const day = (d: number) => new Date(2026, 2, d).getTime();
+    const rows = fillTimelineGaps({
+      rows: new Map([[day(3), { startMs: day(3), tokens: zero, costUsd: 2, messageCount: 1 }]]),
+      unit: "day",
+      sinceMs: day(2),
+      untilMs: day(5),
+    });
+    expect(rows.map((r) => [r.startMs, r.costUsd])).toEqual([
+      [day(2), 0],
+      [day(3), 2],
+      [day(4), 0],
+    ]);
+  });
+
+  it("renders a timeline table with cost bars", () => {
+    const day = (d: number) => new Date(2026, 2, d).getTime();
+    const result: AggregateResult = {
+      window: { sinceMs: day(2), untilMs: day(4) },
+      totals: {
+        priced: zero,
+        unknown: zero,
+        unpriced: zero,
+        costUsd: 3,
+        messageCount: 3,
+        sessionCount: 1,
+      },
+      bySourceProvider: [],
+      bySourceModel: [],
+      byModel: [],
+      bySession: [],
+      byAgent: [],
+      byMode: [],
+      timeline: {
+        unit: "day",
+        rows: [
+          { startMs: day(2), tokens: zero, costUsd: 1, messageCount: 1 },
+          { startMs: day(3), tokens: zero, costUsd: 2, messageCount: 2 },
+        ],
+      },
+      unknown: [],
+      unpriced: [],
+    };
+
+    const out = formatQuotaStatsReport({ title: "Timeline", result });
+    expect(out).toContain("## Timeline (by day)");
+    expect(out).toContain("Cost chart");
+    expect(out).toMatch(/2026-03-02 Mon .*\$1\.00 .*`█{10}░{10}`/);
+    expect(out).toMatch(/2026-03-03 Tue .*\$2\.00 .*`█{20}`/);
+  });
+
+  it("parses groupBy and days arguments", () => {
+    expect(parseTokenTimelineArgs('{"groupBy":"week","days":28}')).toEqual({
+      ok: true,
+      groupBy: "week",
+      days: 28,
+    });
+    expect(parseTokenTimelineArgs("2026-01-01 2026-01-02")).toEqual({ ok: true });
+    expect(parseTokenTimelineArgs('{"groupBy":"month"}').ok).toBe(false);
+    expect(parseTokenTimelineArgs('{"days":0}').ok).toBe(false);
+  });
+});
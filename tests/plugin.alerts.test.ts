@@ -0,0 +1,151 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+import { DEFAULT_CONFIG } from "../src/lib/types.js";
+
+const mocks = vi.hoisted(() => ({
+  loadConfig: vi.fn(),
+  percentRemaining: 80,
+  files: new Map<string, string>(),
+}));
+
+vi.mock("@opencode-ai/plugin", () => {
+  const makeChain = () => {
+    const chain: any = {};
+    chain.optional = () => chain;
+    chain.describe = () => chain;
+    chain.int = () => chain;
+    chain.min = () => chain;
+    return chain;
+  };
+
+  const toolFn = ((definition: unknown) => definition) as any;
+  toolFn.schema = {
+    boolean: () => makeChain(),
+    number: () => makeChain(),
+    string: () => makeChain(),
+  };
+
+  return { tool: toolFn };
+});
+
+vi.mock("../src/lib/config.js", () => ({
+  loadConfig: mocks.loadConfig,
+  createLoadConfigMeta: () => ({ source: "test", paths: [] }),
+}));
+
+vi.mock("../src/lib/opencode-runtime-paths.js", () => ({
+  getOpencodeRuntimeDirCandidates: () => ({
+    dataDirs: ["/home/test/.local/share/opencode"],
+    configDirs: ["/home/test/.config/opencode"],
+    cacheDirs: ["/home/test/.cache/opencode"],
+    stateDirs: ["/home/test/.local/state/opencode"],
+  }),
+  getOpencodeRuntimeDirs: () => ({
+    dataDir: "/home/test/.local/share/opencode",
+    configDir: "/home/test/.config/opencode",
+    cacheDir: "/home/test/.cache/opencode",
+    stateDir: "/home/test/.local/state/opencode",
+  }),
+}));
+
+// State files (history, alerts, last-good entries) live in memory.
+vi.mock("fs/promises", async (importOriginal) => {
+  const mod = await importOriginal<typeof import("fs/promises")>();
+  const isTestPath = (path: unknown) => String(path).startsWith("/home/test/");
+  return {
+    ...mod,
+    mkdir: vi.fn(async (path: string, opts?: any) =>
+      isTestPath(path) ? undefined : mod.mkdir(path, opts),
+    ),
+    readFile: vi.fn(async (path: string, opts?: any) => {
+      if (!isTestPath(path)) return mod.readFile(path, opts);
+      const content = mocks.files.get(path);
+      if (content === undefined) throw new Error("ENOENT");
+      return content;
+    }),
+    writeFile: vi.fn(async (path: string, content: string, opts?: any) => {
+      if (!isTestPath(path)) return mod.writeFile(path, content, opts);
+      mocks.files.set(path, content);
+    }),
+    rename: vi.fn(async (from: string, to: string) => {
+      if (!isTestPath(to)) return mod.rename(from, to);
+      mocks.files.set(to, mocks.files.get(from)!);
+      mocks.files.delete(from);
+    }),
+  };
+});
+
+vi.mock("../src/providers/registry.js", () => ({
+  getProviders: () => [
+    {
+      id: "fake",
+      isAvailable: async () => true,
+      fetch: async () => ({
+        attempted: true,
+        entries: [{ name: "Fake", percentRemaining: mocks.percentRemaining }],
+        errors: [],
+      }),
+    },
+  ],
+}));
+
+function createClient() {
+  return {
+    config: {
+      get: vi.fn().mockResolvedValue({ data: {} }),
+      providers: vi.fn().mockResolvedValue({ data: { providers: [] } }),
+    },
+    session: {
+      get: vi.fn().mockResolvedValue({ data: {} }),
+      prompt: vi.fn().mockResolvedValue({}),
+    },
+    tui: {
+      showToast: vi.fn().mockResolvedValue({}),
+    },
+    app: {
+      log: vi.fn().mockResolvedValue({}),
+    },
+  };
+}
+
+describe("plugin threshold alerts", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mocks.files.clear();
+    mocks.percentRemaining = 80;
+    mocks.loadConfig.mockResolvedValue({
+      ...DEFAULT_CONFIG,
+      enabledProviders: ["fake"],
+      alerts: { fake: [50] },
+      minIntervalMs: 300_000,
+      showOnIdle: true,
+    });
+  });
+
+  it("alerts on a threshold crossed inside the minIntervalMs window", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    try {
+      vi.setSystemTime(new Date("2026-03-01T12:00:00.000Z"));
+      const { QuotaToastPlugin } = await import("../src/plugin.js");
+      const client = createClient();
+      const hooks = await QuotaToastPlugin({ client } as any);
+      const idle = { event: { type: "session.idle", properties: { sessionID: "s1" } } };
+
+      await hooks.event?.(idle as any);
+      expect(client.tui.showToast).toHaveBeenCalledTimes(1);
+
+      // One minute later: the toast itself is still throttled, the alert is not.
+      mocks.percentRemaining = 40;
+      vi.setSystemTime(new Date("2026-03-01T12:01:00.000Z"));
+      await hooks.event?.(idle as any);
+
+      const bodies = client.tui.showToast.mock.calls.map((c: any[]) => c[0].body);
+      expect(bodies).toHaveLength(3);
+      expect(bodies[1].message).toContain("80%");
+      expect(bodies[2].variant).toBe("error");
+      expect(bodies[2].message).toContain("Fake");
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+});
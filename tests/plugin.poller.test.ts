@@ -0,0 +1,203 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+import { DEFAULT_CONFIG } from "../src/lib/types.js";
+
+const mocks = vi.hoisted(() => ({
+  loadConfig: vi.fn(),
+  percentRemaining: 80,
+  files: new Map<string, string>(),
+  pollers: [] as Array<{
+    intervalMs: number;
+    poll: (sessionID: string) => Promise<void>;
+    setSessionBusy: ReturnType<typeof vi.fn>;
+    stop: ReturnType<typeof vi.fn>;
+  }>,
+}));
+
+vi.mock("@opencode-ai/plugin", () => {
+  const makeChain = () => {
+    const chain: any = {};
+    chain.optional = () => chain;
+    chain.describe = () => chain;
+    chain.int = () => chain;
+    chain.min = () => chain;
+    return chain;
+  };
+
+  const toolFn = ((definition: unknown) => definition) as any;
+  toolFn.schema = {
+    boolean: () => makeChain(),
+    number: () => makeChain(),
+    string: () => makeChain(),
+  };
+
+  return { tool: toolFn };
+});
+
+vi.mock("../src/lib/config.js", () => ({
+  loadConfig: mocks.loadConfig,
+  createLoadConfigMeta: () => ({ source: "test", paths: [] }),
+}));
+
+vi.mock("../src/lib/opencode-runtime-paths.js", () => ({
+  getOpencodeRuntimeDirCandidates: () => ({
+    dataDirs: ["/home/test/.local/share/opencode"],
+    configDirs: ["/home/test/.config/opencode"],
+    cacheDirs: ["/home/test/.cache/opencode"],
+    stateDirs: ["/home/test/.local/state/opencode"],
+  }),
+  getOpencodeRuntimeDirs: () => ({
+    dataDir: "/home/test/.local/share/opencode",
+    configDir: "/home/test/.config/opencode",
+    cacheDir: "/home/test/.cache/opencode",
+    stateDir: "/home/test/.local/state/opencode",
+  }),
+}));
+
+// State files (history, alerts, last-good entries) live in memory.
+vi.mock("fs/promises", async (importOriginal) => {
+  const mod = await importOriginal<typeof import("fs/promises")>();
+  const isTestPath = (path: unknown) => String(path).startsWith("/home/test/");
+  return {
+    ...mod,
+    mkdir: vi.fn(async (path: string, opts?: any) =>
+      isTestPath(path) ? undefined : mod.mkdir(path, opts),
+    ),
+    readFile: vi.fn(async (path: string, opts?: any) => {
+      if (!isTestPath(path)) return mod.readFile(path, opts);
+      const content = mocks.files.get(path);
+      if (content === undefined) throw new Error("ENOENT");
+      return content;
+    }),
+    writeFile: vi.fn(async (path: string, content: string, opts?: any) => {
+      if (!isTestPath(path)) return mod.writeFile(path, content, opts);
+      mocks.files.set(path, content);
+    }),
+    rename: vi.fn(async (from: string, to: string) => {
+      if (!isTestPath(to)) return mod.rename(from, to);
+      mocks.files.set(to, mocks.files.get(from)!);
+      mocks.files.delete(from);
+    }),
+  };
+});
+
+vi.mock("../src/providers/registry.js", () => ({
+  getProviders: () =>
+    ["fake", "other"].map((id) => ({
+      id,
+      isAvailable: async () => true,
+      fetch: async () => ({
+        attempted: true,
+        entries: [{ name: id, percentRemaining: mocks.percentRemaining }],
+        errors: [],
+      }),
+    })),
+}));
+
+vi.mock("../src/lib/quota-poller.js", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../src/lib/quota-poller.js")>()),
+  createQuotaPoller: (params: { intervalMs: number; poll: (id: string) => Promise<void> }) => {
+    const poller = { ...params, setSessionBusy: vi.fn(), stop: vi.fn(), nextDelayMs: () => null };
+    mocks.pollers.push(poller);
+    return poller;
+  },
+}));
+
+function createClient() {
+  return {
+    config: {
+      get: vi.fn().mockResolvedValue({ data: {} }),
+      providers: vi.fn().mockResolvedValue({ data: { providers: [] } }),
+    },
+    session: {
+      get: vi.fn().mockResolvedValue({ data: {} }),
+      prompt: vi.fn().mockResolvedValue({}),
+    },
+    tui: {
+      showToast: vi.fn().mockResolvedValue({}),
+    },
+    app: {
+      log: vi.fn().mockResolvedValue({}),
+    },
+  };
+}
+
+function configWith(overrides: Record<string, unknown>) {
+  return {
+    ...DEFAULT_CONFIG,
+    enabledProviders: ["fake"],
+    pollIntervalMs: 120_000,
+    ...overrides,
+  };
+}
+
+describe("plugin background polling", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mocks.files.clear();
+    mocks.pollers.length = 0;
+    mocks.percentRemaining = 80;
+    mocks.loadConfig.mockResolvedValue(configWith({}));
+  });
+
+  async function setup() {
+    const { QuotaToastPlugin } = await import("../src/plugin.js");
+    const client = createClient();
+    const hooks = await QuotaToastPlugin({ client } as any);
+    const busy = async () =>
+      hooks.event?.({
+        event: {
+          type: "session.status",
+          properties: { sessionID: "s1", status: { type: "busy" } },
+        },
+      } as any);
+    // /quota_status reloads the config, like a runtime config edit would.
+    const reloadConfig = async (overrides: Record<string, unknown>) => {
+      mocks.loadConfig.mockResolvedValue(configWith(overrides));
+      await (hooks.tool as any).quota_status.execute({}, { sessionID: "s1", metadata: vi.fn() });
+    };
+    return { client, busy, reloadConfig };
+  }
+
+  it("rebuilds the poller when pollIntervalMs changes and stops it at 0", async () => {
+    const { busy, reloadConfig } = await setup();
+
+    await busy();
+    expect(mocks.pollers.map((p) => p.intervalMs)).toEqual([120_000]);
+    expect(mocks.pollers[0]!.setSessionBusy).toHaveBeenCalledWith("s1", true);
+
+    await reloadConfig({ pollIntervalMs: 0 });
+    await busy();
+    expect(mocks.pollers[0]!.stop).toHaveBeenCalledTimes(1);
+    expect(mocks.pollers).toHaveLength(1);
+
+    await reloadConfig({ pollIntervalMs: 300_000 });
+    await busy();
+    expect(mocks.pollers.map((p) => p.intervalMs)).toEqual([120_000, 300_000]);
+    expect(mocks.pollers[1]!.setSessionBusy).toHaveBeenCalledWith("s1", true);
+  });
+
+  it("starts a new baseline when the enabled providers change", async () => {
+    const { client, busy, reloadConfig } = await setup();
+    await busy();
+
+    await mocks.pollers[0]!.poll("s1");
+    expect(client.tui.showToast).not.toHaveBeenCalled();
+
+    await reloadConfig({ enabledProviders: ["other"] });
+    await busy();
+    await mocks.pollers[0]!.poll("s1");
+    expect(client.tui.showToast).not.toHaveBeenCalled();
+
+    mocks.percentRemaining = 60;
+    vi.useFakeTimers({ toFake: ["Date"] });
+    try {
+      // Past the provider cache TTL so the poll sees the new value.
+      vi.setSystemTime(Date.now() + 10 * 60_000);
+      await mocks.pollers[0]!.poll("s1");
+    } finally {
+      vi.useRealTimers();
+    }
+    expect(client.tui.showToast).toHaveBeenCalledTimes(1);
+  });
+});
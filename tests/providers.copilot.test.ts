@@ -0,0 +1,94 @@
+import { describe, expect, it, vi } from "vitest";
+
+import { copilotProvider } from "../src/providers/copilot.js";
+import { copilotModelMultiplier, toModelBreakdown } from "../src/lib/copilot.js";
+
+vi.mock("../src/lib/copilot.js", async (importOriginal) => {
+  const mod = await importOriginal<typeof import("../src/lib/copilot.js")>();
+  return {
+    ...mod,
+    queryCopilotQuota: vi.fn(),
+  };
+});
+
+const RESULT = {
+  success: true,
+  used: 190,
+  total: 300,
+  percentRemaining: 37,
+  resetTimeIso: "2026-02-01T00:00:00.000Z",
+  models: [
+    { model: "Claude Opus 4", used: 120, multiplier: 10 },
+    { model: "Claude Sonnet 4", used: 40, multiplier: 1 },
+    { model: "o4-mini", used: 13.2, multiplier: 0.33 },
+    { model: "Gemini 2.5 Pro", used: 10, multiplier: 1 },
+    { model: "Mystery Model", used: 4 },
+    { model: "Grok Code Fast 1", used: 2.8, multiplier: 0.25 },
+  ],
+};
+
+describe("copilot provider", () => {
+  it("keeps a single entry in classic style", async () => {
+    const { queryCopilotQuota } = await import("../src/lib/copilot.js");
+    (queryCopilotQuota as any).mockResolvedValueOnce(RESULT);
+
+    const out = await copilotProvider.fetch({ config: { toastStyle: "classic" } } as any);
+    expect(out.entries).toEqual([
+      { name: "Copilot", percentRemaining: 37, resetTimeIso: "2026-02-01T00:00:00.000Z" },
+    ]);
+  });
+
+  it("adds per-model rows in grouped style and folds the tail into Other", async () => {
+    const { queryCopilotQuota } = await import("../src/lib/copilot.js");
+    (queryCopilotQuota as any).mockResolvedValueOnce(RESULT);
+
+    const out = await copilotProvider.fetch({ config: { toastStyle: "grouped" } } as any);
+    expect(out.entries.map((e: any) => [e.label ?? e.name, e.value ?? e.percentRemaining])).toEqual(
+      [
+        ["Copilot", 37],
+        ["Claude Opus 4:", "120 req (x10 est.)"],
+        ["Claude Sonnet 4:", "40 req (x1 est.)"],
+        ["o4-mini:", "13.2 req (x0.33 est.)"],
+        ["Gemini 2.5 Pro:", "10 req (x1 est.)"],
+        ["Other:", "6.8 req"],
+      ],
+    );
+    expect(out.entries[1]).toMatchObject({ kind: "value", group: "Copilot" });
+  });
+});
+
+describe("copilot model breakdown", () => {
+  it("sums premium items per model, most used first", () => {
+    const item = (model: string | undefined, grossQuantity: number) => ({
+      product: "Copilot",
+      sku: "Copilot Premium Request",
+      model,
+      unitType: "requests",
+      grossQuantity,
+      netQuantity: grossQuantity,
+    });
+
+    expect(
+      toModelBreakdown([
+        item("Claude Sonnet 4", 12),
+        item("Claude Opus 4", 50),
+        item("Claude Sonnet 4", 8),
+        item("Unreleased", 3),
+        item(undefined, 5),
+        item("GPT-4.1", 0),
+      ]),
+    ).toEqual([
+      { model: "Claude Opus 4", used: 50, multiplier: 10 },
+      { model: "Claude Sonnet 4", used: 20, multiplier: 1 },
+      { model: "Unreleased", used: 3 },
+    ]);
+  });
+
+  it("normalizes billing model names before the multiplier lookup", () => {
+    expect(copilotModelMultiplier("Claude 3.7 Sonnet Thinking")).toBe(1.25);
+    expect(copilotModelMultiplier("Claude Sonnet 3.7")).toBe(1);
+    expect(copilotModelMultiplier("GPT-4.1")).toBe(0);
+    expect(copilotModelMultiplier("Gemini 2.0 Flash")).toBe(0.25);
+    expect(copilotModelMultiplier("Something New")).toBeUndefined();
+  });
+});
@@ -37,6 +37,39 @@ describe("openai provider", () => {
     ]);
   });
 
+  it("shows a blocked window with its exact reset time and the credits balance", async () => {
+    const { queryOpenAIQuota } = await import("../src/lib/openai.js");
+    const { formatResetClock } = await import("../src/lib/format-utils.js");
+    const resetTimeIso = new Date(Date.now() + 90 * 60_000).toISOString();
+    const result = {
+      success: true,
+      label: "OpenAI (Plus)",
+      windows: {
+        hourly: { percentRemaining: 0, resetTimeIso, blocked: true },
+        weekly: { percentRemaining: 55, resetTimeIso: "2026-01-08T00:00:00.000Z" },
+      },
+      credits: { hasCredits: true, unlimited: false, balance: "1250.5" },
+    };
+    const blocked = `BLOCKED until ${formatResetClock(resetTimeIso)}`;
+
+    (queryOpenAIQuota as any).mockResolvedValueOnce(result);
+    const classic = await openaiProvider.fetch({ config: { toastStyle: "classic" } } as any);
+    expect(classic.entries).toEqual([
+      { name: "OpenAI (Plus)", percentRemaining: 0, resetTimeIso, right: blocked },
+      { kind: "value", name: "OpenAI (Plus) Credits", value: "1,250.5 credits" },
+    ]);
+
+    (queryOpenAIQuota as any).mockResolvedValueOnce(result);
+    const grouped = await openaiProvider.fetch({ config: { toastStyle: "grouped" } } as any);
+    expect(
+      grouped.entries.map((e: any) => [e.label, e.value ?? e.percentRemaining, e.right]),
+    ).toEqual([
+      ["Hourly:", 0, blocked],
+      ["Weekly:", 55, undefined],
+      ["Credits:", "1,250.5 credits", undefined],
+    ]);
+  });
+
   it("maps errors into toast errors", async () => {
     const { queryOpenAIQuota } = await import("../src/lib/openai.js");
     (queryOpenAIQuota as any).mockResolvedValueOnce({
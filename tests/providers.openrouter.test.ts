@@ -0,0 +1,112 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("fs", async (importOriginal) => {
+  const mod = await importOriginal<typeof import("fs")>();
+  return {
+    ...mod,
+    // Prevent test environment from picking up a real opencode.json.
+    existsSync: vi.fn(() => false),
+  };
+});
+
+vi.mock("../src/lib/opencode-auth.js", () => ({
+  readAuthFile: vi.fn(async () => ({ openrouter: { type: "api", key: "sk-or-test" } })),
+}));
+
+import { openrouterProvider } from "../src/providers/openrouter.js";
+import { getOpenRouterLimitResetIso } from "../src/lib/openrouter.js";
+
+function json(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), { status });
+}
+
+function stubOpenRouter(params: { key: unknown; credits: Response }) {
+  const fetchMock = vi.fn(async (url: any) =>
+    String(url).endsWith("/credits") ? params.credits : json(params.key),
+  );
+  vi.stubGlobal("fetch", fetchMock as any);
+  return fetchMock;
+}
+
+describe("openrouter provider", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.useRealTimers();
+  });
+
+  it("shows credits and the key limit in grouped style", async () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2026-01-15T12:00:00.000Z"));
+    const fetchMock = stubOpenRouter({
+      key: { data: { limit: 20, limit_remaining: 5, limit_reset: "weekly", usage: 15 } },
+      credits: json({ data: { total_credits: 50, total_usage: 12.5 } }),
+    });
+
+    const out = await openrouterProvider.fetch({ config: { toastStyle: "grouped" } } as any);
+    expect(out.entries).toEqual([
+      {
+        kind: "value",
+        name: "OpenRouter Credits",
+        group: "OpenRouter",
+        label: "Credits:",
+        value: "$37.50",
+      },
+      {
+        name: "OpenRouter Key limit",
+        group: "OpenRouter",
+        label: "Key limit:",
+        percentRemaining: 25,
+        resetTimeIso: "2026-01-19T00:00:00.000Z",
+      },
+    ]);
+    expect(fetchMock.mock.calls.map((c) => String(c[0])).sort()).toEqual([
+      "https://openrouter.ai/api/v1/credits",
+      "https://openrouter.ai/api/v1/key",
+    ]);
+    expect((fetchMock.mock.calls[0]?.[1] as any).headers.Authorization).toBe("Bearer sk-or-test");
+  });
+
+  it("shows only credits in classic style when the key has no limit", async () => {
+    stubOpenRouter({
+      key: { data: { limit: null, usage: 3 } },
+      credits: json({ data: { total_credits: 10, total_usage: 3 } }),
+    });
+
+    const out = await openrouterProvider.fetch({ config: { toastStyle: "classic" } } as any);
+    expect(out).toEqual({
+      attempted: true,
+      entries: [{ kind: "value", name: "OpenRouter", value: "$7.00" }],
+      errors: [],
+    });
+  });
+
+  it("keeps the key limit when credits are not readable", async () => {
+    stubOpenRouter({
+      key: { data: { limit: 10, usage: 4 } },
+      credits: json({ error: { message: "Forbidden" } }, 403),
+    });
+
+    const out = await openrouterProvider.fetch({ config: { toastStyle: "classic" } } as any);
+    expect(out.entries).toEqual([{ name: "OpenRouter Key", percentRemaining: 60 }]);
+    expect(out.errors).toEqual([]);
+  });
+
+  it("reports key endpoint failures", async () => {
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async () => json({ error: { message: "No auth credentials found" } }, 401)) as any,
+    );
+
+    const out = await openrouterProvider.fetch({ config: {} } as any);
+    expect(out.entries).toEqual([]);
+    expect(out.errors[0]?.message).toContain("OpenRouter API error 401");
+  });
+
+  it("computes limit resets at midnight UTC", () => {
+    const now = Date.parse("2026-01-31T18:00:00.000Z"); // Saturday
+    expect(getOpenRouterLimitResetIso("daily", now)).toBe("2026-02-01T00:00:00.000Z");
+    expect(getOpenRouterLimitResetIso("weekly", now)).toBe("2026-02-02T00:00:00.000Z");
+    expect(getOpenRouterLimitResetIso("monthly", now)).toBe("2026-02-01T00:00:00.000Z");
+    expect(getOpenRouterLimitResetIso(null, now)).toBeUndefined();
+  });
+});
@@ -0,0 +1,94 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+import { zaiProvider } from "../src/providers/zai.js";
+import { queryZaiQuota, zaiPeriodName } from "../src/lib/zai.js";
+
+vi.mock("../src/lib/opencode-auth.js", () => ({
+  readAuthFile: vi.fn(async () => ({ "zai-coding-plan": { type: "api", key: "zai-key" } })),
+}));
+
+const RESPONSE = {
+  code: 200,
+  msg: "ok",
+  success: true,
+  data: {
+    level: "pro",
+    limits: [
+      {
+        type: "TOKENS_LIMIT",
+        unit: 3,
+        number: 5,
+        usage: 1_000_000,
+        percentage: 40,
+        nextResetTime: Date.parse("2026-01-15T15:00:00.000Z"),
+        usageDetails: [
+          { modelCode: "glm-4.5-air", usage: 100_000 },
+          { modelCode: "glm-4.6", usage: 300_000 },
+          { modelCode: "glm-4.5v", usage: 0 },
+        ],
+      },
+      { type: "TOKENS_LIMIT", unit: 4, number: 1, usage: 0, percentage: 10 },
+      { type: "TOKENS_LIMIT", unit: 6, number: 1, usage: 0, percentage: 25 },
+      { type: "TIME_LIMIT", unit: 5, number: 1, usage: 0, percentage: 2 },
+    ],
+  },
+};
+
+function stubZaiFetch() {
+  vi.stubGlobal(
+    "fetch",
+    vi.fn(async () => new Response(JSON.stringify(RESPONSE), { status: 200 })),
+  );
+}
+
+describe("zai provider", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("keeps daily and weekly windows apart, with real period names", async () => {
+    stubZaiFetch();
+
+    const out = await queryZaiQuota();
+    expect(out && out.success ? out.windows.map((w) => [w.name, w.percentRemaining]) : []).toEqual([
+      ["5-Hour", 60],
+      ["Daily", 90],
+      ["Weekly", 75],
+      ["MCP Monthly", 98],
+    ]);
+    expect(out && out.success ? out.windows[0]!.models : []).toEqual([
+      { model: "glm-4.6", usage: 300_000 },
+      { model: "glm-4.5-air", usage: 100_000 },
+    ]);
+  });
+
+  it("lists per-model usage under its window in grouped style", async () => {
+    stubZaiFetch();
+
+    const out = await zaiProvider.fetch({ config: { toastStyle: "grouped" } } as any);
+    expect(out.entries.map((e: any) => [e.label, e.value ?? e.percentRemaining])).toEqual([
+      ["5-Hour:", 60],
+      ["glm-4.6 (5-Hour):", "300K tok 75%"],
+      ["glm-4.5-air (5-Hour):", "100K tok 25%"],
+      ["Daily:", 90],
+      ["Weekly:", 75],
+      ["MCP Monthly:", 98],
+    ]);
+  });
+
+  it("shows the worst window in classic style", async () => {
+    stubZaiFetch();
+
+    const out = await zaiProvider.fetch({ config: { toastStyle: "classic" } } as any);
+    expect(out.entries).toEqual([
+      { name: "Z.ai", percentRemaining: 60, resetTimeIso: "2026-01-15T15:00:00.000Z" },
+    ]);
+  });
+
+  it("names periods from unit and count", () => {
+    expect(zaiPeriodName(3, 5)).toBe("5-Hour");
+    expect(zaiPeriodName(4, 1)).toBe("Daily");
+    expect(zaiPeriodName(6, 2)).toBe("2-Week");
+    expect(zaiPeriodName(9, 1)).toBe("Unit 9");
+  });
+});
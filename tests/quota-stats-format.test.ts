@@ -17,6 +17,8 @@ function makeEmptyResult(overrides?: Partial<AggregateResult>): AggregateResult
     bySourceModel: [],
     byModel: [],
     bySession: [],
+    byAgent: [],
+    byMode: [],
     unknown: [],
     unpriced: [],
     ...overrides,
@@ -193,4 +195,23 @@ describe("formatQuotaStatsReport (markdown)", () => {
     expect(out).toContain("| Current");
     expect(out).toContain("| Session");
   });
+
+  it("renders agent and mode breakdowns with cost share", () => {
+    const tokens = { input: 100, output: 200, reasoning: 0, cache_read: 0, cache_write: 0 };
+    const r = makeEmptyResult({
+      byAgent: [
+        { agent: "reviewer", tokens, costUsd: 0.75, messageCount: 3 },
+        { agent: "build", tokens, costUsd: 0.25, messageCount: 1 },
+      ],
+      byMode: [{ mode: "unknown", tokens, costUsd: 1, messageCount: 4 }],
+    });
+
+    const out = formatQuotaStatsReport({ title: "Tokens", result: r });
+
+    expect(out).toContain("## Agents");
+    expect(out).toMatch(/reviewer.*\$0\.75.*75%/);
+    expect(out).toMatch(/build.*\$0\.25.*25%/);
+    // All-unknown breakdowns (older OpenCode data) are skipped.
+    expect(out).not.toContain("## Modes");
+  });
 });